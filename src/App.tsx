@@ -3,7 +3,14 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { RequireAuth } from "@/components/RequireAuth";
+import { AuthProvider } from "@/components/AuthProvider";
 import Index from "./pages/Index";
+import Auth from "./pages/Auth";
+import History from "./pages/History";
+import SavedAnalysis from "./pages/SavedAnalysis";
+import Verify from "./pages/Verify";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -13,13 +20,20 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <AuthProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<RequireAuth><Index /></RequireAuth>} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/history" element={<RequireAuth><History /></RequireAuth>} />
+            <Route path="/history/:id" element={<RequireAuth><SavedAnalysis /></RequireAuth>} />
+            <Route path="/verify" element={<Verify />} />
+            <Route path="/settings" element={<RequireAuth><Settings /></RequireAuth>} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -1,10 +1,14 @@
 import { motion } from 'framer-motion';
-import { Cpu, Eye, BarChart3, FileCheck } from 'lucide-react';
+import { Cpu, Eye, BarChart3, FileCheck, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { PartialVerdict } from '@/hooks/useVideoAnalysis';
 
 interface AnalysisProgressProps {
   progress: number;
   currentStep: string;
+  /** Verdict of the frames analyzed so far, shown while the analysis runs */
+  partialVerdict?: PartialVerdict | null;
+  onCancel?: () => void;
 }
 
 const steps = [
@@ -14,7 +18,7 @@ const steps = [
   { id: 'generating', label: 'Generating Report', icon: FileCheck },
 ];
 
-export const AnalysisProgress = ({ progress, currentStep }: AnalysisProgressProps) => {
+export const AnalysisProgress = ({ progress, currentStep, partialVerdict, onCancel }: AnalysisProgressProps) => {
   const currentIndex = steps.findIndex(s => s.id === currentStep);
 
   return (
@@ -48,6 +52,39 @@ export const AnalysisProgress = ({ progress, currentStep }: AnalysisProgressProp
         <span className="text-4xl font-bold font-mono text-gradient">{Math.round(progress)}%</span>
       </div>
 
+      {/* Live verdict */}
+      {partialVerdict && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className={cn(
+            "flex items-center justify-between gap-4 p-4 mb-8 rounded-xl border",
+            partialVerdict.verdict === 'real'
+              ? "bg-success/10 border-success/30"
+              : "bg-destructive/10 border-destructive/30"
+          )}
+        >
+          <div>
+            <p className="text-xs text-muted-foreground">Live verdict</p>
+            <p
+              className={cn(
+                "font-semibold",
+                partialVerdict.verdict === 'real' ? "text-success" : "text-destructive"
+              )}
+            >
+              Leaning {partialVerdict.verdict === 'real' ? 'authentic' : 'AI-generated'} •{' '}
+              {Math.round(partialVerdict.confidence * 100)}%
+            </p>
+          </div>
+          <div className="text-right text-xs text-muted-foreground">
+            <p>
+              {partialVerdict.framesAnalyzed} of {partialVerdict.totalFrames} frames
+            </p>
+            <p>{partialVerdict.artificialFrames} flagged</p>
+          </div>
+        </motion.div>
+      )}
+
       {/* Steps */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         {steps.map((step, index) => {
@@ -97,6 +134,18 @@ export const AnalysisProgress = ({ progress, currentStep }: AnalysisProgressProp
           );
         })}
       </div>
+
+      {onCancel && (
+        <div className="mt-8 text-center">
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Cancel Analysis
+          </button>
+        </div>
+      )}
     </motion.div>
   );
 };
@@ -0,0 +1,53 @@
+import { Link } from 'react-router-dom';
+import { History, LogOut, ScanSearch, Settings, ShieldCheck, UserRound } from 'lucide-react';
+import { NavLink } from '@/components/NavLink';
+import { useAuth } from '@/hooks/useAuth';
+
+const links = [
+  { to: '/', label: 'Analyze', icon: ScanSearch },
+  { to: '/history', label: 'History', icon: History },
+  { to: '/verify', label: 'Verify', icon: ShieldCheck },
+  { to: '/settings', label: 'Settings', icon: Settings },
+];
+
+export const AppNav = () => {
+  const { user, isAnonymous, signOut } = useAuth();
+
+  return (
+    <nav className="flex items-center justify-end gap-2 pt-6">
+      {links.map(({ to, label, icon: Icon }) => (
+        <NavLink
+          key={to}
+          to={to}
+          end={to === '/'}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-full text-muted-foreground border border-transparent hover:text-foreground transition-colors"
+          activeClassName="bg-primary/10 text-primary border-primary/20"
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </NavLink>
+      ))}
+
+      {user && (
+        <div className="flex items-center gap-2 pl-3 ml-1 border-l border-border">
+          <span className="hidden sm:inline-flex items-center gap-1.5 text-xs text-muted-foreground max-w-48 truncate">
+            <UserRound className="w-3.5 h-3.5 shrink-0" />
+            {isAnonymous ? 'Guest' : user.email}
+          </span>
+          {isAnonymous && (
+            <Link to="/auth" className="text-xs font-medium text-primary hover:underline">
+              Create account
+            </Link>
+          )}
+          <button
+            onClick={signOut}
+            title="Sign out"
+            className="p-1.5 rounded-full text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <LogOut className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </nav>
+  );
+};
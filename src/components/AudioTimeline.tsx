@@ -0,0 +1,87 @@
+import { motion } from 'framer-motion';
+import { AlertTriangle, AudioLines } from 'lucide-react';
+import type { AudioAnalysis } from '@/hooks/useVideoAnalysis';
+
+interface AudioTimelineProps {
+  audio: AudioAnalysis;
+  duration: number;
+}
+
+// Green (145) for natural speech through to red (0) for a likely synthetic voice
+const getSuspicionColor = (probability: number) =>
+  `hsl(${Math.round((1 - probability) * 145)} 72% 50%)`;
+
+const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return `${minutes}:${secs}`;
+};
+
+export const AudioTimeline = ({ audio, duration }: AudioTimelineProps) => {
+  if (audio.segments.length === 0) return null;
+
+  // Segments may run past a rounded-down video duration
+  const length = Math.max(duration, ...audio.segments.map((segment) => segment.end));
+  const flagged = audio.segments.filter((segment) => segment.isArtificial);
+
+  return (
+    <div className="p-6 border-t border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+          <AudioLines className="w-4 h-4" />
+          Audio Timeline
+        </h3>
+        <span className="text-xs font-mono text-muted-foreground">{audio.provider}</span>
+      </div>
+
+      {/* Classified segments across the full duration; gaps were silent or not sampled */}
+      <div className="relative h-3 bg-muted rounded-full overflow-hidden">
+        {audio.segments.map((segment) => (
+          <div
+            key={segment.index}
+            title={`${formatTimestamp(segment.start)}–${formatTimestamp(segment.end)} • ${Math.round(segment.probability * 100)}% synthetic`}
+            className="absolute inset-y-0"
+            style={{
+              left: `${(segment.start / length) * 100}%`,
+              width: `${((segment.end - segment.start) / length) * 100}%`,
+              backgroundColor: getSuspicionColor(segment.probability),
+            }}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-between mt-2 text-xs text-muted-foreground">
+        <span>0:00</span>
+        <span>{formatTimestamp(length)}</span>
+      </div>
+
+      {flagged.length > 0 ? (
+        <ul className="mt-4 space-y-1.5">
+          {flagged.map((segment, index) => (
+            <motion.li
+              key={segment.index}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.6 + index * 0.05 }}
+              className="flex items-start gap-2 text-xs"
+            >
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-destructive" />
+              <span>
+                <span className="font-mono">
+                  {formatTimestamp(segment.start)}–{formatTimestamp(segment.end)}
+                </span>
+                {' '}
+                {segment.issues.length > 0 ? segment.issues.join('; ') : 'Voice likely synthetic'}
+                <span className="text-muted-foreground"> ({Math.round(segment.confidence * 100)}%)</span>
+              </span>
+            </motion.li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-xs text-muted-foreground">
+          None of the {audio.segmentsAnalyzed} segments analyzed sounded synthetic.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { AuthContext } from '@/hooks/useAuth';
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Subscribe first so a token refresh during getSession is not missed
+    const { data } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setIsLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data: { session: initialSession } }) => {
+      setSession(initialSession);
+      setIsLoading(false);
+    });
+
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const signOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  const user = session?.user ?? null;
+
+  return (
+    <AuthContext.Provider
+      value={{ session, user, isAnonymous: user?.is_anonymous === true, isLoading, signOut }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,251 @@
+import type { ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import {
+  AlertTriangle,
+  Ban,
+  CheckCircle,
+  Clock,
+  Download,
+  Eye,
+  FileJson,
+  FileSpreadsheet,
+  Loader2,
+  Plus,
+  RotateCcw,
+  Trash2,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { QueueItem, QueueItemStatus } from '@/hooks/useAnalysisQueue';
+import type { AnalysisStep } from '@/hooks/useVideoAnalysis';
+import { cn } from '@/lib/utils';
+import { ACCEPTED_FORMATS } from '@/utils/validateVideo';
+
+interface BatchQueueProps {
+  items: QueueItem[];
+  onAddFiles: (files: File[]) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onView: (id: string) => void;
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+const statusIcon: Record<QueueItemStatus, ReactNode> = {
+  queued: <Clock className="w-4 h-4 text-muted-foreground" />,
+  running: <Loader2 className="w-4 h-4 text-primary animate-spin" />,
+  done: <CheckCircle className="w-4 h-4 text-success" />,
+  failed: <XCircle className="w-4 h-4 text-destructive" />,
+  cancelled: <Ban className="w-4 h-4 text-muted-foreground" />,
+};
+
+const stepLabel: Record<AnalysisStep, string> = {
+  extracting: 'Extracting frames',
+  analyzing: 'AI analysis',
+  computing: 'Computing score',
+  generating: 'Generating report',
+};
+
+const describe = (item: QueueItem) => {
+  switch (item.status) {
+    case 'queued':
+      return 'Waiting';
+    case 'running':
+      return `${stepLabel[item.step]} • ${Math.round(item.progress)}%`;
+    case 'done':
+      return 'Complete';
+    case 'failed':
+      return item.error ?? 'Analysis failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
+
+const IconButton = ({ title, onClick, children }: { title: string; onClick: () => void; children: ReactNode }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+  >
+    {children}
+  </button>
+);
+
+export const BatchQueue = ({
+  items,
+  onAddFiles,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClear,
+  onView,
+  onExport,
+}: BatchQueueProps) => {
+  const finished = items.filter((item) => item.status === 'done');
+  const pending = items.filter((item) => item.status === 'queued' || item.status === 'running').length;
+  const flagged = finished.filter((item) => item.result?.verdict === 'ai-generated').length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Queue */}
+      <div className="glass rounded-2xl overflow-hidden">
+        <div className="p-4 flex flex-wrap items-center justify-between gap-3 border-b border-border">
+          <div>
+            <h3 className="font-semibold">Batch Queue</h3>
+            <p className="text-xs text-muted-foreground">
+              {finished.length} of {items.length} analyzed{pending > 0 ? ` • ${pending} in progress` : ''}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg bg-muted hover:bg-muted/80 cursor-pointer transition-colors">
+              <Plus className="w-4 h-4" />
+              Add videos
+              <input
+                type="file"
+                multiple
+                accept={ACCEPTED_FORMATS.join(',')}
+                className="hidden"
+                onChange={(event) => {
+                  onAddFiles(Array.from(event.target.files ?? []));
+                  event.target.value = '';
+                }}
+              />
+            </label>
+            <button
+              onClick={onClear}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              Clear
+            </button>
+          </div>
+        </div>
+
+        <ul className="divide-y divide-border">
+          {items.map((item) => (
+            <li key={item.id} className="p-4 flex items-center gap-4">
+              {statusIcon[item.status]}
+              <div className="flex-1 min-w-0 space-y-1.5">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-sm font-medium truncate">{item.file.name}</p>
+                  <span
+                    className={cn(
+                      "text-xs shrink-0 truncate max-w-[50%]",
+                      item.status === 'failed' ? "text-destructive" : "text-muted-foreground"
+                    )}
+                  >
+                    {describe(item)}
+                  </span>
+                </div>
+                {item.status === 'running' && <Progress value={item.progress} className="h-1.5" />}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {item.status === 'done' && (
+                  <IconButton title="View result" onClick={() => onView(item.id)}>
+                    <Eye className="w-4 h-4" />
+                  </IconButton>
+                )}
+                {(item.status === 'failed' || item.status === 'cancelled') && (
+                  <IconButton title="Retry" onClick={() => onRetry(item.id)}>
+                    <RotateCcw className="w-4 h-4" />
+                  </IconButton>
+                )}
+                {item.status === 'queued' || item.status === 'running' ? (
+                  <IconButton title="Cancel" onClick={() => onCancel(item.id)}>
+                    <X className="w-4 h-4" />
+                  </IconButton>
+                ) : (
+                  <IconButton title="Remove" onClick={() => onRemove(item.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </IconButton>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Summary */}
+      {finished.length > 0 && (
+        <div className="glass rounded-2xl overflow-hidden">
+          <div className="p-4 flex flex-wrap items-center justify-between gap-3 border-b border-border">
+            <div>
+              <h3 className="font-semibold">Summary</h3>
+              <p className="text-xs text-muted-foreground">
+                <span className="text-success">{finished.length - flagged} authentic</span>
+                {' • '}
+                <span className="text-destructive">{flagged} AI-generated</span>
+              </p>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg bg-primary text-primary-foreground hover:glow-primary transition-all duration-300">
+                  <Download className="w-4 h-4" />
+                  Export all
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => onExport('csv')}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Summary table (.csv)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onExport('json')}>
+                  <FileJson className="w-4 h-4 mr-2" />
+                  Full reports (.json)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Verdict</TableHead>
+                <TableHead className="text-right">Confidence</TableHead>
+                <TableHead className="text-right">Frames</TableHead>
+                <TableHead className="text-right">Time</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {finished.map(({ id, file, result }) => (
+                <TableRow key={id} className="cursor-pointer" onClick={() => onView(id)}>
+                  <TableCell className="max-w-[240px] truncate font-medium">{file.name}</TableCell>
+                  <TableCell>
+                    {result.verdict === 'real' ? (
+                      <span className="inline-flex items-center gap-1.5 text-success">
+                        <CheckCircle className="w-4 h-4" />
+                        Authentic
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center gap-1.5 text-destructive">
+                        <AlertTriangle className="w-4 h-4" />
+                        AI-Generated
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{Math.round(result.confidence * 100)}%</TableCell>
+                  <TableCell className="text-right">{result.framesAnalyzed}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{result.processingTime.toFixed(1)}s</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </motion.div>
+  );
+};
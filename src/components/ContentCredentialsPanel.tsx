@@ -0,0 +1,112 @@
+import { motion } from 'framer-motion';
+import { AlertTriangle, BadgeCheck, CircleHelp, FileBadge, ShieldAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ContentCredentials } from '@/utils/contentCredentials';
+
+interface ContentCredentialsPanelProps {
+  credentials: ContentCredentials;
+}
+
+const STATUS_STYLES: Record<ContentCredentials['status'], { icon: typeof BadgeCheck; label: string; className: string }> = {
+  valid: { icon: BadgeCheck, label: 'Verified', className: 'text-success' },
+  invalid: { icon: ShieldAlert, label: 'Invalid', className: 'text-destructive' },
+  incomplete: { icon: CircleHelp, label: 'Not verifiable', className: 'text-warning' },
+};
+
+// "c2pa.color_adjustments" reads as "Color adjustments"
+const describeAction = (action: string) => {
+  const name = action.replace(/^c2pa\./, '').replace(/[._]/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+const describeSource = (uri: string | null) => {
+  if (!uri) return null;
+  if (/\/trainedAlgorithmicMedia$/.test(uri)) return 'AI model';
+  if (/\/algorithmicMedia$/.test(uri)) return 'Algorithm';
+  if (/\/compositeWithTrainedAlgorithmicMedia$/.test(uri)) return 'Composite with AI';
+  if (/\/digitalCapture$/.test(uri)) return 'Camera capture';
+  return uri.split('/').pop() ?? null;
+};
+
+export const ContentCredentialsPanel = ({ credentials }: ContentCredentialsPanelProps) => {
+  const { icon: StatusIcon, label, className } = STATUS_STYLES[credentials.status];
+  const signer = credentials.signer
+    ? [credentials.signer.organization, credentials.signer.commonName].filter(Boolean).join(' · ') || 'Unnamed'
+    : 'Unknown';
+
+  const fields = [
+    { label: 'Signed by', value: `${signer}${credentials.trusted ? '' : ' (not on the trust list)'}` },
+    { label: 'Issuer', value: credentials.signer?.issuer ?? 'Unknown' },
+    { label: 'Generator', value: credentials.aiTool ?? credentials.claimGenerator ?? 'Not recorded' },
+    { label: 'Title', value: credentials.title ?? 'Not recorded' },
+  ];
+
+  return (
+    <div className="p-6 border-t border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+          <FileBadge className="w-4 h-4" />
+          Content Credentials
+        </h3>
+        <span className={cn('flex items-center gap-1.5 text-sm font-medium', className)}>
+          <StatusIcon className="w-4 h-4" />
+          {label}
+        </span>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs mb-4">
+        {fields.map((field) => (
+          <div key={field.label} className="min-w-0">
+            <dt className="text-muted-foreground">{field.label}</dt>
+            <dd className="font-mono truncate" title={field.value}>
+              {field.value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {credentials.actions.length > 0 && (
+        <ul className="mb-4 space-y-1 text-xs">
+          {credentials.actions.map((action, index) => (
+            <motion.li
+              key={`${action.action}-${index}`}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.6 + index * 0.05 }}
+              className="flex gap-2 bg-muted/50 rounded-lg px-3 py-1.5"
+            >
+              <span className="font-medium">{describeAction(action.action)}</span>
+              <span className="font-mono truncate text-muted-foreground">
+                {[action.softwareAgent, describeSource(action.digitalSourceType), action.when && new Date(action.when).toLocaleString()]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </span>
+            </motion.li>
+          ))}
+        </ul>
+      )}
+
+      {credentials.ingredients.length > 0 && (
+        <p className="mb-4 text-xs text-muted-foreground">
+          Made from: <span className="font-mono text-foreground">{credentials.ingredients.join(', ')}</span>
+        </p>
+      )}
+
+      {credentials.errors.length > 0 && (
+        <ul className="space-y-1.5">
+          {credentials.errors.map((error) => (
+            <li key={error} className="flex items-start gap-2 text-xs">
+              <AlertTriangle
+                className={cn(
+                  'w-3.5 h-3.5 mt-0.5 shrink-0',
+                  credentials.status === 'valid' ? 'text-muted-foreground' : 'text-destructive'
+                )}
+              />
+              {error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import { motion } from 'framer-motion';
+import { AlertCircle, AlertTriangle, CheckCircle, FileSearch, Info } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ContainerMetadata, FindingSeverity } from '@/utils/containerMetadata';
+
+interface FileMetadataPanelProps {
+  metadata: ContainerMetadata;
+}
+
+const SEVERITY_STYLES: Record<FindingSeverity, { icon: typeof Info; className: string }> = {
+  high: { icon: AlertTriangle, className: 'text-destructive' },
+  medium: { icon: AlertCircle, className: 'text-warning' },
+  low: { icon: Info, className: 'text-muted-foreground' },
+};
+
+const TRACK_TYPES: Record<string, string> = {
+  vide: 'Video',
+  soun: 'Audio',
+  meta: 'Metadata',
+  tmcd: 'Timecode',
+  text: 'Text',
+  sbtl: 'Subtitles',
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Not set');
+
+const describeTrack = (track: ContainerMetadata['tracks'][number]) =>
+  [
+    TRACK_TYPES[track.type] ?? track.type,
+    track.codec,
+    track.width && track.height ? `${track.width}×${track.height}` : null,
+    track.duration !== null ? `${track.duration.toFixed(1)}s` : null,
+    track.edits > 0 ? `${track.edits} edit${track.edits === 1 ? '' : 's'}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const FileMetadataPanel = ({ metadata }: FileMetadataPanelProps) => {
+  const scorePercent = Math.round(metadata.score * 100);
+  const device = [metadata.make, metadata.model].filter(Boolean).join(' ');
+
+  const fields = [
+    {
+      label: 'Container',
+      value: `${metadata.format === 'quicktime' ? 'QuickTime' : 'MP4'}${metadata.majorBrand ? ` (${metadata.majorBrand})` : ''}`,
+    },
+    { label: 'Encoder', value: metadata.encoder ?? 'Not recorded' },
+    { label: 'Device', value: device || 'Not recorded' },
+    { label: 'Software', value: metadata.software ?? 'Not recorded' },
+    { label: 'Created', value: formatTime(metadata.creationTime) },
+    { label: 'Modified', value: formatTime(metadata.modificationTime) },
+  ];
+
+  return (
+    <div className="p-6 border-t border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+          <FileSearch className="w-4 h-4" />
+          File Metadata
+        </h3>
+        <span
+          className={cn(
+            'text-sm font-mono font-medium',
+            metadata.score > 0.7 ? 'text-success' : metadata.score > 0.4 ? 'text-warning' : 'text-destructive'
+          )}
+        >
+          {scorePercent}%
+        </span>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs mb-4">
+        {fields.map((field) => (
+          <div key={field.label} className="min-w-0">
+            <dt className="text-muted-foreground">{field.label}</dt>
+            <dd className="font-mono truncate" title={field.value}>
+              {field.value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {metadata.tracks.length > 0 && (
+        <ul className="mb-4 space-y-1 text-xs">
+          {metadata.tracks.map((track) => (
+            <li key={track.id} className="flex gap-2 bg-muted/50 rounded-lg px-3 py-1.5">
+              <span className="text-muted-foreground">Track {track.id}</span>
+              <span className="font-mono truncate">{describeTrack(track)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {metadata.findings.length === 0 ? (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <CheckCircle className="w-3.5 h-3.5 text-success" />
+          Nothing unusual in the container metadata
+        </p>
+      ) : (
+        <ul className="space-y-1.5">
+          {metadata.findings.map((finding, index) => {
+            const { icon: Icon, className } = SEVERITY_STYLES[finding.severity];
+            return (
+              <motion.li
+                key={finding.message}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.6 + index * 0.05 }}
+                className="flex items-start gap-2 text-xs"
+              >
+                <Icon className={cn('w-3.5 h-3.5 mt-0.5 shrink-0', className)} />
+                {finding.message}
+              </motion.li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Film, AlertTriangle, CheckCircle, UserX } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { FaceAnalysis, FrameAnalysis } from '@/hooks/useVideoAnalysis';
+import { renderForensicOverlay, type ForensicOverlay } from '@/utils/imageForensics';
+
+interface FrameAnalysisPanelProps {
+  frameAnalyses: FrameAnalysis[];
+}
+
+const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${secs}`;
+};
+
+const OVERLAYS: { value: ForensicOverlay; label: string; description: string }[] = [
+  { value: 'ela', label: 'ELA', description: 'Error level: regions that change most when recompressed' },
+  { value: 'noise', label: 'Noise', description: 'High-pass noise residual' },
+  { value: 'inconsistency', label: 'Noise map', description: 'Blocks whose noise level departs from the rest of the frame' },
+];
+
+const FaceBoxes = ({ faces, showLabels = false }: { faces?: FaceAnalysis[]; showLabels?: boolean }) => (
+  <>
+    {faces?.map((face, index) => (
+      <span
+        key={index}
+        className={cn(
+          "absolute border-2 rounded-sm pointer-events-none",
+          face.isArtificial ? "border-destructive" : "border-success"
+        )}
+        style={{
+          left: `${face.box.x * 100}%`,
+          top: `${face.box.y * 100}%`,
+          width: `${face.box.width * 100}%`,
+          height: `${face.box.height * 100}%`,
+        }}
+      >
+        {showLabels && (
+          <span
+            className={cn(
+              "absolute -top-5 left-0 px-1 text-[10px] font-mono rounded-sm whitespace-nowrap",
+              face.isArtificial ? "bg-destructive text-destructive-foreground" : "bg-success text-success-foreground"
+            )}
+          >
+            Face {index + 1} • {Math.round(face.confidence * 100)}%
+          </span>
+        )}
+      </span>
+    ))}
+  </>
+);
+
+export const FrameAnalysisPanel = ({ frameAnalyses }: FrameAnalysisPanelProps) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [overlay, setOverlay] = useState<ForensicOverlay | null>(null);
+  const [overlaySrc, setOverlaySrc] = useState<string | null>(null);
+
+  const selected = frameAnalyses[Math.min(selectedIndex, frameAnalyses.length - 1)];
+  const thumbnail = selected?.thumbnail;
+
+  // Overlays are recomputed from the frame on demand rather than kept with the result
+  useEffect(() => {
+    setOverlaySrc(null);
+    if (!overlay || !thumbnail) return;
+
+    let cancelled = false;
+    renderForensicOverlay(thumbnail, overlay)
+      .then((src) => !cancelled && setOverlaySrc(src))
+      .catch((error) => console.warn('Failed to render forensic overlay:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [overlay, thumbnail]);
+
+  if (frameAnalyses.length === 0) return null;
+
+  return (
+    <div className="p-6 border-t border-border">
+      <h3 className="flex items-center gap-2 text-sm font-semibold mb-4 text-muted-foreground">
+        <Film className="w-4 h-4" />
+        Frame-by-Frame Analysis
+      </h3>
+
+      {/* Thumbnail strip */}
+      <div className="grid grid-cols-4 sm:grid-cols-5 gap-2 mb-4">
+        {frameAnalyses.map((frame, index) => (
+          <button
+            key={frame.frameIndex}
+            onClick={() => setSelectedIndex(index)}
+            className={cn(
+              "relative self-start rounded-lg overflow-hidden border-2 transition-all duration-300",
+              index === selectedIndex ? "border-primary glow-primary" : "border-transparent hover:border-primary/50",
+            )}
+          >
+            {frame.thumbnail && (
+              <img
+                src={frame.thumbnail}
+                alt={`Frame ${frame.frameIndex + 1}`}
+                className="block w-full h-auto"
+              />
+            )}
+            <FaceBoxes faces={frame.faces} />
+            {frame.faces?.length === 0 && (
+              <UserX className="absolute top-1 left-1 w-3 h-3 text-muted-foreground" />
+            )}
+            <span
+              className={cn(
+                "absolute top-1 right-1 w-2.5 h-2.5 rounded-full",
+                frame.isArtificial ? "bg-destructive" : "bg-success"
+              )}
+            />
+            <span className="absolute bottom-0 inset-x-0 bg-background/70 text-[10px] font-mono text-center">
+              {formatTimestamp(frame.timestamp)}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Selected frame details */}
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={selected.frameIndex}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          transition={{ duration: 0.2 }}
+          className="grid sm:grid-cols-2 gap-4 bg-muted/50 rounded-xl p-4"
+        >
+          {selected.thumbnail && (
+            <div className="self-start">
+              <div className="relative">
+                <img
+                  src={selected.thumbnail}
+                  alt={`Frame ${selected.frameIndex + 1}`}
+                  className="w-full rounded-lg bg-black/50"
+                />
+                {overlaySrc && (
+                  <img
+                    src={overlaySrc}
+                    alt=""
+                    className="absolute inset-0 w-full h-full rounded-lg pointer-events-none"
+                  />
+                )}
+                {!overlay && <FaceBoxes faces={selected.faces} showLabels />}
+              </div>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={overlay ?? ''}
+                onValueChange={(value) => setOverlay((value || null) as ForensicOverlay | null)}
+                className="justify-start mt-2"
+              >
+                {OVERLAYS.map((item) => (
+                  <ToggleGroupItem
+                    key={item.value}
+                    value={item.value}
+                    title={item.description}
+                    className="h-7 px-2 text-[11px]"
+                  >
+                    {item.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              {selected.isArtificial ? (
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+              ) : (
+                <CheckCircle className="w-4 h-4 text-success" />
+              )}
+              <span className="text-sm font-semibold">
+                {selected.isArtificial ? "AI indicators found" : "Appears authentic"}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground mb-3">
+              Frame {selected.frameIndex + 1} at {formatTimestamp(selected.timestamp)} •{' '}
+              {selected.sampling.shotIndex !== undefined && <>Shot {selected.sampling.shotIndex + 1} • </>}
+              <span className="font-mono">{Math.round(selected.confidence * 100)}%</span> confidence
+            </p>
+
+            {selected.forensics && (
+              <div className="mb-3 space-y-1 text-xs">
+                {[
+                  { label: 'Error level spread', value: selected.forensics.elaInconsistency },
+                  { label: 'Noise inconsistency', value: selected.forensics.noiseInconsistency },
+                ].map((item) => (
+                  <div key={item.label} className="flex items-center justify-between gap-2">
+                    <span className="text-muted-foreground">{item.label}</span>
+                    <span
+                      className={cn(
+                        "font-mono",
+                        item.value > 0.6 ? "text-destructive" : item.value > 0.3 ? "text-warning" : undefined
+                      )}
+                    >
+                      {Math.round(item.value * 100)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selected.faces?.length === 0 && (
+              <p className="flex items-center gap-1.5 mb-3 text-xs text-muted-foreground">
+                <UserX className="w-3.5 h-3.5" />
+                No face detected in this frame
+              </p>
+            )}
+
+            {selected.models && selected.models.length > 1 && (
+              <div className="mb-3 space-y-1">
+                {selected.models.map((model) => (
+                  <div key={model.provider} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="flex items-center gap-1.5 truncate">
+                      <span
+                        className={cn(
+                          "w-1.5 h-1.5 rounded-full flex-shrink-0",
+                          model.isArtificial ? "bg-destructive" : "bg-success"
+                        )}
+                      />
+                      <span className="truncate text-muted-foreground">
+                        {model.faceIndex === undefined ? model.provider : `Face ${model.faceIndex + 1} · ${model.provider}`}
+                      </span>
+                    </span>
+                    <span className="font-mono">{Math.round(model.probability * 100)}% AI</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selected.issues.length > 0 ? (
+              <ul className="space-y-1.5">
+                {selected.issues.map((issue, index) => (
+                  <li key={index} className="flex gap-2 text-xs">
+                    <span className="mt-1.5 w-1 h-1 rounded-full bg-warning flex-shrink-0" />
+                    <span>{issue}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">No issues reported for this frame.</p>
+            )}
+          </div>
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -1,29 +1,66 @@
 import { motion } from 'framer-motion';
-import { Shield, AlertTriangle, CheckCircle, Download, RotateCcw, Info } from 'lucide-react';
+import { Shield, AlertTriangle, AudioLines, CheckCircle, Download, Film, RotateCcw, Info, ChevronDown, FileText, FileType, FileJson, FileSpreadsheet } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface AnalysisResult {
-  confidence: number;
-  verdict: 'real' | 'ai-generated';
-  details: {
-    faceConsistency: number;
-    temporalCoherence: number;
-    artifactScore: number;
-    compressionAnalysis: number;
-  };
-  framesAnalyzed: number;
-  processingTime: number;
-}
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { AudioTimeline } from '@/components/AudioTimeline';
+import { ContentCredentialsPanel } from '@/components/ContentCredentialsPanel';
+import { FileMetadataPanel } from '@/components/FileMetadataPanel';
+import { FrameAnalysisPanel } from '@/components/FrameAnalysisPanel';
+import { SuspicionTimeline } from '@/components/SuspicionTimeline';
+import type { AnalysisResult } from '@/hooks/useVideoAnalysis';
+import type { ReportFormat } from '@/utils/generateReport';
 
 interface ResultCardProps {
   result: AnalysisResult;
+  videoUrl?: string | null;
   onReset: () => void;
-  onDownloadReport: () => void;
+  resetLabel?: string;
+  onDownloadReport: (format: ReportFormat) => void;
 }
 
-export const ResultCard = ({ result, onReset, onDownloadReport }: ResultCardProps) => {
+interface VerdictTileProps {
+  label: string;
+  icon: typeof Film;
+  verdict: AnalysisResult['verdict'];
+  confidence: number;
+}
+
+const VerdictTile = ({ label, icon: Icon, verdict, confidence }: VerdictTileProps) => {
+  const isReal = verdict === 'real';
+  return (
+    <div className={cn("rounded-xl p-4", isReal ? "bg-success/10" : "bg-destructive/10")}>
+      <div className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+        <Icon className="w-4 h-4" />
+        {label}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className={cn("flex items-center gap-1.5 font-semibold", isReal ? "text-success" : "text-destructive")}>
+          {isReal ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+          {isReal ? "Authentic" : "AI-Generated"}
+        </span>
+        <span className="font-mono text-sm">{Math.round(confidence * 100)}%</span>
+      </div>
+    </div>
+  );
+};
+
+export const ResultCard = ({
+  result,
+  videoUrl,
+  onReset,
+  resetLabel = 'Analyze Another',
+  onDownloadReport,
+}: ResultCardProps) => {
   const isReal = result.verdict === 'real';
   const confidencePercent = Math.round(result.confidence * 100);
+  const audio = result.audio;
 
   return (
     <motion.div
@@ -76,12 +113,27 @@ export const ResultCard = ({ result, onReset, onDownloadReport }: ResultCardProp
             className="text-muted-foreground"
           >
             {isReal 
-              ? "No significant manipulation indicators detected" 
+              ? audio?.verdict === 'ai-generated'
+                ? "No visual manipulation detected, but the voice appears to be synthetic"
+                : "No significant manipulation indicators detected"
               : "Deepfake indicators were detected in this video"
             }
           </motion.p>
         </div>
 
+        {/* Video and audio are judged separately */}
+        {audio && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.45 }}
+            className="grid grid-cols-2 gap-4 p-6 border-t border-border"
+          >
+            <VerdictTile label="Video" icon={Film} verdict={result.verdict} confidence={result.confidence} />
+            <VerdictTile label="Audio" icon={AudioLines} verdict={audio.verdict} confidence={audio.confidence} />
+          </motion.div>
+        )}
+
         {/* Confidence gauge */}
         <div className="p-6 border-t border-border">
           <div className="flex items-center justify-between mb-3">
@@ -116,6 +168,16 @@ export const ResultCard = ({ result, onReset, onDownloadReport }: ResultCardProp
           </div>
         </div>
 
+        {/* Suspicion over time */}
+        <SuspicionTimeline
+          frameAnalyses={result.frameAnalyses}
+          duration={result.duration}
+          videoUrl={videoUrl}
+        />
+
+        {/* Voice classifier results per segment */}
+        {audio && <AudioTimeline audio={audio} duration={result.duration} />}
+
         {/* Analysis details */}
         <div className="p-6 border-t border-border">
           <h3 className="flex items-center gap-2 text-sm font-semibold mb-4 text-muted-foreground">
@@ -139,24 +201,47 @@ export const ResultCard = ({ result, onReset, onDownloadReport }: ResultCardProp
               >
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-xs text-muted-foreground">{item.label}</span>
-                  <span className="text-sm font-mono font-medium">{Math.round(item.value * 100)}%</span>
+                  <span className="text-sm font-mono font-medium">
+                    {item.value === null ? 'N/A' : `${Math.round(item.value * 100)}%`}
+                  </span>
                 </div>
                 <div className="h-1.5 bg-background rounded-full overflow-hidden">
-                  <motion.div
-                    initial={{ width: 0 }}
-                    animate={{ width: `${item.value * 100}%` }}
-                    transition={{ delay: 0.8 + index * 0.1, duration: 0.5 }}
-                    className={cn(
-                      "h-full rounded-full",
-                      item.value > 0.7 ? "bg-success" : item.value > 0.4 ? "bg-warning" : "bg-destructive"
-                    )}
-                  />
+                  {item.value !== null && (
+                    <motion.div
+                      initial={{ width: 0 }}
+                      animate={{ width: `${item.value * 100}%` }}
+                      transition={{ delay: 0.8 + index * 0.1, duration: 0.5 }}
+                      className={cn(
+                        "h-full rounded-full",
+                        item.value > 0.7 ? "bg-success" : item.value > 0.4 ? "bg-warning" : "bg-destructive"
+                      )}
+                    />
+                  )}
                 </div>
+                {item.value === null && (
+                  <p className="mt-2 text-[10px] text-muted-foreground">No faces detected</p>
+                )}
               </motion.div>
             ))}
           </div>
+
+          {result.compression && (
+            <p className="mt-4 text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">Compression: </span>
+              {result.compression.explanation}
+            </p>
+          )}
         </div>
 
+        {/* Embedded provenance */}
+        {result.provenance && <ContentCredentialsPanel credentials={result.provenance} />}
+
+        {/* Container forensics */}
+        {result.fileMetadata && <FileMetadataPanel metadata={result.fileMetadata} />}
+
+        {/* Per-frame drill-down */}
+        <FrameAnalysisPanel frameAnalyses={result.frameAnalyses} />
+
         {/* Stats footer */}
         <div className="p-6 border-t border-border bg-muted/30">
           <div className="flex justify-center gap-8 text-center">
@@ -184,16 +269,40 @@ export const ResultCard = ({ result, onReset, onDownloadReport }: ResultCardProp
         transition={{ delay: 1 }}
         className="flex flex-col sm:flex-row gap-4 mt-6"
       >
-        <button
-          onClick={onDownloadReport}
-          className={cn(
-            "flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-xl font-medium transition-all duration-300",
-            "bg-primary text-primary-foreground hover:glow-primary hover:scale-[1.02]"
-          )}
-        >
-          <Download className="w-4 h-4" />
-          Download Report
-        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className={cn(
+                "flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-xl font-medium transition-all duration-300",
+                "bg-primary text-primary-foreground hover:glow-primary hover:scale-[1.02]"
+              )}
+            >
+              <Download className="w-4 h-4" />
+              Download Report
+              <ChevronDown className="w-4 h-4 opacity-70" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-56">
+            <DropdownMenuItem onSelect={() => onDownloadReport('pdf')}>
+              <FileType className="w-4 h-4 mr-2" />
+              PDF report with frame evidence
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onDownloadReport('txt')}>
+              <FileText className="w-4 h-4 mr-2" />
+              Plain text summary
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Data exports</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => onDownloadReport('json')}>
+              <FileJson className="w-4 h-4 mr-2" />
+              JSON (full result)
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onDownloadReport('csv')}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              CSV (per-frame rows)
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         <button
           onClick={onReset}
           className={cn(
@@ -202,7 +311,7 @@ export const ResultCard = ({ result, onReset, onDownloadReport }: ResultCardProp
           )}
         >
           <RotateCcw className="w-4 h-4" />
-          Analyze Another
+          {resetLabel}
         </button>
       </motion.div>
     </motion.div>
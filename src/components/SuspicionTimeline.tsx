@@ -0,0 +1,155 @@
+import { useRef, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { CartesianGrid, Cell, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import type { FrameAnalysis } from '@/hooks/useVideoAnalysis';
+
+interface SuspicionTimelineProps {
+  frameAnalyses: FrameAnalysis[];
+  duration: number;
+  videoUrl?: string | null;
+}
+
+interface TimelinePoint {
+  timestamp: number;
+  suspicion: number;
+  frameIndex: number;
+}
+
+const chartConfig = {
+  suspicion: { label: 'AI Likelihood' },
+} satisfies ChartConfig;
+
+/**
+ * Converts a frame verdict into the probability that the frame is artificial,
+ * so authentic frames with high confidence sit at the bottom of the scale.
+ */
+const getSuspicion = (frame: FrameAnalysis) =>
+  frame.isArtificial ? frame.confidence : 1 - frame.confidence;
+
+// Green (145) for authentic frames through to red (0) for suspicious ones
+const getSuspicionColor = (suspicion: number) =>
+  `hsl(${Math.round((1 - suspicion) * 145)} 72% 50%)`;
+
+const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return `${minutes}:${secs}`;
+};
+
+export const SuspicionTimeline = ({ frameAnalyses, duration, videoUrl }: SuspicionTimelineProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  if (frameAnalyses.length === 0 || !duration) return null;
+
+  const points: TimelinePoint[] = frameAnalyses.map((frame) => ({
+    timestamp: frame.timestamp,
+    suspicion: getSuspicion(frame),
+    frameIndex: frame.frameIndex,
+  }));
+
+  const seekTo = (timestamp: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = timestamp;
+    setCurrentTime(timestamp);
+  };
+
+  return (
+    <div className="p-6 border-t border-border">
+      <h3 className="flex items-center gap-2 text-sm font-semibold mb-4 text-muted-foreground">
+        <Activity className="w-4 h-4" />
+        Suspicion Timeline
+      </h3>
+
+      {videoUrl && (
+        <video
+          ref={videoRef}
+          src={videoUrl}
+          controls
+          muted
+          playsInline
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          className="w-full aspect-video rounded-xl bg-black/50 object-contain mb-4"
+        />
+      )}
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+        <ScatterChart margin={{ top: 8, right: 8, bottom: 0, left: -20 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            type="number"
+            dataKey="timestamp"
+            domain={[0, duration]}
+            tickFormatter={formatTimestamp}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis
+            type="number"
+            dataKey="suspicion"
+            domain={[0, 1]}
+            ticks={[0, 0.5, 1]}
+            tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+            tickLine={false}
+            axisLine={false}
+          />
+          <ChartTooltip
+            cursor={false}
+            content={({ active, payload }) => {
+              if (!active || !payload?.length) return null;
+              const point = payload[0].payload as TimelinePoint;
+              return (
+                <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                  <p className="font-medium">Frame {point.frameIndex + 1} • {formatTimestamp(point.timestamp)}</p>
+                  <p className="text-muted-foreground">
+                    AI likelihood <span className="font-mono text-foreground">{Math.round(point.suspicion * 100)}%</span>
+                  </p>
+                </div>
+              );
+            }}
+          />
+          <ReferenceLine y={0.5} strokeDasharray="4 4" />
+          {videoUrl && <ReferenceLine x={currentTime} stroke="hsl(var(--primary))" />}
+          <Scatter
+            data={points}
+            className="cursor-pointer"
+            onClick={(point: TimelinePoint) => seekTo(point.timestamp)}
+          >
+            {points.map((point) => (
+              <Cell key={point.frameIndex} fill={getSuspicionColor(point.suspicion)} />
+            ))}
+          </Scatter>
+        </ScatterChart>
+      </ChartContainer>
+
+      {/* Heatmap strip across the full duration */}
+      <div className="relative h-3 mt-2 bg-muted rounded-full overflow-hidden">
+        {points.map((point, index) => {
+          // Each frame colours the span halfway to its neighbours
+          const start = index === 0 ? 0 : (points[index - 1].timestamp + point.timestamp) / 2;
+          const end = index === points.length - 1 ? duration : (point.timestamp + points[index + 1].timestamp) / 2;
+          return (
+            <button
+              key={point.frameIndex}
+              onClick={() => seekTo(point.timestamp)}
+              title={`${formatTimestamp(point.timestamp)} • ${Math.round(point.suspicion * 100)}%`}
+              className="absolute inset-y-0 hover:brightness-125 transition-all"
+              style={{
+                left: `${(start / duration) * 100}%`,
+                width: `${((end - start) / duration) * 100}%`,
+                backgroundColor: getSuspicionColor(point.suspicion),
+              }}
+            />
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between mt-2 text-xs text-muted-foreground">
+        <span>0:00</span>
+        <span>{formatTimestamp(duration)}</span>
+      </div>
+    </div>
+  );
+};
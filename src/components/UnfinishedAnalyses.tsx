@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { History, X } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { deleteCheckpoint, listCheckpoints, type AnalysisCheckpoint } from '@/utils/analysisCheckpoint';
+
+/** Lists interrupted analyses kept in this browser; re-selecting the file resumes one */
+export const UnfinishedAnalyses = () => {
+  const { user } = useAuth();
+  const [checkpoints, setCheckpoints] = useState<AnalysisCheckpoint[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    let active = true;
+    listCheckpoints(user.id).then((found) => {
+      if (active) setCheckpoints(found);
+    });
+    return () => {
+      active = false;
+    };
+  }, [user]);
+
+  const discard = (key: string) => {
+    setCheckpoints((current) => current.filter((checkpoint) => checkpoint.key !== key));
+    deleteCheckpoint(key);
+  };
+
+  if (checkpoints.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-2xl mx-auto mb-4 glass rounded-2xl p-4"
+    >
+      <div className="flex items-center gap-2 mb-3 text-sm font-medium">
+        <History className="w-4 h-4 text-primary" />
+        Unfinished analyses
+        <span className="text-xs font-normal text-muted-foreground">Select the same video again to resume</span>
+      </div>
+      <ul className="space-y-2">
+        {checkpoints.map((checkpoint) => (
+          <li key={checkpoint.key} className="flex items-center justify-between gap-3 text-sm">
+            <span className="truncate">{checkpoint.fileName}</span>
+            <span className="flex items-center gap-2 shrink-0 text-xs text-muted-foreground">
+              {checkpoint.jobId
+                ? 'Analyzing on the server'
+                : `${checkpoint.receipts.length} of ${checkpoint.frames.length} frames analyzed`}
+              <button
+                onClick={() => discard(checkpoint.key)}
+                title="Discard"
+                className="p-1 rounded-full hover:text-foreground hover:bg-muted transition-colors"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </motion.div>
+  );
+};
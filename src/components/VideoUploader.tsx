@@ -1,34 +1,40 @@
 import { useCallback, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, Film, X, AlertCircle } from 'lucide-react';
+import { Upload, Film, X, AlertCircle, Server } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import type { AnalysisOptions, ProcessingLocation } from '@/hooks/useVideoAnalysis';
+import { getServerConfig } from '@/utils/analyzeVideoApi';
+import type { SamplingStrategy } from '@/utils/frameExtractor';
+import { ACCEPTED_FORMATS, MAX_FILE_SIZE, validateVideoFile } from '@/utils/validateVideo';
+import { MAX_UPLOAD_SIZE } from '@/utils/videoUpload';
 
 interface VideoUploaderProps {
-  onVideoSelect: (file: File) => void;
+  onVideoSelect: (file: File, options: AnalysisOptions) => void;
+  /** Called instead of showing the preview when several valid videos are dropped at once */
+  onBatchSelect?: (files: File[]) => void;
   isProcessing: boolean;
 }
 
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
-const ACCEPTED_FORMATS = ['video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/webm'];
-
-export const VideoUploader = ({ onVideoSelect, isProcessing }: VideoUploaderProps) => {
+export const VideoUploader = ({ onVideoSelect, onBatchSelect, isProcessing }: VideoUploaderProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [processing, setProcessing] = useState<ProcessingLocation>('local');
+  const [sampling, setSampling] = useState<SamplingStrategy>('adaptive');
 
-  const validateFile = (file: File): string | null => {
-    if (!ACCEPTED_FORMATS.includes(file.type)) {
-      return 'Invalid format. Please upload MP4, MOV, AVI, or WebM files.';
-    }
-    if (file.size > MAX_FILE_SIZE) {
-      return 'File too large. Maximum size is 50MB.';
-    }
-    return null;
-  };
+  // Without an extractor on the server, uploads would only end in failed jobs
+  const { data: config } = useQuery({ queryKey: ['analyze-video-config'], queryFn: getServerConfig, staleTime: Infinity });
+  const serverExtraction = config?.serverExtraction ?? false;
+
+  // Files over the in-browser limit can only be analyzed from an upload
+  const requiresServer = !!selectedFile && selectedFile.size > MAX_FILE_SIZE;
 
   const handleFile = useCallback((file: File) => {
-    const validationError = validateFile(file);
+    const validationError = validateVideoFile(file, serverExtraction ? MAX_UPLOAD_SIZE : MAX_FILE_SIZE);
     if (validationError) {
       setError(validationError);
       return;
@@ -37,15 +43,33 @@ export const VideoUploader = ({ onVideoSelect, isProcessing }: VideoUploaderProp
     setError(null);
     setSelectedFile(file);
     setPreviewUrl(URL.createObjectURL(file));
-  }, []);
+    setProcessing(file.size > MAX_FILE_SIZE ? 'server' : 'local');
+  }, [serverExtraction]);
+
+  const handleFiles = useCallback((fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+    if (files.length === 1 || !onBatchSelect) {
+      handleFile(files[0]);
+      return;
+    }
+
+    const valid = files.filter((file) => !validateVideoFile(file));
+    const rejected = files.filter((file) => validateVideoFile(file));
+
+    setError(
+      rejected.length > 0
+        ? `Skipped ${rejected.map((file) => file.name).join(', ')}. Only MP4, MOV, AVI, or WebM files up to 50MB are accepted.`
+        : null
+    );
+    if (valid.length > 0) onBatchSelect(valid);
+  }, [handleFile, onBatchSelect]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-
-    const file = e.dataTransfer.files[0];
-    if (file) handleFile(file);
-  }, [handleFile]);
+    handleFiles(e.dataTransfer.files);
+  }, [handleFiles]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -58,9 +82,10 @@ export const VideoUploader = ({ onVideoSelect, isProcessing }: VideoUploaderProp
   }, []);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFile(file);
-  }, [handleFile]);
+    handleFiles(e.target.files);
+    // Allow picking the same files again after a batch
+    e.target.value = '';
+  }, [handleFiles]);
 
   const clearSelection = () => {
     setSelectedFile(null);
@@ -70,7 +95,7 @@ export const VideoUploader = ({ onVideoSelect, isProcessing }: VideoUploaderProp
 
   const handleAnalyze = () => {
     if (selectedFile) {
-      onVideoSelect(selectedFile);
+      onVideoSelect(selectedFile, { processing, sampling });
     }
   };
 
@@ -134,20 +159,23 @@ export const VideoUploader = ({ onVideoSelect, isProcessing }: VideoUploaderProp
                     {isDragging ? "Drop your video here" : "Drag & drop your video"}
                   </p>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    or click to browse
+                    {onBatchSelect ? "or click to browse • select several to queue a batch" : "or click to browse"}
                   </p>
                 </div>
 
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                   <Film className="w-4 h-4" />
-                  <span>MP4, MOV, AVI, WebM • Max 50MB</span>
+                  <span>
+                    MP4, MOV, AVI, WebM • Max 50MB{serverExtraction && ", or 2GB with server processing"}
+                  </span>
                 </div>
               </div>
 
               <input
                 id="video-upload"
                 type="file"
-                accept="video/mp4,video/quicktime,video/x-msvideo,video/webm"
+                accept={ACCEPTED_FORMATS.join(',')}
+                multiple={!!onBatchSelect}
                 onChange={handleInputChange}
                 className="hidden"
               />
@@ -238,6 +266,47 @@ export const VideoUploader = ({ onVideoSelect, isProcessing }: VideoUploaderProp
                 {isProcessing ? "Analyzing..." : "Analyze Video"}
               </button>
             </div>
+
+            {/* Where frames are extracted */}
+            {serverExtraction && (
+              <div className="px-4 pb-4 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Switch
+                      checked={processing === 'server'}
+                      onCheckedChange={(checked) => setProcessing(checked ? 'server' : 'local')}
+                      disabled={isProcessing || requiresServer}
+                    />
+                    <Server className="w-4 h-4 text-muted-foreground" />
+                    Process on server
+                  </label>
+
+                  {processing === 'server' && (
+                    <Select
+                      value={sampling}
+                      onValueChange={(value) => setSampling(value as SamplingStrategy)}
+                      disabled={isProcessing}
+                    >
+                      <SelectTrigger className="w-44 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="adaptive">Adaptive sampling</SelectItem>
+                        <SelectItem value="uniform">Uniform sampling</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  {processing === 'server'
+                    ? `${requiresServer ? 'Videos over 50MB are processed on the server. ' : ''}` +
+                      'The original is uploaded to private storage so its full bitstream, audio and metadata can be ' +
+                      'inspected, and deleted automatically after 24 hours.'
+                    : 'Frames are extracted in your browser; the video itself never leaves your device.'}
+                </p>
+              </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { Check, Copy, Eye, EyeOff, Plus, Send, Trash2, Webhook as WebhookIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  useCreateWebhook,
+  useDeleteWebhook,
+  useSendTestWebhook,
+  useUpdateWebhook,
+  useWebhookDeliveries,
+  useWebhooks,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookVerdict,
+} from '@/hooks/useWebhooks';
+import { cn } from '@/lib/utils';
+
+const VERDICTS: { value: WebhookVerdict; label: string }[] = [
+  { value: 'ai-generated', label: 'AI-generated' },
+  { value: 'real', label: 'Authentic' },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: 'bg-success/10 text-success border-success/20',
+  pending: 'bg-warning/10 text-warning border-warning/20',
+  failed: 'bg-destructive/10 text-destructive border-destructive/20',
+};
+
+const isHttpsUrl = (value: string) => {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const describeVerdicts = (verdicts: string[]) =>
+  verdicts.length === 0
+    ? 'All verdicts'
+    : VERDICTS.filter((verdict) => verdicts.includes(verdict.value))
+        .map((verdict) => verdict.label)
+        .join(', ');
+
+const describeDelivery = (delivery: WebhookDelivery) => {
+  if (delivery.status === 'pending') {
+    return delivery.attempts === 0
+      ? 'Sending…'
+      : `Retrying ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`;
+  }
+  return delivery.error ?? `HTTP ${delivery.response_status}`;
+};
+
+const WebhookRow = ({ webhook }: { webhook: Webhook }) => {
+  const updateWebhook = useUpdateWebhook();
+  const deleteWebhook = useDeleteWebhook();
+  const sendTest = useSendTestWebhook();
+  const [revealed, setRevealed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(webhook.secret);
+    setCopied(true);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) return;
+    deleteWebhook.mutate(webhook.id, {
+      onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to delete the webhook'),
+    });
+  };
+
+  const handleTest = () =>
+    sendTest.mutate(webhook.id, {
+      onSuccess: (delivery) =>
+        delivery.status === 'succeeded'
+          ? toast.success(`Test event delivered (HTTP ${delivery.response_status})`)
+          : toast.error(`Test event failed: ${delivery.error ?? 'unknown error'}`),
+      onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to send the test event'),
+    });
+
+  return (
+    <div className={cn('rounded-xl border border-border p-4 space-y-3', !webhook.active && 'opacity-60')}>
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium font-mono truncate">{webhook.url}</p>
+          <p className="text-xs text-muted-foreground">
+            {webhook.description ? `${webhook.description} · ` : ''}
+            {describeVerdicts(webhook.verdicts)}
+          </p>
+        </div>
+        <Switch
+          checked={webhook.active}
+          onCheckedChange={(active) => updateWebhook.mutate({ id: webhook.id, active })}
+          aria-label="Active"
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <code className="flex-1 min-w-0 truncate rounded-lg bg-muted px-3 py-1.5 text-xs font-mono">
+          {revealed ? webhook.secret : 'whsec_••••••••••••••••'}
+        </code>
+        <Button variant="ghost" size="sm" onClick={() => setRevealed((value) => !value)} title="Show signing secret">
+          {revealed ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleCopy} title="Copy signing secret">
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={handleTest} disabled={!webhook.active || sendTest.isPending}>
+          <Send className="w-4 h-4" />
+          {sendTest.isPending ? 'Sending…' : 'Send test event'}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-destructive hover:text-destructive"
+          onClick={handleDelete}
+          disabled={deleteWebhook.isPending}
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const WebhookSettings = () => {
+  const { data: webhooks, isLoading, error } = useWebhooks();
+  const { data: deliveries } = useWebhookDeliveries();
+  const createWebhook = useCreateWebhook();
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [verdicts, setVerdicts] = useState<WebhookVerdict[]>([]);
+
+  const urlsById = new Map(webhooks?.map((webhook) => [webhook.id, webhook.url]));
+
+  const toggleVerdict = (verdict: WebhookVerdict, checked: boolean) =>
+    setVerdicts((current) => (checked ? [...current, verdict] : current.filter((value) => value !== verdict)));
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    createWebhook.mutate(
+      { url: url.trim(), description: description.trim(), verdicts },
+      {
+        onSuccess: () => {
+          setUrl('');
+          setDescription('');
+          setVerdicts([]);
+        },
+        onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to add the webhook'),
+      }
+    );
+  };
+
+  return (
+    <>
+      <section className="glass rounded-2xl p-6">
+        <h2 className="flex items-center gap-2 text-lg font-semibold mb-1">
+          <WebhookIcon className="w-5 h-5 text-primary" />
+          Webhooks
+        </h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Get a signed POST request whenever one of your analyses completes. Failed deliveries are retried with
+          exponential backoff.
+        </p>
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <Input
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+              placeholder="https://example.com/webhooks/dectionpro"
+              type="url"
+            />
+            <Input
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              placeholder="Description (optional)"
+              maxLength={200}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="text-muted-foreground">Only notify for</span>
+            {VERDICTS.map((verdict) => (
+              <label key={verdict.value} className="flex items-center gap-2 cursor-pointer">
+                <Checkbox
+                  checked={verdicts.includes(verdict.value)}
+                  onCheckedChange={(checked) => toggleVerdict(verdict.value, checked === true)}
+                />
+                {verdict.label}
+              </label>
+            ))}
+            <span className="text-xs text-muted-foreground">Leave both unchecked for every verdict</span>
+          </div>
+          <Button type="submit" disabled={!isHttpsUrl(url.trim()) || createWebhook.isPending}>
+            <Plus className="w-4 h-4" />
+            Add webhook
+          </Button>
+        </form>
+
+        <div className="mt-6 space-y-3">
+          {isLoading && <Skeleton className="h-24 rounded-xl" />}
+
+          {error && (
+            <p className="text-sm text-destructive">
+              Failed to load webhooks: {error instanceof Error ? error.message : 'Unknown error'}
+            </p>
+          )}
+
+          {webhooks?.map((webhook) => <WebhookRow key={webhook.id} webhook={webhook} />)}
+        </div>
+      </section>
+
+      {deliveries && deliveries.length > 0 && (
+        <section className="glass rounded-2xl p-6">
+          <h2 className="text-lg font-semibold mb-4">Recent deliveries</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                  <TableCell className="max-w-48 truncate font-mono text-xs">
+                    {urlsById.get(delivery.webhook_id) ?? '—'}
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={cn(
+                        'inline-flex px-2 py-0.5 rounded-full border text-xs font-medium capitalize',
+                        STATUS_STYLES[delivery.status]
+                      )}
+                    >
+                      {delivery.status}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{delivery.attempts}</TableCell>
+                  <TableCell className="max-w-56 truncate text-xs text-muted-foreground">
+                    {describeDelivery(delivery)}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {new Date(delivery.created_at).toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,120 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Tables } from '@/integrations/supabase/types';
+import type { AnalysisResult, FrameAnalysis } from '@/hooks/useVideoAnalysis';
+
+export type AnalysisRow = Tables<'analyses'>;
+
+export interface HistoryFilters {
+  search: string;
+  verdict: 'all' | AnalysisResult['verdict'];
+  /** Inclusive date range as yyyy-mm-dd, in local time */
+  from?: string;
+  to?: string;
+}
+
+// Everything except the per-frame payload, which only the detail view needs
+const SUMMARY_COLUMNS =
+  'id, user_id, is_anonymous, file_name, file_hash, file_size, duration, verdict, confidence, frames_analyzed, processing_time, model_version, prompt_version, created_at, updated_at';
+
+export type AnalysisSummary = Omit<AnalysisRow, 'details' | 'temporal' | 'forensics' | 'compression' | 'file_metadata' | 'provenance' | 'audio' | 'extraction' | 'signature' | 'frame_analyses'>;
+
+/**
+ * Rebuilds the result shape ResultCard expects from a saved row. Thumbnails
+ * are never stored, so saved frames come back without them.
+ */
+export const toAnalysisResult = (row: AnalysisRow): AnalysisResult => {
+  const frames = (row.frame_analyses ?? []) as unknown as Partial<FrameAnalysis>[];
+  const forensics = (row.forensics ?? null) as unknown as AnalysisResult['forensics'];
+
+  return {
+    id: row.id,
+    analyzedAt: row.created_at,
+    confidence: row.confidence,
+    verdict: row.verdict as AnalysisResult['verdict'],
+    details: row.details as unknown as AnalysisResult['details'],
+    temporal: (row.temporal ?? null) as unknown as AnalysisResult['temporal'],
+    forensics,
+    compression: (row.compression ?? null) as unknown as AnalysisResult['compression'],
+    fileMetadata: (row.file_metadata ?? null) as unknown as AnalysisResult['fileMetadata'],
+    provenance: (row.provenance ?? null) as unknown as AnalysisResult['provenance'],
+    audio: (row.audio ?? null) as unknown as AnalysisResult['audio'],
+    framesAnalyzed: row.frames_analyzed,
+    processingTime: row.processing_time,
+    duration: row.duration ?? 0,
+    ensemble: {
+      strategy: row.model_version.split(':')[0],
+      providers: row.model_version.split(':').slice(1).join(':').split('+').filter(Boolean),
+    },
+    promptVersion: row.prompt_version,
+    fileHash: row.file_hash ?? undefined,
+    fileSize: row.file_size ?? undefined,
+    extraction: (row.extraction ?? undefined) as unknown as AnalysisResult['extraction'],
+    signature: (row.signature ?? undefined) as unknown as AnalysisResult['signature'],
+    frameAnalyses: frames.map((frame, index) => ({
+      frameIndex: frame.frameIndex ?? index,
+      isArtificial: frame.isArtificial ?? false,
+      confidence: frame.confidence ?? 0.5,
+      issues: frame.issues ?? [],
+      models: frame.models,
+      faces: frame.faces,
+      forensics: forensics?.frames?.[frame.frameIndex ?? index] ?? null,
+      timestamp: frame.timestamp ?? 0,
+      thumbnail: '',
+      sampling: frame.sampling ?? { strategy: 'uniform', exact: false },
+    })),
+  };
+};
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).toISOString();
+
+export const useAnalysisHistory = (filters: HistoryFilters) => {
+  const { user } = useAuth();
+
+  // RLS limits rows to the signed-in user; key by user so switching accounts refetches
+  return useQuery({
+    queryKey: ['analyses', user?.id, filters],
+    queryFn: async (): Promise<AnalysisSummary[]> => {
+      let query = supabase
+        .from('analyses')
+        .select(SUMMARY_COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      const search = filters.search.trim();
+      if (search) {
+        // Escape LIKE wildcards so they match literally
+        query = query.ilike('file_name', `%${search.replace(/[%_\\]/g, '\\$&')}%`);
+      }
+      if (filters.verdict !== 'all') {
+        query = query.eq('verdict', filters.verdict);
+      }
+      if (filters.from) {
+        query = query.gte('created_at', startOfDay(filters.from));
+      }
+      if (filters.to) {
+        query = query.lte('created_at', endOfDay(filters.to));
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+};
+
+export const useSavedAnalysis = (id: string | undefined) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['analyses', user?.id, 'detail', id],
+    enabled: !!id,
+    queryFn: async () => {
+      const { data, error } = await supabase.from('analyses').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+};
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { runVideoAnalysis, type AnalysisResult, type AnalysisStep } from '@/hooks/useVideoAnalysis';
+import { USER_CANCELLED } from '@/utils/analyzeVideoApi';
+
+export type QueueItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  progress: number;
+  step: AnalysisStep;
+  result: AnalysisResult | null;
+  error: string | null;
+}
+
+// Each analysis already fans out frame requests server-side; keep the batch gentle
+const MAX_CONCURRENT = 2;
+
+interface UseAnalysisQueueReturn {
+  items: QueueItem[];
+  enqueue: (files: File[]) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+export const useAnalysisQueue = (): UseAnalysisQueueReturn => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const update = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const run = useCallback(
+    async (item: QueueItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+
+      try {
+        const result = await runVideoAnalysis(item.file, {
+          signal: controller.signal,
+          onProgress: (progress) => update(item.id, { progress }),
+          onStep: (step) => update(item.id, { step }),
+        });
+        if (!controller.signal.aborted) {
+          update(item.id, { status: 'done', progress: 100, result });
+        }
+      } catch (error) {
+        // A cancelled item already has its final status
+        if (!controller.signal.aborted) {
+          console.error(`Batch analysis error for ${item.file.name}:`, error);
+          update(item.id, { status: 'failed', error: error instanceof Error ? error.message : 'Analysis failed' });
+        }
+      } finally {
+        // A retried item may already have a newer run registered under the same id
+        if (controllers.current.get(item.id) === controller) {
+          controllers.current.delete(item.id);
+        }
+      }
+    },
+    [update]
+  );
+
+  // Start queued items, oldest first, whenever a slot is free
+  useEffect(() => {
+    const running = items.filter((item) => item.status === 'running').length;
+    const next = items.filter((item) => item.status === 'queued').slice(0, Math.max(0, MAX_CONCURRENT - running));
+    if (next.length === 0) return;
+
+    const startIds = new Set(next.map((item) => item.id));
+    setItems((current) =>
+      current.map((item) => (startIds.has(item.id) ? { ...item, status: 'running', progress: 0, step: 'extracting' } : item))
+    );
+    next.forEach(run);
+  }, [items, run]);
+
+  // Abort whatever is still running when the page goes away
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach((controller) => controller.abort());
+  }, []);
+
+  const enqueue = useCallback((files: File[]) => {
+    setItems((current) => [
+      ...current,
+      ...files.map((file) => ({
+        id: crypto.randomUUID(),
+        file,
+        status: 'queued' as const,
+        progress: 0,
+        step: 'extracting' as const,
+        result: null,
+        error: null,
+      })),
+    ]);
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    controllers.current.get(id)?.abort(USER_CANCELLED);
+    setItems((current) =>
+      current.map((item) =>
+        item.id === id && (item.status === 'queued' || item.status === 'running')
+          ? { ...item, status: 'cancelled' }
+          : item
+      )
+    );
+  }, []);
+
+  const retry = useCallback(
+    (id: string) => update(id, { status: 'queued', progress: 0, step: 'extracting', result: null, error: null }),
+    [update]
+  );
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort(USER_CANCELLED);
+    setItems((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    controllers.current.forEach((controller) => controller.abort(USER_CANCELLED));
+    setItems([]);
+  }, []);
+
+  return { items, enqueue, cancel, retry, remove, clear };
+};
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Tables } from '@/integrations/supabase/types';
+import { hashFile } from '@/utils/fileHash';
+
+export type ApiKey = Omit<Tables<'api_keys'>, 'key_hash'>;
+export type ApiScope = 'analyze' | 'read';
+
+const KEY_COLUMNS = 'id, user_id, name, prefix, scopes, usage_count, last_used_at, revoked_at, created_at';
+const KEY_PREFIX = 'dpk_';
+// Enough of the key to tell keys apart without weakening it
+const VISIBLE_CHARS = KEY_PREFIX.length + 8;
+
+/** A random key; only its SHA-256 hash is stored */
+const generateKey = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const encoded = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${KEY_PREFIX}${encoded}`;
+};
+
+export const useApiKeys = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['api-keys', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<ApiKey[]> => {
+      const { data, error } = await supabase
+        .from('api_keys')
+        .select(KEY_COLUMNS)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+};
+
+/** Creates a key and resolves with it in full; it cannot be shown again afterwards */
+export const useCreateApiKey = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, scopes }: { name: string; scopes: ApiScope[] }) => {
+      const key = generateKey();
+      const { error } = await supabase.from('api_keys').insert({
+        user_id: user!.id,
+        name,
+        scopes,
+        prefix: key.slice(0, VISIBLE_CHARS),
+        key_hash: await hashFile(new Blob([key])),
+      });
+      if (error) throw error;
+      return key;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['api-keys'] }),
+  });
+};
+
+export const useRevokeApiKey = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('api_keys').update({ revoked_at: new Date().toISOString() }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['api-keys'] }),
+  });
+};
@@ -1,131 +1,840 @@
-import { useState, useCallback } from 'react';
-import { extractFramesFromVideo, getRecommendedFrameCount } from '@/utils/frameExtractor';
+import { useState, useCallback, useRef } from 'react';
+import {
+  extractFramesFromVideo,
+  getRecommendedFrameCount,
+  type ExtractedFrame,
+  type SamplingStrategy,
+} from '@/utils/frameExtractor';
+import { openFrameSource } from '@/utils/frameSources';
+import { analyzeTemporalCoherence, type TemporalMetrics } from '@/utils/temporalAnalysis';
+import { extractAudioTrack } from '@/utils/audioAnalysis';
+import { analyzeCompression, type CompressionForensics } from '@/utils/compressionForensics';
+import { readContainerMetadata, type ContainerMetadata } from '@/utils/containerMetadata';
+import { readContentCredentials, type ContentCredentials } from '@/utils/contentCredentials';
+import { detectFacesInFrames, type FaceBox } from '@/utils/faceDetection';
+import { analyzeImageForensics, type FrameForensics, type ImageForensics } from '@/utils/imageForensics';
+import { hashFile } from '@/utils/fileHash';
+import { uploadVideo, videoPath } from '@/utils/videoUpload';
+import {
+  checkpointKey,
+  deleteCheckpoint,
+  loadCheckpoint,
+  saveCheckpoint,
+  type AnalysisCheckpoint,
+} from '@/utils/analysisCheckpoint';
+import type { ReportSignature } from '@/utils/reportSignature';
+import {
+  analysisError,
+  cancelJob,
+  createJob,
+  functionHeaders,
+  getJob,
+  startJob,
+  uploadJobFrames,
+  waitForJob,
+  USER_CANCELLED,
+} from '@/utils/analyzeVideoApi';
+import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
-interface AnalysisResult {
+export interface ModelVerdict {
+  provider: string;
+  isArtificial: boolean;
+  confidence: number;
+  probability: number;
+  issues: string[];
+  /** Set when the vote is on a face crop rather than the full frame */
+  faceIndex?: number;
+}
+
+export interface FaceAnalysis {
+  box: FaceBox;
+  isArtificial: boolean;
+  confidence: number;
+  issues: string[];
+}
+
+export interface FrameAnalysis {
+  frameIndex: number;
+  isArtificial: boolean;
+  confidence: number;
+  issues: string[];
+  models?: ModelVerdict[];
+  /** Empty when no face was found; absent when face detection did not run */
+  faces?: FaceAnalysis[];
+  /** Error level and noise measurements; absent when the frames were extracted server-side */
+  forensics?: FrameForensics | null;
+  timestamp: number;
+  thumbnail: string;
+  sampling: {
+    strategy: SamplingStrategy;
+    shotIndex?: number;
+    exact: boolean;
+  };
+}
+
+export interface AudioSegmentVerdict {
+  index: number;
+  /** Seconds into the video */
+  start: number;
+  end: number;
+  isArtificial: boolean;
+  confidence: number;
+  probability: number;
+  issues: string[];
+}
+
+/** The voice classifier's verdict on the audio track, separate from the video verdict */
+export interface AudioAnalysis {
+  verdict: 'real' | 'ai-generated';
+  confidence: number;
+  provider: string;
+  segmentsAnalyzed: number;
+  segments: AudioSegmentVerdict[];
+}
+
+export interface ExtractionParameters {
+  strategy: SamplingStrategy;
+  maxFrames: number;
+  quality: number;
+  burstSize: number;
+  /** Seconds between burst frames */
+  burstInterval: number;
+  /**
+   * "webcodecs" when every frame was decoded exactly, "element" when frames were seeked to,
+   * "server" when they were extracted server-side from the uploaded original
+   */
+  decoder: 'webcodecs' | 'element' | 'server';
+}
+
+export interface AnalysisResult {
+  /** Id of the saved analysis; absent when the server could not store it */
+  id?: string;
+  /** ISO timestamp of when the server finished the analysis */
+  analyzedAt?: string;
   confidence: number;
   verdict: 'real' | 'ai-generated';
   details: {
-    faceConsistency: number;
+    faceConsistency: number | null;
     temporalCoherence: number;
     artifactScore: number;
     compressionAnalysis: number;
   };
+  temporal: TemporalMetrics | null;
+  /** Pixel forensics behind details.artifactScore; absent when the model's own score was used */
+  forensics?: ImageForensics | null;
+  /** Double-compression forensics behind details.compressionAnalysis; absent when the model's quality score was used */
+  compression?: CompressionForensics | null;
+  /** MP4/MOV container forensics; null for other containers and analyses that predate it */
+  fileMetadata?: ContainerMetadata | null;
+  /** C2PA Content Credentials embedded in the file; null when there are none */
+  provenance?: ContentCredentials | null;
+  /** Null when the video has no audible audio or the server does not analyze audio */
+  audio?: AudioAnalysis | null;
   framesAnalyzed: number;
   processingTime: number;
+  duration: number;
+  ensemble: {
+    strategy: string;
+    providers: string[];
+  };
+  promptVersion?: string;
+  /** SHA-256 of the analyzed file, hex encoded */
+  fileHash?: string;
+  fileSize?: number;
+  extraction?: ExtractionParameters;
+  /** Server signature binding the result to the file hash; absent when signing is not configured */
+  signature?: ReportSignature;
+  frameAnalyses: FrameAnalysis[];
+}
+
+export type AnalysisStep = 'extracting' | 'analyzing' | 'computing' | 'generating';
+
+/** Majority verdict over the frames analyzed so far, computed like the final one */
+export interface PartialVerdict {
+  framesAnalyzed: number;
+  totalFrames: number;
+  artificialFrames: number;
+  verdict: 'real' | 'ai-generated';
+  confidence: number;
 }
 
-type AnalysisStep = 'extracting' | 'analyzing' | 'computing' | 'generating';
+export interface AnalysisCallbacks {
+  onProgress?: (progress: number) => void;
+  onStep?: (step: AnalysisStep) => void;
+  /** Called after every analyzed frame with the verdict the frames so far point to */
+  onPartialVerdict?: (partial: PartialVerdict) => void;
+  /** Called when a checkpoint of an earlier, unfinished run of the same file is picked up */
+  onResume?: (analyzedFrames: number, totalFrames: number) => void;
+  /** Stops frame extraction and aborts the request to analyze-video */
+  signal?: AbortSignal;
+}
+
+/**
+ * local: frames are extracted in the browser and only they leave the device.
+ * server: the original is uploaded and frames are extracted server-side, so
+ * the analyzer can also see the bitstream, audio and container metadata.
+ */
+export type ProcessingLocation = 'local' | 'server';
+
+export interface AnalysisOptions {
+  processing?: ProcessingLocation;
+  /** Sampling plan for server-side extraction */
+  sampling?: SamplingStrategy;
+}
 
 interface UseVideoAnalysisReturn {
   isProcessing: boolean;
   progress: number;
   currentStep: AnalysisStep;
   result: AnalysisResult | null;
-  analyzeVideo: (file: File) => Promise<void>;
+  partialVerdict: PartialVerdict | null;
+  analyzeVideo: (file: File, options?: AnalysisOptions) => Promise<void>;
+  /** Stops the running analysis; analyzing the same file again resumes it */
+  cancel: () => void;
   reset: () => void;
 }
 
-export const useVideoAnalysis = (): UseVideoAnalysisReturn => {
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [currentStep, setCurrentStep] = useState<AnalysisStep>('extracting');
-  const [result, setResult] = useState<AnalysisResult | null>(null);
+// Frames per analyze-video request; each finished chunk is checkpointed
+const ANALYSIS_CHUNK_SIZE = 9;
+// Videos at least this long (seconds) are analyzed as a server-side job
+const JOB_MIN_DURATION = 120;
+// Frames per upload to a job; the function accepts up to 20
+const JOB_UPLOAD_CHUNK_SIZE = 10;
 
-  const analyzeVideo = useCallback(async (file: File) => {
-    setIsProcessing(true);
-    setProgress(0);
-    setResult(null);
+/** analyze-video's result, before it is matched up with the file and the extracted frames */
+type RawAnalysisResult = Omit<AnalysisResult, 'duration' | 'fileHash' | 'fileSize' | 'extraction' | 'frameAnalyses'> & {
+  frameAnalyses?: Omit<FrameAnalysis, 'timestamp' | 'thumbnail' | 'sampling'>[];
+};
+
+type FrameVerdict = Pick<FrameAnalysis, 'frameIndex' | 'isArtificial' | 'confidence'>;
+
+type StreamEvent =
+  | { type: 'frame'; frame: FrameVerdict; completed: number; total: number }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; status: number; error: string };
+
+const readReceipt = (receipt: ReportSignature) =>
+  JSON.parse(receipt.payload) as { frameIndex: number; analysis: FrameVerdict };
+
+const summarizeVerdicts = (verdicts: FrameVerdict[], totalFrames: number): PartialVerdict => {
+  const artificialFrames = verdicts.filter((frame) => frame.isArtificial).length;
+  const avgConfidence = verdicts.reduce((sum, frame) => sum + frame.confidence, 0) / verdicts.length;
+  const isAIGenerated = artificialFrames > verdicts.length / 2;
+  const agreeing = isAIGenerated ? artificialFrames : verdicts.length - artificialFrames;
+
+  return {
+    framesAnalyzed: verdicts.length,
+    totalFrames,
+    artificialFrames,
+    verdict: isAIGenerated ? 'ai-generated' : 'real',
+    confidence: Math.min(0.99, Math.max(0.5, (agreeing / verdicts.length) * avgConfidence)),
+  };
+};
+
+async function readEvents(response: Response, onEvent: (event: StreamEvent) => void) {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.filter((line) => line.trim()).forEach((line) => onEvent(JSON.parse(line)));
+    }
+    if (buffer.trim()) onEvent(JSON.parse(buffer));
+  } catch (error) {
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
+
+/** The final request left out frames whose receipts the server no longer accepts */
+class ReceiptsRejectedError extends Error {}
+
+/**
+ * Posts to analyze-video. With `onFrame` the function streams NDJSON and
+ * each frame is reported as soon as its models finish.
+ */
+async function requestAnalysis(
+  body: Record<string, unknown>,
+  signal?: AbortSignal,
+  onFrame?: (frame: FrameVerdict) => void
+) {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-video`,
+    {
+      method: 'POST',
+      signal,
+      headers: {
+        ...(await functionHeaders()),
+        ...(onFrame && { Accept: 'application/x-ndjson' }),
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    if (response.status === 409) throw new ReceiptsRejectedError(errorData.error);
+    throw analysisError(response.status, errorData.error);
+  }
+
+  // Deployments without streaming answer with plain JSON
+  if (!onFrame || !response.headers.get('Content-Type')?.includes('application/x-ndjson')) {
+    return response.json();
+  }
 
+  let result: unknown = null;
+  await readEvents(response, (event) => {
+    if (event.type === 'frame') onFrame(event.frame);
+    else if (event.type === 'result') result = event.result;
+    else if (event.type === 'error') throw analysisError(event.status, event.error);
+  });
+
+  if (!result) {
+    throw new Error('The analysis ended before a result was received');
+  }
+  return result;
+}
+
+function readDuration(file: File): Promise<number> {
+  // Create a temporary video element to get duration
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  const videoUrl = URL.createObjectURL(file);
+
+  return new Promise<number>((resolve, reject) => {
+    video.onloadedmetadata = () => resolve(video.duration);
+    video.onerror = () => reject(new Error('Failed to load video file'));
+    video.src = videoUrl;
+  }).finally(() => URL.revokeObjectURL(videoUrl));
+}
+
+/** Extracts frames, measures temporal coherence and crops faces: everything done before the upload */
+async function prepareFrames(
+  file: File,
+  key: string,
+  { onProgress, signal }: AnalysisCallbacks
+): Promise<AnalysisCheckpoint> {
+  const duration = await readDuration(file);
+
+  const extractionOptions = {
+    maxFrames: getRecommendedFrameCount(duration, 'adaptive'),
+    quality: 0.8,
+    strategy: 'adaptive' as const,
+    burstSize: 3,
+    burstInterval: 1 / 15,
+  };
+
+  const frames = await extractFramesFromVideo(file, {
+    ...extractionOptions,
+    signal,
+    onProgress: (p) => onProgress?.(p * 0.25), // 0-25% for extraction
+  });
+
+  if (frames.length === 0) {
+    throw new Error('Failed to extract frames from video');
+  }
+
+  // Motion, flicker and identity drift are measured locally from the bursts
+  const temporal = analyzeTemporalCoherence(frames);
+
+  // Crop faces so the analyzer sees them at full resolution
+  const faces = await detectFacesInFrames(
+    frames.map((frame) => frame.dataUrl),
+    { signal, onProgress: (p) => onProgress?.(25 + p * 0.03) } // 25-28% for face detection
+  );
+
+  // Error level and noise residual measurements, independent of the models
+  const forensics = await analyzeImageForensics(
+    frames.map((frame) => frame.dataUrl),
+    { signal, onProgress: (p) => onProgress?.(28 + p * 0.02) } // 28-30% for image forensics
+  );
+
+  // Quantization, keyframe and bitrate analysis of the original file
+  const compression = await analyzeCompression(file, { signal });
+
+  return {
+    key,
+    fileName: file.name,
+    savedAt: Date.now(),
+    duration,
+    extraction: {
+      ...extractionOptions,
+      decoder: frames.every((frame) => frame.exact) ? 'webcodecs' : 'element',
+    },
+    frames: frames.map(({ burst: _burst, ...frame }) => frame),
+    faces,
+    temporal,
+    forensics,
+    compression,
+    receipts: [],
+  };
+}
+
+/** Runs the closing steps and maps the function's result onto the frames it was computed from */
+async function finishAnalysis(
+  analysisResult: RawAnalysisResult,
+  { file, fileHash, duration, extraction, frames }: {
+    file: File;
+    fileHash: string;
+    duration: number;
+    extraction: ExtractionParameters;
+    frames: Omit<ExtractedFrame, 'burst'>[];
+  },
+  { onProgress, onStep }: AnalysisCallbacks
+): Promise<AnalysisResult> {
+  // Step 3: Process results
+  onStep?.('computing');
+  onProgress?.(85);
+
+  // Step 4: Generate final report
+  onStep?.('generating');
+  onProgress?.(95);
+
+  // Small delay for UX
+  await new Promise((resolve) => setTimeout(resolve, 500));
+
+  onProgress?.(100);
+  return {
+    id: analysisResult.id,
+    analyzedAt: analysisResult.analyzedAt ?? new Date().toISOString(),
+    confidence: analysisResult.confidence,
+    verdict: analysisResult.verdict,
+    details: analysisResult.details,
+    temporal: analysisResult.temporal ?? null,
+    forensics: analysisResult.forensics ?? null,
+    compression: analysisResult.compression ?? null,
+    fileMetadata: analysisResult.fileMetadata ?? null,
+    provenance: analysisResult.provenance ?? null,
+    audio: analysisResult.audio ?? null,
+    framesAnalyzed: analysisResult.framesAnalyzed,
+    processingTime: analysisResult.processingTime,
+    duration,
+    ensemble: analysisResult.ensemble,
+    promptVersion: analysisResult.promptVersion,
+    fileHash,
+    fileSize: file.size,
+    extraction,
+    signature: analysisResult.signature,
+    // Re-attach the extracted frame and its timestamp to each per-frame verdict
+    frameAnalyses: (analysisResult.frameAnalyses ?? []).map((analysis) => ({
+      ...analysis,
+      forensics: analysisResult.forensics?.frames?.[analysis.frameIndex] ?? null,
+      timestamp: frames[analysis.frameIndex]?.timestamp ?? 0,
+      thumbnail: frames[analysis.frameIndex]?.dataUrl ?? '',
+      sampling: {
+        strategy: frames[analysis.frameIndex]?.strategy ?? 'uniform',
+        shotIndex: frames[analysis.frameIndex]?.shotIndex,
+        exact: frames[analysis.frameIndex]?.exact ?? false,
+      },
+    })),
+  };
+}
+
+/**
+ * Has the server classify the audio track ahead of the frames. Returns the
+ * signed report to send along with them, bound to the file's hash, or null
+ * when the video has no audible audio or the deployment does not analyze
+ * audio. A failure here only costs the audio verdict.
+ */
+async function analyzeAudioTrack(file: File, fileHash: string, signal?: AbortSignal): Promise<ReportSignature | null> {
+  try {
+    const track = await extractAudioTrack(file, { signal });
+    if (!track) return null;
+
+    const { audio } = await requestAnalysis({ mode: 'audio', segments: track.segments, metadata: { fileHash } }, signal);
+    return audio ?? null;
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.warn('Audio analysis failed, continuing without it:', error);
+    return null;
+  }
+}
+
+/**
+ * Analyzes a long video as a server-side job: uploads the frames in chunks,
+ * starts the job and waits for it. The job id is checkpointed, so a reload
+ * picks up the same job; it keeps running even if nobody is waiting.
+ */
+async function runAnalysisJob(
+  checkpoint: AnalysisCheckpoint,
+  metadata: Record<string, unknown>,
+  { onProgress, signal }: AnalysisCallbacks
+): Promise<RawAnalysisResult> {
+  const { frames, faces, temporal, audio } = checkpoint;
+
+  let job = checkpoint.jobId ? await getJob(checkpoint.jobId, signal).catch(() => null) : null;
+  if (!job || job.status === 'failed' || job.status === 'cancelled') {
+    job = await createJob({ totalFrames: frames.length, temporal, metadata, audio }, signal);
+    checkpoint = { ...checkpoint, savedAt: Date.now(), jobId: job.id };
+    await saveCheckpoint(checkpoint);
+  }
+  const jobId = job.id;
+
+  // Only an explicit cancel stops the job; closing the page leaves it running
+  const onAbort = () => {
+    if (signal?.reason === USER_CANCELLED) {
+      cancelJob(jobId).catch((error) => console.warn('Failed to cancel analysis job:', error));
+    }
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    if (job.status === 'uploading') {
+      // Upload order is fixed, so the first uploadedFrames frames are already there
+      for (let offset = job.uploadedFrames ?? 0; offset < frames.length; offset += JOB_UPLOAD_CHUNK_SIZE) {
+        const end = Math.min(offset + JOB_UPLOAD_CHUNK_SIZE, frames.length);
+        await uploadJobFrames(
+          jobId,
+          offset,
+          frames.slice(offset, end).map((frame) => frame.dataUrl),
+          faces.slice(offset, end),
+          signal
+        );
+        onProgress?.(30 + (end / frames.length) * 20); // 30-50% for the upload
+      }
+      await startJob(jobId, signal);
+    }
+
+    const completed = await waitForJob(jobId, {
+      signal,
+      onUpdate: ({ processedFrames, totalFrames }) =>
+        onProgress?.(50 + (processedFrames / totalFrames) * 35), // 50-85% while the job runs
+    });
+    return completed.result as RawAnalysisResult;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Grabs small thumbnails at the server's frame timestamps from the local copy;
+ * blank where that fails. Seeks a <video> element, which streams the file,
+ * rather than demuxing it, which would read the whole original into memory.
+ */
+async function grabThumbnails(file: File, timestamps: number[], signal?: AbortSignal): Promise<string[]> {
+  try {
+    const source = await openFrameSource(file, 'element');
     try {
-      // Step 1: Extract frames from video
-      setCurrentStep('extracting');
-      
-      // Create a temporary video element to get duration
-      const video = document.createElement('video');
-      video.preload = 'metadata';
-      
-      const duration = await new Promise<number>((resolve) => {
-        video.onloadedmetadata = () => resolve(video.duration);
-        video.src = URL.createObjectURL(file);
-      });
-      
-      const frameCount = getRecommendedFrameCount(duration);
-      
-      const frames = await extractFramesFromVideo(file, {
-        maxFrames: frameCount,
-        quality: 0.8,
-        onProgress: (p) => setProgress(p * 0.25), // 0-25% for extraction
-      });
-
-      if (frames.length === 0) {
-        throw new Error('Failed to extract frames from video');
+      const thumbnails = await source.grab(
+        timestamps.map((timestamp) => ({ timestamp, width: 320, format: 'jpeg' as const, quality: 0.7 })),
+        undefined,
+        signal
+      );
+      return thumbnails.map((thumbnail) => (typeof thumbnail === 'string' ? thumbnail : ''));
+    } finally {
+      source.close();
+    }
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.warn('Failed to create thumbnails for server-extracted frames:', error);
+    return timestamps.map(() => '');
+  }
+}
+
+/**
+ * Uploads the original to Storage and has the server extract and analyze its
+ * frames as a job. Both the upload and the job are resumable: selecting the
+ * same file again continues the upload or waits for the job already running.
+ */
+async function runServerAnalysis(
+  file: File,
+  strategy: SamplingStrategy,
+  { onProgress, onStep, signal }: AnalysisCallbacks
+): Promise<AnalysisResult> {
+  // Step 1: Upload the original; the server extracts the frames
+  onStep?.('extracting');
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Your session has expired. Please sign in again.');
+  }
+
+  const [fileHash, duration, fileMetadata, provenance] = await Promise.all([
+    hashFile(file),
+    readDuration(file),
+    readContainerMetadata(file),
+    readContentCredentials(file),
+  ]);
+  const path = videoPath(session.user.id, fileHash, file);
+  const jobKey = `server-job:${path}:${strategy}`;
+
+  // Compression forensics would decode the whole original in memory, which server mode exists to avoid;
+  // the model's quality score stands in for them
+  await uploadVideo(file, path, { signal, onProgress: (p) => onProgress?.(p * 25) }); // 0-25% for the upload
+
+  const storedJobId = localStorage.getItem(jobKey);
+  let job = storedJobId ? await getJob(storedJobId, signal).catch(() => null) : null;
+  if (!job || job.status === 'failed' || job.status === 'cancelled') {
+    const audio = await analyzeAudioTrack(file, fileHash, signal);
+    job = await createJob(
+      {
+        source: { path },
+        sampling: { strategy, maxFrames: getRecommendedFrameCount(duration, strategy) },
+        metadata: { fileName: file.name, fileHash, fileSize: file.size, fileMetadata, provenance, compression: null },
+        audio,
+      },
+      signal
+    );
+    localStorage.setItem(jobKey, job.id);
+  }
+  const jobId = job.id;
+
+  // Only an explicit cancel stops the job; closing the page leaves it running
+  const onAbort = () => {
+    if (signal?.reason === USER_CANCELLED) {
+      cancelJob(jobId).catch((error) => console.warn('Failed to cancel analysis job:', error));
+    }
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    onProgress?.(25);
+    const completed = await waitForJob(jobId, {
+      signal,
+      onUpdate: ({ status, processedFrames, totalFrames }) => {
+        if (status !== 'processing' || !totalFrames) return;
+        onStep?.('analyzing');
+        onProgress?.(30 + (processedFrames / totalFrames) * 55); // 30-85% while the job runs
+      },
+    });
+    localStorage.removeItem(jobKey);
+
+    const metadata = completed.metadata as {
+      duration?: number;
+      extraction: ExtractionParameters;
+      frames: { timestamp: number; sampling: { strategy: SamplingStrategy; shotIndex?: number; exact: boolean } }[];
+    };
+    const thumbnails = await grabThumbnails(file, metadata.frames.map((frame) => frame.timestamp), signal);
+
+    return finishAnalysis(
+      completed.result as RawAnalysisResult,
+      {
+        file,
+        fileHash,
+        duration: metadata.duration || duration,
+        extraction: metadata.extraction,
+        frames: metadata.frames.map(({ timestamp, sampling }, i) => ({
+          timestamp,
+          dataUrl: thumbnails[i],
+          ...sampling,
+        })),
+      },
+      { onProgress, onStep }
+    );
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Extracts, inspects and analyzes one file end to end. Shared by the
+ * single-file hook below and the batch queue. With `processing: 'server'`
+ * the original is uploaded and extracted server-side instead.
+ *
+ * Progress is checkpointed locally after extraction and after every chunk,
+ * so analyzing the same file again after a reload, a dropped connection or
+ * a cancel resumes where it stopped.
+ */
+export async function runVideoAnalysis(
+  file: File,
+  { onProgress, onStep, onPartialVerdict, onResume, signal }: AnalysisCallbacks = {},
+  { processing = 'local', sampling = 'adaptive' }: AnalysisOptions = {}
+): Promise<AnalysisResult> {
+  if (processing === 'server') {
+    return runServerAnalysis(file, sampling, { onProgress, onStep, signal });
+  }
+
+  // Step 1: Extract frames from video
+  onStep?.('extracting');
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Your session has expired. Please sign in again.');
+  }
+
+  const [fileHash, fileMetadata, provenance] = await Promise.all([
+    hashFile(file),
+    readContainerMetadata(file),
+    readContentCredentials(file),
+  ]);
+  const key = checkpointKey(session.user.id, fileHash);
+
+  let checkpoint = await loadCheckpoint(key);
+  if (checkpoint) {
+    onResume?.(checkpoint.receipts.length, checkpoint.frames.length);
+  } else {
+    checkpoint = await prepareFrames(file, key, { onProgress, signal });
+    await saveCheckpoint(checkpoint);
+  }
+
+  signal?.throwIfAborted();
+
+  // Step 2: Send the audio track and the frames for AI analysis
+  onStep?.('analyzing');
+
+  // The audio request starts the run, so it goes first; resumed runs keep the report they got
+  if (checkpoint.audio === undefined) {
+    checkpoint = { ...checkpoint, savedAt: Date.now(), audio: await analyzeAudioTrack(file, fileHash, signal) };
+    await saveCheckpoint(checkpoint);
+  }
+
+  const { frames, faces, temporal, extraction, duration, audio } = checkpoint;
+  const frameUrls = frames.map((frame) => frame.dataUrl);
+
+  // Frames analyzed so far, including those resumed from the checkpoint
+  const verdicts = new Map<number, FrameVerdict>();
+  const recordFrame = (frame: FrameVerdict) => {
+    verdicts.set(frame.frameIndex, frame);
+    onProgress?.(30 + (verdicts.size / frames.length) * 55); // 30-85% for analysis
+    onPartialVerdict?.(summarizeVerdicts([...verdicts.values()], frames.length));
+  };
+
+  // Saved alongside the result for the history page
+  const metadata = {
+    fileName: file.name,
+    fileHash,
+    fileSize: file.size,
+    duration,
+    extraction,
+    fileMetadata,
+    provenance,
+    forensics: checkpoint.forensics ?? null,
+    compression: checkpoint.compression ?? null,
+    frames: frames.map((frame) => ({
+      timestamp: frame.timestamp,
+      sampling: { strategy: frame.strategy, shotIndex: frame.shotIndex, exact: frame.exact },
+    })),
+  };
+
+  onProgress?.(30);
+
+  let analysisResult;
+  if (duration >= JOB_MIN_DURATION) {
+    analysisResult = await runAnalysisJob(checkpoint, metadata, { onProgress, signal });
+  } else {
+    checkpoint.receipts.map(readReceipt).forEach(({ analysis }) => recordFrame(analysis));
+
+    for (let offset = 0; offset < frames.length; offset += ANALYSIS_CHUNK_SIZE) {
+      const end = Math.min(offset + ANALYSIS_CHUNK_SIZE, frames.length);
+      if (Array.from({ length: end - offset }, (_, i) => offset + i).every((index) => verdicts.has(index))) {
+        continue;
       }
 
-      // Step 2: Send frames for AI analysis
-      setCurrentStep('analyzing');
-      setProgress(30);
+      const chunk = await requestAnalysis(
+        {
+          mode: 'frames',
+          frameOffset: offset,
+          frames: frameUrls.slice(offset, end),
+          faces: faces.slice(offset, end),
+          receipts: checkpoint.receipts,
+          audio,
+          // The audio receipt is only accepted for the file it was issued for
+          metadata: { fileHash },
+        },
+        signal,
+        recordFrame
+      );
+
+      // Without receipts from the server, the remaining frames go in the final request
+      if (!chunk.receipts) break;
 
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-video`,
+      checkpoint = { ...checkpoint, savedAt: Date.now(), receipts: [...checkpoint.receipts, ...chunk.receipts] };
+      await saveCheckpoint(checkpoint);
+    }
+
+    // Combines the receipted chunks into one verdict, then signs and saves it. Receipted frames
+    // are left out; if the server no longer accepts their receipts, every frame goes again.
+    const { receipts } = checkpoint;
+    const receipted = new Set(receipts.map((receipt) => readReceipt(receipt).frameIndex));
+    const finalRequest = (omitReceipted: boolean) =>
+      requestAnalysis(
         {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({ frames }),
-        }
+          frames: frameUrls.map((url, i) => (omitReceipted && receipted.has(i) ? null : url)),
+          faces: faces.map((frameFaces, i) => (omitReceipted && receipted.has(i) ? null : frameFaces)),
+          temporal,
+          receipts,
+          audio,
+          metadata,
+        },
+        signal,
+        recordFrame
       );
+    analysisResult = await finalRequest(true).catch((error) => {
+      if (!(error instanceof ReceiptsRejectedError)) throw error;
+      return finalRequest(false);
+    });
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        
-        if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        }
-        if (response.status === 402) {
-          throw new Error('AI credits exhausted. Please add credits to continue.');
-        }
-        
-        throw new Error(errorData.error || 'Analysis failed');
-      }
+  await deleteCheckpoint(key);
 
-      // Step 3: Process results
-      setCurrentStep('computing');
-      setProgress(85);
+  return finishAnalysis(analysisResult, { file, fileHash, duration, extraction, frames }, { onProgress, onStep });
+}
 
-      const analysisResult = await response.json();
+export const useVideoAnalysis = (): UseVideoAnalysisReturn => {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [currentStep, setCurrentStep] = useState<AnalysisStep>('extracting');
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [partialVerdict, setPartialVerdict] = useState<PartialVerdict | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
-      // Step 4: Generate final report
-      setCurrentStep('generating');
-      setProgress(95);
+  const analyzeVideo = useCallback(async (file: File, options?: AnalysisOptions) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
 
-      // Small delay for UX
-      await new Promise((resolve) => setTimeout(resolve, 500));
+    setIsProcessing(true);
+    setProgress(0);
+    setResult(null);
+    setPartialVerdict(null);
 
-      setProgress(100);
-      setResult({
-        confidence: analysisResult.confidence,
-        verdict: analysisResult.verdict,
-        details: analysisResult.details,
-        framesAnalyzed: analysisResult.framesAnalyzed,
-        processingTime: analysisResult.processingTime,
-      });
+    try {
+      const analysis = await runVideoAnalysis(file, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        onStep: setCurrentStep,
+        onPartialVerdict: setPartialVerdict,
+        onResume: (analyzedFrames, totalFrames) =>
+          toast.info(`Resuming an unfinished analysis (${analyzedFrames} of ${totalFrames} frames already analyzed)`),
+      }, options);
+      if (controllerRef.current === controller) {
+        setResult(analysis);
+      }
     } catch (error) {
-      console.error('Video analysis error:', error);
-      toast.error(error instanceof Error ? error.message : 'Analysis failed. Please try again.');
-      setResult(null);
+      if (controller.signal.aborted) {
+        toast.info('Analysis cancelled. Select the same video again to resume.');
+      } else {
+        console.error('Video analysis error:', error);
+        toast.error(error instanceof Error ? error.message : 'Analysis failed. Please try again.');
+      }
     } finally {
-      setIsProcessing(false);
+      // A newer analysis owns the state once this one was replaced
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsProcessing(false);
+      }
     }
   }, []);
 
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort(USER_CANCELLED);
+  }, []);
+
   const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
     setIsProcessing(false);
     setProgress(0);
     setCurrentStep('extracting');
     setResult(null);
+    setPartialVerdict(null);
   }, []);
 
   return {
@@ -133,7 +842,9 @@ export const useVideoAnalysis = (): UseVideoAnalysisReturn => {
     progress,
     currentStep,
     result,
+    partialVerdict,
     analyzeVideo,
+    cancel,
     reset,
   };
 };
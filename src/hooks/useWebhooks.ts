@@ -0,0 +1,130 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Tables } from '@/integrations/supabase/types';
+import { analysisError, functionHeaders } from '@/utils/analyzeVideoApi';
+
+export type Webhook = Tables<'webhooks'>;
+export type WebhookDelivery = Omit<Tables<'webhook_deliveries'>, 'payload' | 'user_id'>;
+export type WebhookVerdict = 'real' | 'ai-generated';
+
+const WEBHOOKS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/webhooks`;
+const DELIVERY_COLUMNS =
+  'id, webhook_id, event, status, attempts, next_attempt_at, response_status, error, delivered_at, created_at';
+const DELIVERY_LOG_SIZE = 50;
+
+/** A random signing secret; stored as is because deliveries are signed with it */
+const generateSecret = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const encoded = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `whsec_${encoded}`;
+};
+
+export const useWebhooks = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['webhooks', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<Webhook[]> => {
+      const { data, error } = await supabase.from('webhooks').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+};
+
+/** The most recent deliveries across all of the user's endpoints */
+export const useWebhookDeliveries = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['webhook-deliveries', user?.id],
+    enabled: !!user,
+    // Pending deliveries are retried in the background
+    refetchInterval: 30_000,
+    queryFn: async (): Promise<WebhookDelivery[]> => {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select(DELIVERY_COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(DELIVERY_LOG_SIZE);
+      if (error) throw error;
+      return data;
+    },
+  });
+};
+
+export const useCreateWebhook = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      url,
+      description,
+      verdicts,
+    }: {
+      url: string;
+      description: string;
+      verdicts: WebhookVerdict[];
+    }) => {
+      const { error } = await supabase.from('webhooks').insert({
+        user_id: user!.id,
+        url,
+        description: description || null,
+        verdicts,
+        secret: generateSecret(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['webhooks'] }),
+  });
+};
+
+export const useUpdateWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      const { error } = await supabase.from('webhooks').update({ active }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['webhooks'] }),
+  });
+};
+
+export const useDeleteWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('webhooks').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] });
+    },
+  });
+};
+
+/** Sends a test event to the endpoint and resolves with the delivery once it has been attempted */
+export const useSendTestWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<WebhookDelivery> => {
+      const response = await fetch(`${WEBHOOKS_URL}/${id}/test`, {
+        method: 'POST',
+        headers: await functionHeaders(),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw analysisError(response.status, errorData.error);
+      }
+      return response.json();
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] }),
+  });
+};
@@ -14,13 +14,359 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      analyses: {
+        Row: {
+          audio: Json | null
+          compression: Json | null
+          confidence: number
+          created_at: string
+          details: Json
+          duration: number | null
+          extraction: Json | null
+          file_hash: string | null
+          file_metadata: Json | null
+          file_name: string
+          file_size: number | null
+          forensics: Json | null
+          frame_analyses: Json
+          frames_analyzed: number
+          id: string
+          is_anonymous: boolean
+          model_version: string
+          processing_time: number
+          prompt_version: string
+          provenance: Json | null
+          signature: Json | null
+          temporal: Json | null
+          updated_at: string
+          user_id: string | null
+          verdict: string
+        }
+        Insert: {
+          audio?: Json | null
+          compression?: Json | null
+          confidence: number
+          created_at?: string
+          details: Json
+          duration?: number | null
+          extraction?: Json | null
+          file_hash?: string | null
+          file_metadata?: Json | null
+          file_name: string
+          file_size?: number | null
+          forensics?: Json | null
+          frame_analyses?: Json
+          frames_analyzed: number
+          id?: string
+          is_anonymous?: boolean
+          model_version: string
+          processing_time: number
+          prompt_version: string
+          provenance?: Json | null
+          signature?: Json | null
+          temporal?: Json | null
+          updated_at?: string
+          user_id?: string | null
+          verdict: string
+        }
+        Update: {
+          audio?: Json | null
+          compression?: Json | null
+          confidence?: number
+          created_at?: string
+          details?: Json
+          duration?: number | null
+          extraction?: Json | null
+          file_hash?: string | null
+          file_metadata?: Json | null
+          file_name?: string
+          file_size?: number | null
+          forensics?: Json | null
+          frame_analyses?: Json
+          frames_analyzed?: number
+          id?: string
+          is_anonymous?: boolean
+          model_version?: string
+          processing_time?: number
+          prompt_version?: string
+          provenance?: Json | null
+          signature?: Json | null
+          temporal?: Json | null
+          updated_at?: string
+          user_id?: string | null
+          verdict?: string
+        }
+        Relationships: []
+      }
+      analysis_job_frames: {
+        Row: {
+          analysis: Json | null
+          faces: Json | null
+          frame: string
+          frame_index: number
+          frame_sha256: string
+          job_id: string
+        }
+        Insert: {
+          analysis?: Json | null
+          faces?: Json | null
+          frame: string
+          frame_index: number
+          frame_sha256: string
+          job_id: string
+        }
+        Update: {
+          analysis?: Json | null
+          faces?: Json | null
+          frame?: string
+          frame_index?: number
+          frame_sha256?: string
+          job_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_job_frames_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_jobs: {
+        Row: {
+          analysis_id: string | null
+          config: Json
+          created_at: string
+          error: string | null
+          id: string
+          is_anonymous: boolean
+          metadata: Json
+          processed_frames: number
+          result: Json | null
+          source_path: string | null
+          status: string
+          temporal: Json | null
+          total_frames: number | null
+          updated_at: string
+          user_id: string
+          worker_heartbeat_at: string | null
+        }
+        Insert: {
+          analysis_id?: string | null
+          config?: Json
+          created_at?: string
+          error?: string | null
+          id?: string
+          is_anonymous?: boolean
+          metadata?: Json
+          processed_frames?: number
+          result?: Json | null
+          source_path?: string | null
+          status?: string
+          temporal?: Json | null
+          total_frames?: number | null
+          updated_at?: string
+          user_id: string
+          worker_heartbeat_at?: string | null
+        }
+        Update: {
+          analysis_id?: string | null
+          config?: Json
+          created_at?: string
+          error?: string | null
+          id?: string
+          is_anonymous?: boolean
+          metadata?: Json
+          processed_frames?: number
+          result?: Json | null
+          source_path?: string | null
+          status?: string
+          temporal?: Json | null
+          total_frames?: number | null
+          updated_at?: string
+          user_id?: string
+          worker_heartbeat_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analyses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_requests: {
+        Row: {
+          client_ip: string | null
+          created_at: string
+          id: string
+          is_anonymous: boolean
+          user_id: string
+        }
+        Insert: {
+          client_ip?: string | null
+          created_at?: string
+          id?: string
+          is_anonymous: boolean
+          user_id: string
+        }
+        Update: {
+          client_ip?: string | null
+          created_at?: string
+          id?: string
+          is_anonymous?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          last_used_at: string | null
+          name: string
+          prefix: string
+          revoked_at: string | null
+          scopes: string[]
+          usage_count: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          last_used_at?: string | null
+          name: string
+          prefix: string
+          revoked_at?: string | null
+          scopes: string[]
+          usage_count?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          last_used_at?: string | null
+          name?: string
+          prefix?: string
+          revoked_at?: string | null
+          scopes?: string[]
+          usage_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          event: string
+          id: string
+          next_attempt_at: string
+          payload: Json
+          response_status: number | null
+          status: string
+          user_id: string
+          webhook_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          event: string
+          id?: string
+          next_attempt_at?: string
+          payload: Json
+          response_status?: number | null
+          status?: string
+          user_id: string
+          webhook_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          event?: string
+          id?: string
+          next_attempt_at?: string
+          payload?: Json
+          response_status?: number | null
+          status?: string
+          user_id?: string
+          webhook_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhooks: {
+        Row: {
+          active: boolean
+          created_at: string
+          description: string | null
+          id: string
+          secret: string
+          updated_at: string
+          url: string
+          user_id: string
+          verdicts: string[]
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          secret: string
+          updated_at?: string
+          url: string
+          user_id: string
+          verdicts?: string[]
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+          verdicts?: string[]
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      expired_videos: {
+        Args: { max_count?: number; retention: unknown }
+        Returns: string[]
+      }
+      use_api_key: {
+        Args: { p_key_hash: string }
+        Returns: {
+          id: string
+          scopes: string[]
+          user_id: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
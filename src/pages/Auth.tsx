@@ -0,0 +1,165 @@
+import { useState, type FormEvent } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Loader2, Shield, UserRound } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+type AuthMode = 'sign-in' | 'sign-up';
+
+const Auth = () => {
+  const { session, isAnonymous } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [mode, setMode] = useState<AuthMode>(isAnonymous ? 'sign-up' : 'sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const redirectTo = (location.state as { from?: string } | null)?.from ?? '/';
+
+  // Guests stay on this page so they can upgrade to an account
+  if (session && !isAnonymous) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      if (mode === 'sign-in') {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+      } else if (isAnonymous) {
+        // Converting the guest keeps the analyses they already ran
+        const { error } = await supabase.auth.updateUser({ email, password });
+        if (error) throw error;
+        toast.success('Check your inbox to confirm your email address.');
+      } else {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: window.location.origin },
+        });
+        if (error) throw error;
+        if (!data.session) {
+          toast.success('Check your inbox to confirm your email address.');
+          return;
+        }
+      }
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Authentication failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleGuest = async () => {
+    setIsSubmitting(true);
+    const { error } = await supabase.auth.signInAnonymously();
+    setIsSubmitting(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    navigate(redirectTo, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden flex items-center justify-center px-4">
+      {/* Background effects */}
+      <div className="absolute inset-0 pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/10 rounded-full blur-3xl" />
+        <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="relative z-10 w-full max-w-sm"
+      >
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center p-4 mb-4 rounded-2xl bg-primary/10 border border-primary/20 glow-primary">
+            <Shield className="w-8 h-8 text-primary" />
+          </div>
+          <h1 className="text-3xl font-bold">
+            AI Video <span className="text-gradient">Detector</span>
+          </h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            {isAnonymous ? 'Create an account to lift the guest limit' : 'Sign in to analyze videos'}
+          </p>
+        </div>
+
+        <div className="glass rounded-2xl p-6">
+          <Tabs value={mode} onValueChange={(value) => setMode(value as AuthMode)}>
+            <TabsList className="grid grid-cols-2 w-full mb-6">
+              <TabsTrigger value="sign-in">Sign In</TabsTrigger>
+              <TabsTrigger value="sign-up">Sign Up</TabsTrigger>
+            </TabsList>
+
+            {(['sign-in', 'sign-up'] as const).map((tab) => (
+              <TabsContent key={tab} value={tab}>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${tab}-email`}>Email</Label>
+                    <Input
+                      id={`${tab}-email`}
+                      type="email"
+                      autoComplete="email"
+                      required
+                      value={email}
+                      onChange={(event) => setEmail(event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${tab}-password`}>Password</Label>
+                    <Input
+                      id={`${tab}-password`}
+                      type="password"
+                      autoComplete={tab === 'sign-in' ? 'current-password' : 'new-password'}
+                      minLength={6}
+                      required
+                      value={password}
+                      onChange={(event) => setPassword(event.target.value)}
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {tab === 'sign-in' ? 'Sign In' : 'Create Account'}
+                  </Button>
+                </form>
+              </TabsContent>
+            ))}
+          </Tabs>
+
+          {!session && (
+            <>
+              <div className="flex items-center gap-3 my-6 text-xs text-muted-foreground">
+                <span className="h-px flex-1 bg-border" />
+                or
+                <span className="h-px flex-1 bg-border" />
+              </div>
+              <Button variant="outline" className="w-full" onClick={handleGuest} disabled={isSubmitting}>
+                <UserRound className="w-4 h-4" />
+                Continue as Guest
+              </Button>
+              <p className="text-xs text-muted-foreground text-center mt-3">
+                Guests get a few analyses per hour. History is kept until you sign out.
+              </p>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Auth;
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle, ChevronRight, History as HistoryIcon, Search } from 'lucide-react';
+import { AppNav } from '@/components/AppNav';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAnalysisHistory, type HistoryFilters } from '@/hooks/useAnalysisHistory';
+import { cn } from '@/lib/utils';
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return null;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return null;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.round(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const History = () => {
+  const [filters, setFilters] = useState<HistoryFilters>({ search: '', verdict: 'all' });
+  const { data: analyses, isLoading, error } = useAnalysisHistory(filters);
+
+  const updateFilters = (changes: Partial<HistoryFilters>) => setFilters((current) => ({ ...current, ...changes }));
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/10 rounded-full blur-3xl" />
+        <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+      </div>
+
+      <div className="relative z-10 container mx-auto px-4 pb-16">
+        <AppNav />
+
+        <main className="max-w-4xl mx-auto">
+          <motion.header
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="py-10 text-center"
+          >
+            <div className="inline-flex items-center justify-center p-3 mb-4 rounded-2xl bg-primary/10 border border-primary/20">
+              <HistoryIcon className="w-8 h-8 text-primary" />
+            </div>
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">
+              Analysis <span className="text-gradient">History</span>
+            </h1>
+            <p className="text-muted-foreground">Search and re-open previously analyzed videos</p>
+          </motion.header>
+
+          {/* Filters */}
+          <div className="glass rounded-2xl p-4 mb-6 grid gap-3 md:grid-cols-[1fr_auto_auto_auto]">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={filters.search}
+                onChange={(event) => updateFilters({ search: event.target.value })}
+                placeholder="Search by file name"
+                className="pl-9"
+              />
+            </div>
+            <Select
+              value={filters.verdict}
+              onValueChange={(verdict) => updateFilters({ verdict: verdict as HistoryFilters['verdict'] })}
+            >
+              <SelectTrigger className="md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All verdicts</SelectItem>
+                <SelectItem value="real">Authentic</SelectItem>
+                <SelectItem value="ai-generated">AI-Generated</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              aria-label="From date"
+              value={filters.from ?? ''}
+              max={filters.to}
+              onChange={(event) => updateFilters({ from: event.target.value || undefined })}
+            />
+            <Input
+              type="date"
+              aria-label="To date"
+              value={filters.to ?? ''}
+              min={filters.from}
+              onChange={(event) => updateFilters({ to: event.target.value || undefined })}
+            />
+          </div>
+
+          {/* Results */}
+          {isLoading && (
+            <div className="space-y-3">
+              {[0, 1, 2].map((i) => (
+                <Skeleton key={i} className="h-20 rounded-2xl" />
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <p className="text-center text-sm text-destructive">
+              Failed to load history: {error instanceof Error ? error.message : 'Unknown error'}
+            </p>
+          )}
+
+          {analyses && analyses.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground py-12">No saved analyses match these filters.</p>
+          )}
+
+          {analyses && analyses.length > 0 && (
+            <ul className="space-y-3">
+              {analyses.map((analysis, index) => {
+                const isReal = analysis.verdict === 'real';
+                const meta = [
+                  new Date(analysis.created_at).toLocaleString(),
+                  formatDuration(analysis.duration),
+                  formatSize(analysis.file_size),
+                  `${analysis.frames_analyzed} frames`,
+                ].filter(Boolean);
+
+                return (
+                  <motion.li
+                    key={analysis.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: Math.min(index, 10) * 0.03 }}
+                  >
+                    <Link
+                      to={`/history/${analysis.id}`}
+                      className="glass rounded-2xl p-4 flex items-center gap-4 hover:glow-primary transition-all duration-300"
+                    >
+                      <div className={cn("p-2.5 rounded-full", isReal ? "bg-success/20" : "bg-destructive/20")}>
+                        {isReal ? (
+                          <CheckCircle className="w-5 h-5 text-success" />
+                        ) : (
+                          <AlertTriangle className="w-5 h-5 text-destructive" />
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{analysis.file_name}</p>
+                        <p className="text-xs text-muted-foreground truncate">{meta.join(' • ')}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className={cn("text-lg font-bold font-mono", isReal ? "text-success" : "text-destructive")}>
+                          {Math.round(analysis.confidence * 100)}%
+                        </p>
+                        <p className="text-xs text-muted-foreground">{isReal ? 'Authentic' : 'AI-Generated'}</p>
+                      </div>
+                      <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                    </Link>
+                  </motion.li>
+                );
+              })}
+            </ul>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,30 +1,88 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
+import { AppNav } from '@/components/AppNav';
 import { Header } from '@/components/Header';
 import { VideoUploader } from '@/components/VideoUploader';
 import { AnalysisProgress } from '@/components/AnalysisProgress';
+import { BatchQueue } from '@/components/BatchQueue';
 import { ResultCard } from '@/components/ResultCard';
-import { useVideoAnalysis } from '@/hooks/useVideoAnalysis';
-import { generateReport } from '@/utils/generateReport';
+import { UnfinishedAnalyses } from '@/components/UnfinishedAnalyses';
+import { useAnalysisQueue } from '@/hooks/useAnalysisQueue';
+import { useVideoAnalysis, type AnalysisOptions } from '@/hooks/useVideoAnalysis';
+import { downloadBatchReport, downloadReport, type ReportFormat } from '@/utils/generateReport';
+import { validateVideoFile } from '@/utils/validateVideo';
+import { toast } from 'sonner';
 
 const Index = () => {
   const [fileName, setFileName] = useState<string>('');
-  const { isProcessing, progress, currentStep, result, analyzeVideo, reset } = useVideoAnalysis();
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [viewingItemId, setViewingItemId] = useState<string | null>(null);
+  const { isProcessing, progress, currentStep, result, partialVerdict, analyzeVideo, cancel, reset } =
+    useVideoAnalysis();
+  const queue = useAnalysisQueue();
 
-  const handleVideoSelect = (file: File) => {
+  const isBatch = queue.items.length > 0;
+  const viewingItem = queue.items.find((item) => item.id === viewingItemId && item.result) ?? null;
+
+  // Keep an object URL of the original file alive for the result player
+  useEffect(() => {
+    if (!selectedFile) {
+      setVideoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selectedFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedFile]);
+
+  // Opening a batch result reuses the same player; the queue keeps the File around
+  useEffect(() => {
+    if (viewingItem) setSelectedFile(viewingItem.file);
+  }, [viewingItem]);
+
+  const handleVideoSelect = (file: File, options: AnalysisOptions) => {
     setFileName(file.name);
-    analyzeVideo(file);
+    setSelectedFile(file);
+    analyzeVideo(file, options);
   };
 
   const handleReset = () => {
     reset();
     setFileName('');
+    setSelectedFile(null);
+  };
+
+  const handleCloseBatchResult = () => {
+    setViewingItemId(null);
+    setSelectedFile(null);
+  };
+
+  const handleDownloadReport = (format: ReportFormat) => {
+    const report = viewingItem ? { result: viewingItem.result, name: viewingItem.file.name } : { result, name: fileName };
+    if (report.result) {
+      downloadReport(report.result, report.name, format).catch((error) => {
+        console.error('Report generation error:', error);
+        toast.error('Failed to generate the report. Please try again.');
+      });
+    }
   };
 
-  const handleDownloadReport = () => {
-    if (result) {
-      generateReport(result, fileName);
+  const handleAddToBatch = (files: File[]) => {
+    const rejected = files.filter((file) => validateVideoFile(file));
+    if (rejected.length > 0) {
+      toast.error(`Skipped ${rejected.map((file) => file.name).join(', ')}: unsupported format or over 50MB`);
     }
+    queue.enqueue(files.filter((file) => !validateVideoFile(file)));
+  };
+
+  const handleExportBatch = (format: 'csv' | 'json') => {
+    downloadBatchReport(
+      queue.items
+        .filter((item) => item.status === 'done' && item.result)
+        .map((item) => ({ fileName: item.file.name, result: item.result })),
+      format
+    );
   };
 
   return (
@@ -47,24 +105,64 @@ const Index = () => {
       </div>
 
       <div className="relative z-10 container mx-auto px-4 pb-16">
+        <AppNav />
         <Header />
 
         <main className="max-w-4xl mx-auto">
           <AnimatePresence mode="wait">
-            {!isProcessing && !result && (
+            {!isProcessing && !result && !isBatch && (
               <motion.div
                 key="uploader"
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -20 }}
               >
+                <UnfinishedAnalyses />
                 <VideoUploader
                   onVideoSelect={handleVideoSelect}
+                  onBatchSelect={queue.enqueue}
                   isProcessing={isProcessing}
                 />
               </motion.div>
             )}
 
+            {isBatch && !viewingItem && (
+              <motion.div
+                key="batch"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+              >
+                <BatchQueue
+                  items={queue.items}
+                  onAddFiles={handleAddToBatch}
+                  onCancel={queue.cancel}
+                  onRetry={queue.retry}
+                  onRemove={queue.remove}
+                  onClear={queue.clear}
+                  onView={setViewingItemId}
+                  onExport={handleExportBatch}
+                />
+              </motion.div>
+            )}
+
+            {viewingItem && (
+              <motion.div
+                key={`batch-result-${viewingItem.id}`}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+              >
+                <ResultCard
+                  result={viewingItem.result}
+                  videoUrl={videoUrl}
+                  onReset={handleCloseBatchResult}
+                  resetLabel="Back to Batch"
+                  onDownloadReport={handleDownloadReport}
+                />
+              </motion.div>
+            )}
+
             {isProcessing && (
               <motion.div
                 key="progress"
@@ -72,7 +170,12 @@ const Index = () => {
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -20 }}
               >
-                <AnalysisProgress progress={progress} currentStep={currentStep} />
+                <AnalysisProgress
+                  progress={progress}
+                  currentStep={currentStep}
+                  partialVerdict={partialVerdict}
+                  onCancel={cancel}
+                />
               </motion.div>
             )}
 
@@ -85,6 +188,7 @@ const Index = () => {
               >
                 <ResultCard
                   result={result}
+                  videoUrl={videoUrl}
                   onReset={handleReset}
                   onDownloadReport={handleDownloadReport}
                 />
@@ -93,7 +197,7 @@ const Index = () => {
           </AnimatePresence>
 
           {/* How it works section */}
-          {!isProcessing && !result && (
+          {!isProcessing && !result && !isBatch && (
             <motion.section
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
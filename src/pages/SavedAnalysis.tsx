@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { AppNav } from '@/components/AppNav';
+import { ResultCard } from '@/components/ResultCard';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toAnalysisResult, useSavedAnalysis } from '@/hooks/useAnalysisHistory';
+import { downloadReport } from '@/utils/generateReport';
+import { toast } from 'sonner';
+
+const SavedAnalysis = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { data: row, isLoading, error } = useSavedAnalysis(id);
+  const result = useMemo(() => (row ? toAnalysisResult(row) : null), [row]);
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/10 rounded-full blur-3xl" />
+        <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+      </div>
+
+      <div className="relative z-10 container mx-auto px-4 pb-16">
+        <AppNav />
+
+        <main className="max-w-4xl mx-auto pt-6">
+          <div className="max-w-2xl mx-auto mb-6">
+            <Link
+              to="/history"
+              className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to history
+            </Link>
+            {row && (
+              <div className="mt-3">
+                <h1 className="text-xl font-semibold truncate">{row.file_name}</h1>
+                <p className="text-xs text-muted-foreground">
+                  Analyzed {new Date(row.created_at).toLocaleString()} • {row.model_version} • prompt {row.prompt_version}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {isLoading && <Skeleton className="max-w-2xl mx-auto h-96 rounded-2xl" />}
+
+          {(error || (!isLoading && !row)) && (
+            <p className="text-center text-sm text-muted-foreground py-12">
+              {error instanceof Error ? `Failed to load analysis: ${error.message}` : 'This analysis could not be found.'}
+            </p>
+          )}
+
+          {result && (
+            <ResultCard
+              result={result}
+              onReset={() => navigate('/')}
+              onDownloadReport={(format) =>
+                downloadReport(result, row.file_name, format).catch((error) => {
+                  console.error('Report generation error:', error);
+                  toast.error('Failed to generate the report. Please try again.');
+                })
+              }
+            />
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default SavedAnalysis;
@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Check, Copy, KeyRound, Plus, Settings as SettingsIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { AppNav } from '@/components/AppNav';
+import { WebhookSettings } from '@/components/WebhookSettings';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useApiKeys, useCreateApiKey, useRevokeApiKey, type ApiScope } from '@/hooks/useApiKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { cn } from '@/lib/utils';
+
+const SCOPES: { value: ApiScope; label: string; description: string }[] = [
+  { value: 'analyze', label: 'Analyze', description: 'Submit videos or frames and poll their jobs' },
+  { value: 'read', label: 'Read', description: 'List and fetch saved analyses' },
+];
+
+const API_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api/v1`;
+
+const Settings = () => {
+  const { isAnonymous } = useAuth();
+  const { data: keys, isLoading, error } = useApiKeys();
+  const createKey = useCreateApiKey();
+  const revokeKey = useRevokeApiKey();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiScope[]>(['analyze', 'read']);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const toggleScope = (scope: ApiScope, checked: boolean) =>
+    setScopes((current) => (checked ? [...current, scope] : current.filter((value) => value !== scope)));
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    createKey.mutate(
+      { name: name.trim(), scopes },
+      {
+        onSuccess: (key) => {
+          setCreatedKey(key);
+          setCopied(false);
+          setName('');
+        },
+        onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to create the API key'),
+      }
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+  };
+
+  const handleRevoke = (id: string, keyName: string) => {
+    if (!window.confirm(`Revoke "${keyName}"? Requests using it will fail immediately.`)) return;
+    revokeKey.mutate(id, {
+      onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to revoke the API key'),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/10 rounded-full blur-3xl" />
+        <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+      </div>
+
+      <div className="relative z-10 container mx-auto px-4 pb-16">
+        <AppNav />
+
+        <main className="max-w-4xl mx-auto">
+          <motion.header
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="py-10 text-center"
+          >
+            <div className="inline-flex items-center justify-center p-3 mb-4 rounded-2xl bg-primary/10 border border-primary/20">
+              <SettingsIcon className="w-8 h-8 text-primary" />
+            </div>
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">
+              <span className="text-gradient">Settings</span>
+            </h1>
+            <p className="text-muted-foreground">Connect the detector to your own systems with API keys and webhooks</p>
+          </motion.header>
+
+          {isAnonymous ? (
+            <div className="glass rounded-2xl p-6 text-center text-sm text-muted-foreground">
+              API keys and webhooks are available to registered users.{' '}
+              <Link to="/auth" className="font-medium text-primary hover:underline">
+                Create an account
+              </Link>{' '}
+              to use them.
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* New key */}
+              <section className="glass rounded-2xl p-6">
+                <h2 className="flex items-center gap-2 text-lg font-semibold mb-4">
+                  <KeyRound className="w-5 h-5 text-primary" />
+                  Create an API key
+                </h2>
+                <form onSubmit={handleCreate} className="space-y-4">
+                  <Input
+                    value={name}
+                    onChange={(event) => setName(event.target.value)}
+                    placeholder="Key name, e.g. CMS production"
+                    maxLength={100}
+                  />
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    {SCOPES.map((scope) => (
+                      <label key={scope.value} className="flex items-start gap-3 rounded-xl border border-border p-3 cursor-pointer">
+                        <Checkbox
+                          checked={scopes.includes(scope.value)}
+                          onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                          className="mt-0.5"
+                        />
+                        <span>
+                          <span className="block text-sm font-medium">{scope.label}</span>
+                          <span className="block text-xs text-muted-foreground">{scope.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <Button type="submit" disabled={!name.trim() || scopes.length === 0 || createKey.isPending}>
+                    <Plus className="w-4 h-4" />
+                    Create key
+                  </Button>
+                </form>
+
+                {createdKey && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="mt-4 p-4 rounded-xl bg-primary/10 border border-primary/20"
+                  >
+                    <p className="text-sm font-medium mb-2">Copy your new key now. It will not be shown again.</p>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 min-w-0 truncate rounded-lg bg-muted px-3 py-2 text-xs font-mono">
+                        {createdKey}
+                      </code>
+                      <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+                        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                        {copied ? 'Copied' : 'Copy'}
+                      </Button>
+                    </div>
+                  </motion.div>
+                )}
+              </section>
+
+              {/* Existing keys */}
+              <section className="glass rounded-2xl p-6">
+                <h2 className="text-lg font-semibold mb-4">Your API keys</h2>
+
+                {isLoading && <Skeleton className="h-24 rounded-xl" />}
+
+                {error && (
+                  <p className="text-sm text-destructive">
+                    Failed to load API keys: {error instanceof Error ? error.message : 'Unknown error'}
+                  </p>
+                )}
+
+                {keys && keys.length === 0 && <p className="text-sm text-muted-foreground">You have no API keys yet.</p>}
+
+                {keys && keys.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Key</TableHead>
+                        <TableHead>Scopes</TableHead>
+                        <TableHead className="text-right">Requests</TableHead>
+                        <TableHead>Last used</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {keys.map((key) => (
+                        <TableRow key={key.id} className={cn(key.revoked_at && 'opacity-50')}>
+                          <TableCell className="font-medium">{key.name}</TableCell>
+                          <TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+                          <TableCell className="text-xs">{key.scopes.join(', ')}</TableCell>
+                          <TableCell className="text-right font-mono">{key.usage_count}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {key.last_used_at ? new Date(key.last_used_at).toLocaleString() : 'Never'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {key.revoked_at ? (
+                              <span className="text-xs text-muted-foreground">Revoked</span>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => handleRevoke(key.id, key.name)}
+                              >
+                                Revoke
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </section>
+
+              <WebhookSettings />
+
+              {/* Quick start */}
+              <section className="glass rounded-2xl p-6">
+                <h2 className="text-lg font-semibold mb-2">Quick start</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Submit a video, then poll the returned job until its status is <code>completed</code>.
+                </p>
+                <pre className="overflow-x-auto rounded-xl bg-muted p-4 text-xs font-mono leading-relaxed">
+                  {`curl -X POST "${API_URL}/analyses?fileName=clip.mp4" \\
+  -H "Authorization: Bearer $API_KEY" \\
+  -H "Content-Type: video/mp4" \\
+  --data-binary @clip.mp4
+
+curl "${API_URL}/jobs/<job id>" -H "Authorization: Bearer $API_KEY"
+
+curl "${API_URL}/analyses?limit=20" -H "Authorization: Bearer $API_KEY"`}
+                </pre>
+              </section>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,277 @@
+import { useState, type ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, FileCheck2, FileVideo, Loader2, MinusCircle, ShieldCheck, XCircle } from 'lucide-react';
+import { AppNav } from '@/components/AppNav';
+import { cn } from '@/lib/utils';
+import { hashFile } from '@/utils/fileHash';
+import {
+  fetchSigningKey,
+  parseAttestation,
+  readSignedReport,
+  verifySignature,
+  type SignedAttestation,
+} from '@/utils/reportSignature';
+
+type CheckStatus = 'pass' | 'fail' | 'skipped';
+
+interface Check {
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+interface Verification {
+  checks: Check[];
+  attestation: SignedAttestation | null;
+}
+
+const statusIcon: Record<CheckStatus, ReactNode> = {
+  pass: <CheckCircle className="w-5 h-5 text-success shrink-0" />,
+  fail: <XCircle className="w-5 h-5 text-destructive shrink-0" />,
+  skipped: <MinusCircle className="w-5 h-5 text-muted-foreground shrink-0" />,
+};
+
+const get = (source: unknown, path: string[]): unknown =>
+  path.reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), source);
+
+async function runVerification(reportFile: File, videoFile: File | null): Promise<Verification> {
+  const checks: Check[] = [];
+  const { format, signature, report } = await readSignedReport(reportFile);
+  const key = await fetchSigningKey();
+
+  const valid = await verifySignature(signature, key);
+  checks.push({
+    label: 'Signature',
+    status: valid ? 'pass' : 'fail',
+    detail: valid
+      ? `Valid Ed25519 signature from key ${key.keyId}`
+      : signature.keyId !== key.keyId
+        ? `Signed with key ${signature.keyId}, but the service currently publishes ${key.keyId}`
+        : 'The signed data has been altered or the signature is forged',
+  });
+
+  if (!valid) {
+    return { checks, attestation: null };
+  }
+
+  const attestation = parseAttestation(signature);
+
+  if (format === 'json' && report) {
+    // The signature only covers the payload; make sure the readable fields still agree with it
+    const mismatches = [
+      ['verdict', get(report, ['analysis', 'verdict']), attestation.result.verdict],
+      ['confidence', get(report, ['analysis', 'confidence']), attestation.result.confidence],
+      ['file hash', get(report, ['file', 'sha256']), attestation.file.sha256],
+      ['analysis id', get(report, ['analysis', 'id']) ?? attestation.analysisId, attestation.analysisId],
+    ].filter(([, shown, signed]) => shown !== signed);
+
+    checks.push({
+      label: 'Report contents',
+      status: mismatches.length === 0 ? 'pass' : 'fail',
+      detail:
+        mismatches.length === 0
+          ? 'The report fields match the signed data'
+          : `Edited after signing: ${mismatches.map(([field]) => field).join(', ')}`,
+    });
+  } else {
+    checks.push({
+      label: 'Report contents',
+      status: 'skipped',
+      detail: 'PDF text is not compared. Rely on the signed values shown below.',
+    });
+  }
+
+  if (videoFile) {
+    const fileHash = await hashFile(videoFile);
+    checks.push({
+      label: 'Original video',
+      status: fileHash === attestation.file.sha256 ? 'pass' : 'fail',
+      detail:
+        fileHash === attestation.file.sha256
+          ? 'SHA-256 matches the analyzed file'
+          : `SHA-256 ${fileHash.slice(0, 16)}… does not match the analyzed file`,
+    });
+  } else {
+    checks.push({
+      label: 'Original video',
+      status: 'skipped',
+      detail: 'Add the original video to check it is the file that was analyzed',
+    });
+  }
+
+  return { checks, attestation };
+}
+
+const FilePicker = ({
+  label,
+  hint,
+  accept,
+  file,
+  icon,
+  onChange,
+}: {
+  label: string;
+  hint: string;
+  accept: string;
+  file: File | null;
+  icon: ReactNode;
+  onChange: (file: File | null) => void;
+}) => (
+  <label className="glass rounded-2xl p-5 flex items-center gap-4 cursor-pointer hover:glow-primary transition-all duration-300">
+    <div className="p-3 rounded-xl bg-primary/10 text-primary">{icon}</div>
+    <div className="flex-1 min-w-0">
+      <p className="font-medium">{label}</p>
+      <p className="text-xs text-muted-foreground truncate">{file ? file.name : hint}</p>
+    </div>
+    <input
+      type="file"
+      accept={accept}
+      className="hidden"
+      onChange={(event) => onChange(event.target.files?.[0] ?? null)}
+    />
+  </label>
+);
+
+const Verify = () => {
+  const [reportFile, setReportFile] = useState<File | null>(null);
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async () => {
+    if (!reportFile) return;
+    setIsVerifying(true);
+    setVerification(null);
+    setError(null);
+
+    try {
+      setVerification(await runVerification(reportFile, videoFile));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const verified = verification?.checks.every((check) => check.status !== 'fail');
+  const attestation = verification?.attestation;
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/10 rounded-full blur-3xl" />
+        <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+      </div>
+
+      <div className="relative z-10 container mx-auto px-4 pb-16">
+        <AppNav />
+
+        <main className="max-w-2xl mx-auto">
+          <motion.header
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="py-10 text-center"
+          >
+            <div className="inline-flex items-center justify-center p-3 mb-4 rounded-2xl bg-primary/10 border border-primary/20">
+              <ShieldCheck className="w-8 h-8 text-primary" />
+            </div>
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">
+              Verify a <span className="text-gradient">Report</span>
+            </h1>
+            <p className="text-muted-foreground">
+              Check that a JSON or PDF report was issued by this service and matches the original video
+            </p>
+          </motion.header>
+
+          <div className="space-y-3">
+            <FilePicker
+              label="Signed report"
+              hint="JSON or PDF report exported from a result"
+              accept=".json,.pdf,application/json,application/pdf"
+              file={reportFile}
+              icon={<FileCheck2 className="w-5 h-5" />}
+              onChange={setReportFile}
+            />
+            <FilePicker
+              label="Original video (optional)"
+              hint="Hashed locally, never uploaded"
+              accept="video/*"
+              file={videoFile}
+              icon={<FileVideo className="w-5 h-5" />}
+              onChange={setVideoFile}
+            />
+          </div>
+
+          <button
+            onClick={handleVerify}
+            disabled={!reportFile || isVerifying}
+            className={cn(
+              "w-full flex items-center justify-center gap-2 px-6 py-3 mt-6 rounded-xl font-medium transition-all duration-300",
+              "bg-primary text-primary-foreground hover:glow-primary disabled:opacity-50 disabled:pointer-events-none"
+            )}
+          >
+            {isVerifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+            Verify
+          </button>
+
+          {error && <p className="mt-6 text-center text-sm text-destructive">{error}</p>}
+
+          {verification && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={cn("glass rounded-2xl overflow-hidden mt-8", verified ? "glow-success" : "glow-danger")}
+            >
+              <div className={cn("p-6 text-center", verified ? "bg-success/10" : "bg-destructive/10")}>
+                <h2 className="text-xl font-bold">{verified ? 'Report verified' : 'Verification failed'}</h2>
+              </div>
+
+              <ul className="p-6 space-y-4 border-t border-border">
+                {verification.checks.map((check) => (
+                  <li key={check.label} className="flex items-start gap-3">
+                    {statusIcon[check.status]}
+                    <div>
+                      <p className="text-sm font-medium">{check.label}</p>
+                      <p className="text-xs text-muted-foreground">{check.detail}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {attestation && (
+                <div className="p-6 border-t border-border bg-muted/30">
+                  <h3 className="text-sm font-semibold mb-3 text-muted-foreground">Signed analysis</h3>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                    <dt className="text-muted-foreground">Verdict</dt>
+                    <dd className={attestation.result.verdict === 'real' ? 'text-success' : 'text-destructive'}>
+                      {attestation.result.verdict === 'real' ? 'Likely Authentic' : 'Likely AI-Generated'} (
+                      {Math.round(attestation.result.confidence * 100)}%)
+                    </dd>
+                    <dt className="text-muted-foreground">File</dt>
+                    <dd className="truncate">{attestation.file.name ?? 'Unknown'}</dd>
+                    <dt className="text-muted-foreground">SHA-256</dt>
+                    <dd className="font-mono text-xs break-all">{attestation.file.sha256 ?? 'Not recorded'}</dd>
+                    <dt className="text-muted-foreground">Frames</dt>
+                    <dd>{attestation.result.framesAnalyzed}</dd>
+                    <dt className="text-muted-foreground">Models</dt>
+                    <dd>
+                      {attestation.result.ensemble.providers.join(', ')} ({attestation.result.ensemble.strategy})
+                    </dd>
+                    <dt className="text-muted-foreground">Signed</dt>
+                    <dd>{new Date(attestation.signedAt).toLocaleString()}</dd>
+                    <dt className="text-muted-foreground">Analysis ID</dt>
+                    <dd className="font-mono text-xs break-all">{attestation.analysisId}</dd>
+                  </dl>
+                </div>
+              )}
+            </motion.div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default Verify;
@@ -0,0 +1,161 @@
+/**
+ * Shot-boundary detection and frame budget allocation for adaptive sampling
+ */
+
+export interface ScanSample {
+  timestamp: number;
+  histogram: Float32Array;
+  luma: Float32Array;
+  /** Fraction of pixels in a skin-tone range, a cheap proxy for faces on screen */
+  skinRatio: number;
+}
+
+export interface Shot {
+  start: number;
+  end: number;
+  /** Fraction of scanned frames in the shot that look like they contain a face */
+  faceRatio: number;
+}
+
+export interface PlannedFrame {
+  timestamp: number;
+  shotIndex: number;
+}
+
+const SCENE_CHANGE_THRESHOLD = 0.25;
+const FACE_SKIN_RATIO = 0.04;
+// A shot full of faces gets up to twice the frames of an equally long shot without
+const FACE_DENSITY_BONUS = 1;
+
+/**
+ * Reduces a low-resolution frame to the colour histogram, luma grid and skin
+ * ratio used to compare neighbouring scan samples.
+ */
+export function summarizeScanFrame(image: ImageData, timestamp: number): ScanSample {
+  const { data, width, height } = image;
+  const histogram = new Float32Array(64);
+  const luma = new Float32Array(width * height);
+  let skin = 0;
+
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    const r = data[p];
+    const g = data[p + 1];
+    const b = data[p + 2];
+    histogram[(r >> 6) * 16 + (g >> 6) * 4 + (b >> 6)]++;
+    luma[i] = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+
+    // Classic RGB skin rule (Peer et al.)
+    if (r > 95 && g > 40 && b > 20 && r > g && r > b && r - Math.min(g, b) > 15 && Math.abs(r - g) > 15) {
+      skin++;
+    }
+  }
+
+  for (let i = 0; i < histogram.length; i++) {
+    histogram[i] /= luma.length;
+  }
+
+  return { timestamp, histogram, luma, skinRatio: skin / luma.length };
+}
+
+const changeBetween = (a: ScanSample, b: ScanSample) => {
+  let histogramDistance = 0;
+  for (let i = 0; i < a.histogram.length; i++) {
+    histogramDistance += Math.abs(a.histogram[i] - b.histogram[i]);
+  }
+
+  let lumaDistance = 0;
+  for (let i = 0; i < a.luma.length; i++) {
+    lumaDistance += Math.abs(a.luma[i] - b.luma[i]);
+  }
+
+  return 0.5 * (histogramDistance / 2) + 0.5 * (lumaDistance / a.luma.length);
+};
+
+/**
+ * Splits the scanned timeline into shots wherever the visual change between
+ * neighbouring samples is both large and an outlier for this video.
+ */
+export function detectShots(samples: ScanSample[], duration: number): Shot[] {
+  if (samples.length === 0) return [{ start: 0, end: duration, faceRatio: 0 }];
+
+  const changes = samples.slice(1).map((sample, i) => changeBetween(samples[i], sample));
+  const mean = changes.reduce((sum, c) => sum + c, 0) / (changes.length || 1);
+  const std = Math.sqrt(changes.reduce((sum, c) => sum + (c - mean) ** 2, 0) / (changes.length || 1));
+  const threshold = Math.max(SCENE_CHANGE_THRESHOLD, mean + 2.5 * std);
+
+  const shots: Shot[] = [];
+  let shotStart = 0;
+  let shotSamples: ScanSample[] = [samples[0]];
+
+  const closeShot = (end: number) => {
+    const faces = shotSamples.filter((s) => s.skinRatio >= FACE_SKIN_RATIO).length;
+    shots.push({ start: shotStart, end, faceRatio: faces / shotSamples.length });
+  };
+
+  changes.forEach((change, i) => {
+    const next = samples[i + 1];
+    if (change >= threshold) {
+      // The cut happened somewhere between the two samples
+      const boundary = (samples[i].timestamp + next.timestamp) / 2;
+      closeShot(boundary);
+      shotStart = boundary;
+      shotSamples = [];
+    }
+    shotSamples.push(next);
+  });
+  closeShot(duration);
+
+  return shots;
+}
+
+/**
+ * Distributes the frame budget across shots in proportion to their length,
+ * weighted up where faces are present. Every shot gets at least one frame
+ * while the budget allows, so short spliced shots are never skipped.
+ */
+export function allocateFrames(shots: Shot[], budget: number): PlannedFrame[] {
+  const weights = shots.map((shot) => (shot.end - shot.start) * (1 + FACE_DENSITY_BONUS * shot.faceRatio));
+  const counts = shots.map(() => 0);
+
+  // Guarantee coverage, heaviest shots first when there are more shots than frames
+  const byWeight = shots.map((_, i) => i).sort((a, b) => weights[b] - weights[a]);
+  byWeight.slice(0, Math.min(budget, shots.length)).forEach((i) => {
+    counts[i] = 1;
+  });
+
+  // Hand out the rest by largest remainder
+  let remaining = budget - counts.reduce((sum, c) => sum + c, 0);
+  if (remaining > 0) {
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1;
+    const ideal = weights.map((w) => (w / totalWeight) * budget);
+    const extra = ideal.map((value, i) => Math.max(0, Math.floor(value) - counts[i]));
+    let assigned = extra.reduce((sum, e) => sum + e, 0);
+
+    while (assigned > remaining) {
+      const i = extra.indexOf(Math.max(...extra));
+      extra[i]--;
+      assigned--;
+    }
+    extra.forEach((e, i) => {
+      counts[i] += e;
+    });
+    remaining -= assigned;
+
+    const byRemainder = shots
+      .map((_, i) => i)
+      .sort((a, b) => (ideal[b] - counts[b]) - (ideal[a] - counts[a]));
+    for (let k = 0; k < remaining; k++) {
+      counts[byRemainder[k % byRemainder.length]]++;
+    }
+  }
+
+  const planned: PlannedFrame[] = [];
+  shots.forEach((shot, shotIndex) => {
+    const length = shot.end - shot.start;
+    for (let j = 0; j < counts[shotIndex]; j++) {
+      planned.push({ timestamp: shot.start + ((j + 0.5) * length) / counts[shotIndex], shotIndex });
+    }
+  });
+
+  return planned;
+}
@@ -0,0 +1,106 @@
+import type { ExtractionParameters } from '@/hooks/useVideoAnalysis';
+import type { CompressionForensics } from '@/utils/compressionForensics';
+import type { ExtractedFrame } from '@/utils/frameExtractor';
+import type { FrameFaces } from '@/utils/faceDetection';
+import type { ImageForensics } from '@/utils/imageForensics';
+import type { ReportSignature } from '@/utils/reportSignature';
+import type { TemporalMetrics } from '@/utils/temporalAnalysis';
+
+/**
+ * Local progress of an analysis that has not finished yet: the extracted
+ * frames, so a resume sends byte-identical frames, and the server's signed
+ * receipts for every frame it already analyzed. Kept in IndexedDB since a
+ * run's frames are far larger than the localStorage quota.
+ */
+export interface AnalysisCheckpoint {
+  /** `${userId}:${fileHash}`; receipts are only accepted from the user they were issued to */
+  key: string;
+  fileName: string;
+  savedAt: number;
+  duration: number;
+  extraction: ExtractionParameters;
+  /** Bursts are dropped; temporal metrics are already computed from them */
+  frames: Omit<ExtractedFrame, 'burst'>[];
+  faces: (FrameFaces | null)[];
+  temporal: TemporalMetrics | null;
+  /** Absent in checkpoints saved before image forensics were measured */
+  forensics?: ImageForensics | null;
+  /** Absent in checkpoints saved before compression forensics were measured */
+  compression?: CompressionForensics | null;
+  receipts: ReportSignature[];
+  /** Signed audio report; null when there was none to get, absent until the audio track was analyzed */
+  audio?: ReportSignature | null;
+  /** Server-side job analyzing a long video; set once its upload started */
+  jobId?: string;
+}
+
+const DB_NAME = 'analysis-checkpoints';
+const STORE = 'checkpoints';
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const checkpointKey = (userId: string, fileHash: string) => `${userId}:${fileHash}`;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+};
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const isFresh = (checkpoint: AnalysisCheckpoint) => Date.now() - checkpoint.savedAt < MAX_AGE_MS;
+
+// A checkpoint only speeds things up; storage failures (private mode, quota) never fail an analysis
+const ignoreStorageError = <T>(fallback: T) => (error: unknown) => {
+  console.warn('Analysis checkpoint storage unavailable:', error);
+  return fallback;
+};
+
+export function loadCheckpoint(key: string): Promise<AnalysisCheckpoint | null> {
+  return withStore<AnalysisCheckpoint | undefined>('readonly', (store) => store.get(key))
+    .then((checkpoint) => (checkpoint && isFresh(checkpoint) ? checkpoint : null))
+    .catch(ignoreStorageError(null));
+}
+
+export function saveCheckpoint(checkpoint: AnalysisCheckpoint): Promise<void> {
+  return withStore('readwrite', (store) => store.put(checkpoint))
+    .then(() => undefined)
+    .catch(ignoreStorageError(undefined));
+}
+
+export function deleteCheckpoint(key: string): Promise<void> {
+  return withStore('readwrite', (store) => store.delete(key))
+    .then(() => undefined)
+    .catch(ignoreStorageError(undefined));
+}
+
+/** Unfinished analyses of this user, newest first; expired ones are removed on the way */
+export async function listCheckpoints(userId: string): Promise<AnalysisCheckpoint[]> {
+  const checkpoints = await withStore<AnalysisCheckpoint[]>('readonly', (store) => store.getAll()).catch(
+    ignoreStorageError([] as AnalysisCheckpoint[])
+  );
+
+  await Promise.all(checkpoints.filter((checkpoint) => !isFresh(checkpoint)).map((checkpoint) => deleteCheckpoint(checkpoint.key)));
+
+  return checkpoints
+    .filter((checkpoint) => isFresh(checkpoint) && checkpoint.key.startsWith(`${userId}:`))
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { FrameFaces } from '@/utils/faceDetection';
+import type { ReportSignature } from '@/utils/reportSignature';
+
+/**
+ * Client for the analyze-video function's job API, used for videos too long
+ * to analyze within one request. Frames are uploaded in chunks, then the
+ * server works through them on its own and keeps the result, so a job
+ * finishes even if this tab is closed.
+ */
+
+export type AnalysisJobStatus = 'uploading' | 'extracting' | 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  /** Null until the frames of an uploaded video are extracted */
+  totalFrames: number | null;
+  processedFrames: number;
+  /** Only reported while the job is uploading */
+  uploadedFrames?: number;
+  error: string | null;
+  analysisId: string | null;
+  /** Stored with the job; for server-side extraction it lists the extracted frames */
+  metadata: Record<string, unknown>;
+  /** The raw analyze-video result once the job has completed */
+  result: Record<string, unknown> | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Abort reason for an explicit cancel; any other abort leaves a running job on the server */
+export const USER_CANCELLED = 'user-cancelled';
+
+const ANALYZE_VIDEO_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-video`;
+// Realtime covers the common case; polling catches dropped subscriptions and missed events
+const POLL_INTERVAL_MS = 5000;
+
+export const analysisError = (status: number, message?: string) => {
+  if (status === 401) {
+    return new Error('Your session has expired. Please sign in again.');
+  }
+  if (status === 429) {
+    return new Error(message || 'Rate limit exceeded. Please wait a moment and try again.');
+  }
+  if (status === 402) {
+    return new Error('AI credits exhausted. Please add credits to continue.');
+  }
+  return new Error(message || 'Analysis failed');
+};
+
+/** The function only accepts signed-in users and guests, never the bare publishable key */
+export async function functionHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Your session has expired. Please sign in again.');
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+export async function callAnalyzeVideo<T>(
+  path: string,
+  { method = 'GET', body, signal }: { method?: string; body?: unknown; signal?: AbortSignal } = {}
+): Promise<T> {
+  const response = await fetch(`${ANALYZE_VIDEO_URL}${path}`, {
+    method,
+    signal,
+    headers: await functionHeaders(),
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw analysisError(response.status, errorData.error);
+  }
+  return response.json();
+}
+
+/** What this deployment supports; server-side extraction needs an extractor service */
+export const getServerConfig = () => callAnalyzeVideo<{ serverExtraction: boolean }>('/config');
+
+export const createJob = (
+  body:
+    | { totalFrames: number; temporal: unknown; metadata: Record<string, unknown>; audio?: ReportSignature | null }
+    | {
+        source: { path: string };
+        sampling: { strategy: 'uniform' | 'adaptive'; maxFrames: number };
+        metadata: Record<string, unknown>;
+        /** Signed audio report from an "audio" request; the job continues its run */
+        audio?: ReportSignature | null;
+      },
+  signal?: AbortSignal
+) => callAnalyzeVideo<AnalysisJob>('/jobs', { method: 'POST', body, signal });
+
+export const uploadJobFrames = (
+  jobId: string,
+  frameOffset: number,
+  frames: string[],
+  faces: (FrameFaces | null)[],
+  signal?: AbortSignal
+) =>
+  callAnalyzeVideo<{ uploadedFrames: number; totalFrames: number }>(`/jobs/${jobId}/frames`, {
+    method: 'POST',
+    body: { frameOffset, frames, faces },
+    signal,
+  });
+
+export const startJob = (jobId: string, signal?: AbortSignal) =>
+  callAnalyzeVideo<AnalysisJob>(`/jobs/${jobId}/start`, { method: 'POST', signal });
+
+export const getJob = (jobId: string, signal?: AbortSignal) =>
+  callAnalyzeVideo<AnalysisJob>(`/jobs/${jobId}`, { signal });
+
+export const cancelJob = (jobId: string) => callAnalyzeVideo<AnalysisJob>(`/jobs/${jobId}`, { method: 'DELETE' });
+
+/**
+ * Resolves with the job once it has completed, reporting progress along the
+ * way. Rejects when the job fails or is cancelled, or when `signal` aborts;
+ * aborting only stops waiting, the job itself keeps running.
+ */
+export function waitForJob(
+  jobId: string,
+  { signal, onUpdate }: { signal?: AbortSignal; onUpdate?: (job: Pick<AnalysisJob, 'status' | 'processedFrames' | 'totalFrames'>) => void } = {}
+): Promise<AnalysisJob> {
+  return new Promise<AnalysisJob>((resolve, reject) => {
+    let settled = false;
+
+    const finish = (settle: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearInterval(timer);
+      signal?.removeEventListener('abort', onAbort);
+      supabase.removeChannel(channel);
+      settle();
+    };
+
+    const check = async () => {
+      try {
+        const job = await getJob(jobId, signal);
+        onUpdate?.(job);
+        if (job.status === 'completed') {
+          finish(() => resolve(job));
+        } else if (job.status === 'failed' || job.status === 'cancelled') {
+          finish(() => reject(new Error(job.error || `The analysis job was ${job.status}`)));
+        }
+      } catch (error) {
+        // The next poll retries; only an abort ends the wait
+        if (!signal?.aborted) console.warn('Failed to check analysis job:', error);
+      }
+    };
+
+    const onAbort = () => finish(() => reject(signal?.reason ?? new DOMException('Aborted', 'AbortError')));
+
+    const channel = supabase
+      .channel(`analysis-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'analysis_jobs', filter: `id=eq.${jobId}` },
+        ({ new: row }) => {
+          const { status, processed_frames, total_frames } = row as {
+            status: AnalysisJobStatus;
+            processed_frames: number;
+            total_frames: number | null;
+          };
+          onUpdate?.({ status, processedFrames: processed_frames, totalFrames: total_frames });
+          if (status !== 'extracting' && status !== 'queued' && status !== 'processing') check();
+        }
+      )
+      .subscribe();
+
+    const timer = setInterval(check, POLL_INTERVAL_MS);
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+    check();
+  });
+}
@@ -0,0 +1,261 @@
+/**
+ * Extracts the audio track of a video in the browser and cuts it into short
+ * segments for the voice classifier. Web Audio decodes the track straight
+ * from the container, resampled to the 16 kHz mono most speech models are
+ * trained on. Each segment carries a few spectral features next to its
+ * samples: synthetic speech tends to be band-limited by the vocoder, unusually
+ * tonal and too stable from one window to the next.
+ */
+
+export interface AudioFeatures {
+  /** Hz */
+  spectralCentroid: number;
+  /** Hz below which 85% of the energy lies */
+  spectralRolloff: number;
+  /** 0 = tonal, 1 = white noise */
+  spectralFlatness: number;
+  /** Mean change of the normalized spectrum between windows */
+  spectralFlux: number;
+  zeroCrossingRate: number;
+  rms: number;
+  /** Share of the energy above 4 kHz */
+  highBandRatio: number;
+}
+
+export interface AudioSegment {
+  index: number;
+  /** Seconds into the video */
+  start: number;
+  end: number;
+  /** 16-bit PCM WAV as a data URL */
+  audio: string;
+  features: AudioFeatures;
+}
+
+export interface AudioTrack {
+  sampleRate: number;
+  /** Seconds */
+  duration: number;
+  segments: AudioSegment[];
+}
+
+const SAMPLE_RATE = 16000;
+const SEGMENT_SECONDS = 4;
+// analyze-video accepts up to 12 segments per request
+const MAX_SEGMENTS = 12;
+// Segments this quiet hold no speech worth classifying
+const MIN_SEGMENT_RMS = 0.005;
+// decodeAudioData needs the whole file in memory
+const MAX_FILE_SIZE = 512 * 1024 * 1024;
+
+const FFT_SIZE = 512;
+const HOP_SIZE = 256;
+const HIGH_BAND_HZ = 4000;
+
+// In-place radix-2 FFT; `re` and `im` have a power-of-two length
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+function measureFeatures(samples: Float32Array): AudioFeatures {
+  const bins = FFT_SIZE / 2;
+  const binHz = SAMPLE_RATE / FFT_SIZE;
+  const window = Float32Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)));
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  let previous: Float32Array | null = null;
+
+  let centroid = 0;
+  let rolloff = 0;
+  let flatness = 0;
+  let flux = 0;
+  let highBand = 0;
+  let windows = 0;
+
+  for (let offset = 0; offset + FFT_SIZE <= samples.length; offset += HOP_SIZE) {
+    for (let i = 0; i < FFT_SIZE; i++) {
+      re[i] = samples[offset + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const power = new Float32Array(bins);
+    let total = 0;
+    let weighted = 0;
+    let logSum = 0;
+    let high = 0;
+    for (let k = 0; k < bins; k++) {
+      power[k] = re[k] * re[k] + im[k] * im[k];
+      total += power[k];
+      weighted += k * binHz * power[k];
+      logSum += Math.log(power[k] + 1e-12);
+      if (k * binHz >= HIGH_BAND_HZ) high += power[k];
+    }
+    // Silent windows say nothing about the spectrum
+    if (total < 1e-8) continue;
+
+    let cumulative = 0;
+    let rolloffBin = bins - 1;
+    for (let k = 0; k < bins; k++) {
+      cumulative += power[k];
+      if (cumulative >= 0.85 * total) {
+        rolloffBin = k;
+        break;
+      }
+    }
+
+    const normalized = power.map((value) => value / total);
+    if (previous) {
+      let change = 0;
+      for (let k = 0; k < bins; k++) change += (normalized[k] - previous[k]) ** 2;
+      flux += Math.sqrt(change);
+    }
+    previous = normalized;
+
+    centroid += weighted / total;
+    rolloff += rolloffBin * binHz;
+    flatness += Math.exp(logSum / bins) / (total / bins);
+    highBand += high / total;
+    windows++;
+  }
+
+  let crossings = 0;
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) {
+    energy += samples[i] * samples[i];
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+  }
+
+  const mean = (sum: number) => (windows > 0 ? sum / windows : 0);
+  return {
+    spectralCentroid: mean(centroid),
+    spectralRolloff: mean(rolloff),
+    spectralFlatness: mean(flatness),
+    spectralFlux: windows > 1 ? flux / (windows - 1) : 0,
+    zeroCrossingRate: samples.length > 1 ? crossings / (samples.length - 1) : 0,
+    rms: Math.sqrt(energy / Math.max(1, samples.length)),
+    highBandRatio: mean(highBand),
+  };
+}
+
+function encodeWav(samples: Float32Array): string {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) =>
+    Array.from(value).forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:audio/wav;base64,${btoa(binary)}`;
+}
+
+async function decodeMono(file: File): Promise<Float32Array | null> {
+  const data = await file.arrayBuffer();
+  // The context only sets the rate decoded audio is resampled to; its length does not matter
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(data);
+
+  const mono = new Float32Array(decoded.length);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const samples = decoded.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) mono[i] += samples[i] / decoded.numberOfChannels;
+  }
+  return mono.length > 0 ? mono : null;
+}
+
+/**
+ * Decodes the audio track and cuts up to 12 segments of 4 seconds, spread
+ * evenly over the video; silent segments are left out. Returns null when the
+ * file has no audio track, the browser cannot decode it, or nothing in it is
+ * loud enough to classify.
+ */
+export async function extractAudioTrack(
+  file: File,
+  options: { signal?: AbortSignal } = {}
+): Promise<AudioTrack | null> {
+  const { signal } = options;
+  if (file.size > MAX_FILE_SIZE) return null;
+
+  let samples: Float32Array | null;
+  try {
+    samples = await decodeMono(file);
+  } catch (error) {
+    // Most often a video without an audio track
+    console.warn('Audio track could not be decoded:', error);
+    return null;
+  }
+  signal?.throwIfAborted();
+  if (!samples) return null;
+
+  const segmentLength = SEGMENT_SECONDS * SAMPLE_RATE;
+  const available = Math.floor(samples.length / segmentLength);
+  const starts = available <= MAX_SEGMENTS
+    ? Array.from({ length: Math.max(1, available) }, (_, i) => i * segmentLength)
+    : Array.from({ length: MAX_SEGMENTS }, (_, i) => Math.floor((i * available) / MAX_SEGMENTS) * segmentLength);
+
+  const segments: AudioSegment[] = [];
+  for (const start of starts) {
+    const slice = samples.subarray(start, Math.min(samples.length, start + segmentLength));
+    const features = measureFeatures(slice);
+    if (features.rms < MIN_SEGMENT_RMS) continue;
+
+    segments.push({
+      index: segments.length,
+      start: start / SAMPLE_RATE,
+      end: (start + slice.length) / SAMPLE_RATE,
+      audio: encodeWav(slice),
+      features,
+    });
+  }
+
+  if (segments.length === 0) return null;
+  return { sampleRate: SAMPLE_RATE, duration: samples.length / SAMPLE_RATE, segments };
+}
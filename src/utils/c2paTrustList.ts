@@ -0,0 +1,12 @@
+/**
+ * Root and intermediate certificates whose Content Credentials signatures
+ * are shown as trusted, as concatenated PEM. Manifests signed under any other
+ * root still verify, but their signer is reported as unknown. Either way the
+ * credentials are informational and never change the verdict.
+ *
+ * Paste the trust anchors from the C2PA conformance program's published
+ * trust list here, followed by any signers your deployment vouches for, and
+ * refresh them when the list is revised. Until then no signer is shown as
+ * trusted.
+ */
+export const C2PA_TRUST_ANCHORS = ``;
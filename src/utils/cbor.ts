@@ -0,0 +1,203 @@
+/**
+ * Minimal CBOR (RFC 8949) codec for C2PA claims and COSE signatures. Maps
+ * decode to plain objects keyed by the stringified key, byte strings to
+ * Uint8Array; tags are dropped and their content returned.
+ */
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | { [key: string]: CborValue };
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+const BREAK = Symbol('break');
+
+const toSafeNumber = (value: bigint) => (value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value);
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+class Reader {
+  offset = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private need(length: number) {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Truncated CBOR data');
+    }
+  }
+
+  uint8() {
+    this.need(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  take(length: number) {
+    this.need(length);
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  /** The argument that follows an initial byte; null for indefinite lengths */
+  argument(info: number): number | bigint | null {
+    if (info < 24) return info;
+    if (info === 31) return null;
+    if (info > 27) throw new Error(`Invalid CBOR additional information ${info}`);
+    this.need(1 << (info - 24));
+    const offset = this.offset;
+    switch (info) {
+      case 24:
+        this.offset += 1;
+        return this.view.getUint8(offset);
+      case 25:
+        this.offset += 2;
+        return this.view.getUint16(offset);
+      case 26:
+        this.offset += 4;
+        return this.view.getUint32(offset);
+      default:
+        this.offset += 8;
+        return toSafeNumber(this.view.getBigUint64(offset));
+    }
+  }
+
+  float(info: number) {
+    const offset = this.offset;
+    if (info === 25) {
+      this.take(2);
+      const half = this.view.getUint16(offset);
+      const exponent = (half >> 10) & 0x1f;
+      const fraction = half & 0x3ff;
+      const sign = half & 0x8000 ? -1 : 1;
+      if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+      if (exponent === 31) return fraction ? NaN : sign * Infinity;
+      return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+    }
+    if (info === 26) {
+      this.take(4);
+      return this.view.getFloat32(offset);
+    }
+    this.take(8);
+    return this.view.getFloat64(offset);
+  }
+}
+
+const toLength = (value: number | bigint | null) => {
+  if (typeof value !== 'number') throw new Error('CBOR length out of range');
+  return value;
+};
+
+function readItem(reader: Reader): CborValue | typeof BREAK {
+  const initial = reader.uint8();
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === 7) {
+    if (info === 20) return false;
+    if (info === 21) return true;
+    if (info === 22) return null;
+    if (info === 23) return undefined;
+    if (info >= 25 && info <= 27) return reader.float(info);
+    if (info === 31) return BREAK;
+    reader.argument(info);
+    return undefined;
+  }
+
+  const argument = reader.argument(info);
+
+  switch (major) {
+    case 0:
+      return argument;
+    case 1:
+      return typeof argument === 'bigint' ? BigInt(-1) - argument : -1 - toLength(argument);
+    case 2:
+    case 3: {
+      let bytes: Uint8Array;
+      if (argument === null) {
+        const chunks: Uint8Array[] = [];
+        for (let chunk = readItem(reader); chunk !== BREAK; chunk = readItem(reader)) {
+          chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : (chunk as Uint8Array));
+        }
+        bytes = concat(chunks);
+      } else {
+        bytes = reader.take(toLength(argument));
+      }
+      return major === 2 ? bytes.slice() : utf8.decode(bytes);
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; argument === null || i < toLength(argument); i++) {
+        const item = readItem(reader);
+        if (item === BREAK) break;
+        items.push(item);
+      }
+      return items;
+    }
+    case 5: {
+      const map: { [key: string]: CborValue } = {};
+      for (let i = 0; argument === null || i < toLength(argument); i++) {
+        const key = readItem(reader);
+        if (key === BREAK) break;
+        const value = readItem(reader);
+        if (value === BREAK) throw new Error('CBOR map is missing a value');
+        map[String(key)] = value;
+      }
+      return map;
+    }
+    case 6:
+      // Tags (e.g. 18 for COSE_Sign1) only annotate their content
+      return readItem(reader);
+    default:
+      throw new Error(`Unknown CBOR major type ${major}`);
+  }
+}
+
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const reader = new Reader(bytes);
+  const value = readItem(reader);
+  if (value === BREAK) throw new Error('Unexpected CBOR break');
+  return value;
+}
+
+function encodeHead(major: number, length: number): number[] {
+  if (length < 24) return [(major << 5) | length];
+  if (length < 0x100) return [(major << 5) | 24, length];
+  if (length < 0x10000) return [(major << 5) | 25, length >> 8, length & 0xff];
+  return [(major << 5) | 26, (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff];
+}
+
+/** Encodes the subset COSE signature structures need: arrays, text and byte strings */
+export function encodeCbor(value: string | Uint8Array | (string | Uint8Array)[]): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const write = (item: string | Uint8Array) => {
+    const bytes = typeof item === 'string' ? new TextEncoder().encode(item) : item;
+    parts.push(Uint8Array.from(encodeHead(typeof item === 'string' ? 3 : 2, bytes.length)), bytes);
+  };
+
+  if (Array.isArray(value)) {
+    parts.push(Uint8Array.from(encodeHead(4, value.length)));
+    value.forEach(write);
+  } else {
+    write(value);
+  }
+
+  return concat(parts);
+}
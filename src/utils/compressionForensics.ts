@@ -0,0 +1,343 @@
+/**
+ * Compression forensics: signs that the video was encoded more than once.
+ *
+ *   - DCT coefficient histograms of decoded frames. Quantizing twice with
+ *     different steps leaves periodic gaps between the peaks a single
+ *     quantization produces.
+ *   - Keyframe (GOP) structure from the container. A previous encode's
+ *     keyframes keep showing up as oversized predicted frames, out of step
+ *     with the current keyframe interval.
+ *   - Bitrate across the timeline, where abrupt jumps can mark spliced
+ *     segments encoded separately.
+ *
+ * These are heuristics; each part is skipped when its input is unavailable.
+ */
+
+import { readVideoSamples, type VideoSamples } from '@/utils/containerMetadata';
+import { openFrameSource } from '@/utils/frameSources';
+
+export interface GopStructure {
+  keyframes: number;
+  /** Mean samples between keyframes */
+  meanInterval: number;
+  /** Coefficient of variation of the keyframe interval */
+  intervalVariation: number;
+  /** Period, in samples, of size spikes that do not line up with the current keyframes */
+  ghostPeriod: number | null;
+}
+
+export interface BitrateProfile {
+  /** Bits per second over the whole video */
+  mean: number;
+  /** Coefficient of variation across one-second windows */
+  variation: number;
+  /** Adjacent windows whose bitrate differs by more than JUMP_RATIO */
+  jumps: number;
+}
+
+export interface CompressionForensics {
+  /** 1 = consistent with a single encode */
+  score: number;
+  /** What the score is based on, in plain sentences */
+  explanation: string;
+  /** 0-1; null when no frame showed a usable 8×8 quantization pattern */
+  doubleQuantization: number | null;
+  gop: GopStructure | null;
+  bitrate: BitrateProfile | null;
+  framesAnalyzed: number;
+}
+
+// Frames decoded at full resolution for the DCT histograms
+const DCT_FRAMES = 6;
+// Low-frequency AC coefficients, as [u, v], whose histograms are examined
+const COEFFICIENTS: [number, number][] = [[0, 1], [1, 0], [1, 1], [0, 2], [2, 0], [1, 2], [2, 1]];
+const HISTOGRAM_BINS = 96;
+const MAX_STEP = 20;
+// Share of coefficients that must sit on multiples of the step for quantization to count as visible
+const MIN_COMB_SHARE = 0.6;
+// Peaks with fewer coefficients are noise
+const MIN_PEAK_COUNT = 30;
+// Rising mass between successive peaks at which a histogram counts as fully double quantized
+const MAX_PEAK_RISE = 0.1;
+
+// Predicted frames this many times the upper quartile of their neighbourhood count as spikes
+const SPIKE_RATIO = 3;
+const SIZE_WINDOW = 15;
+// Shorter periods are the encoder's own B/P frame pattern
+const MIN_GHOST_PERIOD = 8;
+const MIN_GHOST_CORRELATION = 0.3;
+const JUMP_RATIO = 3;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const variation = (values: number[]) => {
+  const average = mean(values);
+  if (average === 0) return 0;
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2))) / average;
+};
+
+// cos((2x + 1)uπ / 16) with the DCT-II normalization folded in
+const DCT_BASIS = Array.from({ length: 8 }, (_, u) =>
+  Array.from({ length: 8 }, (_, x) => (u === 0 ? Math.SQRT1_2 : 1) * 0.5 * Math.cos(((2 * x + 1) * u * Math.PI) / 16))
+);
+
+/** Histograms of |coefficient| for each of COEFFICIENTS over the frame's aligned 8×8 luma blocks */
+function coefficientHistograms(image: ImageData): Float64Array[] {
+  const { data, width, height } = image;
+  const histograms = COEFFICIENTS.map(() => new Float64Array(HISTOGRAM_BINS));
+  const block = new Float64Array(64);
+
+  for (let by = 0; by + 8 <= height; by += 8) {
+    for (let bx = 0; bx + 8 <= width; bx += 8) {
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          const p = ((by + y) * width + bx + x) * 4;
+          block[y * 8 + x] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2] - 128;
+        }
+      }
+
+      COEFFICIENTS.forEach(([u, v], c) => {
+        let sum = 0;
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            sum += block[y * 8 + x] * DCT_BASIS[u][x] * DCT_BASIS[v][y];
+          }
+        }
+        const bin = Math.round(Math.abs(sum));
+        if (bin < HISTOGRAM_BINS) histograms[c][bin]++;
+      });
+    }
+  }
+
+  return histograms;
+}
+
+/**
+ * How strongly one coefficient histogram shows double quantization, 0-1, or
+ * null when no quantization step stands out. A single quantization gives
+ * peaks at multiples of the step that shrink steadily; a second one with a
+ * different step makes some peaks rise above the one before.
+ */
+function measureDoubleQuantization(histogram: Float64Array): number | null {
+  // The largest step whose multiples hold most coefficients; twice the real step only holds about half
+  let step = 0;
+  for (let q = MAX_STEP; q >= 2 && !step; q--) {
+    let onComb = 0;
+    let total = 0;
+    for (let bin = 1; bin < HISTOGRAM_BINS; bin++) {
+      total += histogram[bin];
+      if (bin % q === 0) onComb += histogram[bin];
+    }
+    if (total > 0 && onComb / total >= MIN_COMB_SHARE) step = q;
+  }
+  if (!step) return null;
+
+  // Up to the last well-populated peak; empty peaks before it are the gaps being looked for
+  const peaks: number[] = [];
+  for (let bin = step; bin < HISTOGRAM_BINS; bin += step) {
+    peaks.push(histogram[bin]);
+  }
+  while (peaks.length > 0 && peaks[peaks.length - 1] < MIN_PEAK_COUNT) peaks.pop();
+  if (peaks.length < 3) return null;
+
+  let rise = 0;
+  for (let i = 1; i < peaks.length; i++) {
+    rise += Math.max(0, peaks[i] - peaks[i - 1]);
+  }
+  return clamp01(rise / peaks.reduce((sum, peak) => sum + peak, 0) / MAX_PEAK_RISE);
+}
+
+/** Decodes frames spread over the video at full resolution and measures their DCT histograms */
+async function analyzeQuantization(
+  file: File,
+  signal?: AbortSignal
+): Promise<{ doubleQuantization: number | null; framesAnalyzed: number }> {
+  const scores: number[] = [];
+  let framesAnalyzed = 0;
+
+  const source = await openFrameSource(file);
+  try {
+    for (let i = 0; i < DCT_FRAMES; i++) {
+      signal?.throwIfAborted();
+      // One frame at a time; full-resolution ImageData is large
+      const [frame] = await source.grab(
+        [{ timestamp: ((i + 0.5) / DCT_FRAMES) * source.duration, width: Number.MAX_SAFE_INTEGER, format: 'imageData' }],
+        undefined,
+        signal
+      );
+      if (!(frame instanceof ImageData)) continue;
+
+      framesAnalyzed++;
+      const measured = coefficientHistograms(frame)
+        .map(measureDoubleQuantization)
+        .filter((score): score is number => score !== null)
+        .sort((a, b) => a - b);
+      if (measured.length > 0) scores.push(measured[Math.floor(measured.length / 2)]);
+    }
+  } finally {
+    source.close();
+  }
+
+  return { doubleQuantization: scores.length > 0 ? mean(scores) : null, framesAnalyzed };
+}
+
+/**
+ * 1 for frames far larger than their neighbourhood, 0 otherwise. Comparing
+ * against the local upper quartile keeps the regular P/B size alternation and
+ * gradual bitrate changes out.
+ */
+function sizeSpikes(sizes: number[]): number[] {
+  const half = Math.floor(SIZE_WINDOW / 2);
+  return sizes.map((size, i) => {
+    const window = sizes.slice(Math.max(0, i - half), i + half + 1).sort((a, b) => a - b);
+    const quartile = window[Math.floor(window.length * 0.75)];
+    return quartile > 0 && size > SPIKE_RATIO * quartile ? 1 : 0;
+  });
+}
+
+function analyzeGop({ sizes, keyframes }: VideoSamples): GopStructure {
+  const keys = keyframes ?? sizes.map((_, i) => i);
+  const intervals = keys.slice(1).map((key, i) => key - keys[i]);
+  const meanInterval = intervals.length > 0 ? mean(intervals) : sizes.length;
+  const keySet = new Set(keys);
+
+  // Autocorrelation of the spikes among predicted frames; keyframes are the current encode's own spikes
+  const spikes = sizeSpikes(sizes).map((spike, i) => (keySet.has(i) ? 0 : spike));
+  const rate = mean(spikes);
+  const centered = spikes.map((spike) => spike - rate);
+  const energy = centered.reduce((sum, value) => sum + value * value, 0);
+
+  let ghostPeriod: number | null = null;
+  let best = MIN_GHOST_CORRELATION;
+  if (keyframes && spikes.filter(Boolean).length >= 3 && energy > 0) {
+    for (let lag = MIN_GHOST_PERIOD; lag <= Math.min(300, Math.floor(sizes.length / 3)); lag++) {
+      // Multiples of the current keyframe interval are the current encode's own rhythm
+      if (Math.abs(lag / meanInterval - Math.round(lag / meanInterval)) * meanInterval < 1.5) continue;
+      let sum = 0;
+      for (let i = lag; i < centered.length; i++) sum += centered[i] * centered[i - lag];
+      const correlation = sum / energy;
+      if (correlation > best) {
+        best = correlation;
+        ghostPeriod = lag;
+      }
+    }
+  }
+
+  return {
+    keyframes: keys.length,
+    meanInterval,
+    intervalVariation: intervals.length > 1 ? variation(intervals) : 0,
+    ghostPeriod,
+  };
+}
+
+function analyzeBitrate({ sizes, times }: VideoSamples): BitrateProfile | null {
+  const duration = times[times.length - 1];
+  if (!(duration >= 2)) return null;
+
+  const windows = new Array<number>(Math.floor(duration)).fill(0);
+  sizes.forEach((size, i) => {
+    const window = Math.floor(times[i]);
+    if (window < windows.length) windows[window] += size * 8;
+  });
+
+  let jumps = 0;
+  for (let i = 1; i < windows.length; i++) {
+    const low = Math.min(windows[i], windows[i - 1]);
+    const high = Math.max(windows[i], windows[i - 1]);
+    if (low > 0 && high / low > JUMP_RATIO) jumps++;
+  }
+
+  return {
+    mean: sizes.reduce((sum, size) => sum + size * 8, 0) / duration,
+    variation: variation(windows),
+    jumps,
+  };
+}
+
+function explain(
+  { doubleQuantization, framesAnalyzed }: { doubleQuantization: number | null; framesAnalyzed: number },
+  gop: GopStructure | null,
+  bitrate: BitrateProfile | null
+): string {
+  const sentences: string[] = [];
+
+  if (framesAnalyzed === 0) {
+    sentences.push('No frames could be decoded at full resolution for DCT analysis.');
+  } else if (doubleQuantization === null) {
+    sentences.push(
+      `The ${framesAnalyzed} decoded frames show no 8×8 quantization pattern to test for double compression, as is usual for H.264 and newer codecs.`
+    );
+  } else if (doubleQuantization < 0.3) {
+    sentences.push(`DCT coefficient histograms of ${framesAnalyzed} frames look like a single quantization.`);
+  } else {
+    sentences.push(
+      `DCT coefficient histograms of ${framesAnalyzed} frames show the periodic gaps left by quantizing twice, a sign the picture was compressed before this encode.`
+    );
+  }
+
+  if (!gop) {
+    sentences.push("The container's sample tables could not be read, so keyframes and bitrate were not checked.");
+  } else if (gop.meanInterval <= 1) {
+    sentences.push('Every frame is a keyframe (intra-only encoding).');
+  } else {
+    sentences.push(
+      `Keyframes come every ${Math.round(gop.meanInterval)} frames${gop.intervalVariation > 0.5 ? ' at irregular intervals' : ''}.`
+    );
+    if (gop.ghostPeriod) {
+      sentences.push(
+        `Frame sizes also spike every ${gop.ghostPeriod} frames, out of step with the keyframes, which is what a previous encode's keyframes leave behind.`
+      );
+    }
+  }
+
+  if (bitrate) {
+    const mbps = (bitrate.mean / 1e6).toFixed(1);
+    sentences.push(
+      bitrate.jumps > 0
+        ? `The bitrate averages ${mbps} Mbit/s but jumps abruptly ${bitrate.jumps} time${bitrate.jumps === 1 ? '' : 's'}, which can mark segments encoded separately.`
+        : `The bitrate averages ${mbps} Mbit/s and varies by ${Math.round(bitrate.variation * 100)}% across the timeline.`
+    );
+  }
+
+  return sentences.join(' ');
+}
+
+/**
+ * Runs the compression forensics on the original file. Resolves with null
+ * when neither the frames nor the container could be examined.
+ */
+export async function analyzeCompression(
+  file: File,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<CompressionForensics | null> {
+  const [quantization, samples] = await Promise.all([
+    analyzeQuantization(file, signal).catch((error) => {
+      signal?.throwIfAborted();
+      console.warn('DCT analysis failed:', error);
+      return { doubleQuantization: null, framesAnalyzed: 0 };
+    }),
+    readVideoSamples(file),
+  ]);
+
+  const gop = samples ? analyzeGop(samples) : null;
+  const bitrate = samples ? analyzeBitrate(samples) : null;
+  if (quantization.doubleQuantization === null && !gop) return null;
+
+  const penalty =
+    0.5 * (quantization.doubleQuantization ?? 0) +
+    (gop?.ghostPeriod ? 0.3 : 0) +
+    (gop && gop.intervalVariation > 0.5 ? 0.1 : 0) +
+    Math.min(0.2, 0.1 * (bitrate?.jumps ?? 0));
+
+  return {
+    score: clamp01(1 - penalty),
+    explanation: explain(quantization, gop, bitrate),
+    doubleQuantization: quantization.doubleQuantization,
+    gop,
+    bitrate,
+    framesAnalyzed: quantization.framesAnalyzed,
+  };
+}
@@ -0,0 +1,532 @@
+/**
+ * Container metadata forensics for MP4 and MOV files. Walks the ISO-BMFF /
+ * QuickTime box tree, collects the brand, timestamps, encoder strings, tags
+ * and track layout, and flags what generator and re-encode pipelines tend to
+ * leave behind.
+ */
+
+export type FindingSeverity = 'high' | 'medium' | 'low';
+
+export interface MetadataFinding {
+  severity: FindingSeverity;
+  message: string;
+}
+
+export interface ContainerTrack {
+  id: number;
+  /** Handler type, e.g. "vide" or "soun" */
+  type: string;
+  handlerName: string | null;
+  /** Sample entry format, e.g. "avc1" or "mp4a" */
+  codec: string | null;
+  /** Compressor name from the visual sample entry; often names the encoder */
+  compressorName: string | null;
+  width: number | null;
+  height: number | null;
+  /** Seconds */
+  duration: number | null;
+  creationTime: string | null;
+  modificationTime: string | null;
+  /** Segments in the edit list; empty edits (delays) count too */
+  edits: number;
+}
+
+export interface ContainerMetadata {
+  format: 'mp4' | 'quicktime';
+  majorBrand: string | null;
+  compatibleBrands: string[];
+  creationTime: string | null;
+  modificationTime: string | null;
+  /** Seconds */
+  duration: number | null;
+  encoder: string | null;
+  make: string | null;
+  model: string | null;
+  software: string | null;
+  location: string | null;
+  /** Every text tag found in udta and meta boxes, by tag name */
+  tags: Record<string, string>;
+  tracks: ContainerTrack[];
+  findings: MetadataFinding[];
+  /** 1 = nothing unusual, lower the more the container points to a generator or re-encode */
+  score: number;
+}
+
+/** Sample tables of the first video track, for keyframe and bitrate analysis */
+export interface VideoSamples {
+  /** Bytes per sample, in decode order */
+  sizes: number[];
+  /** Decode time of each sample, seconds */
+  times: number[];
+  /** Indices of sync samples (keyframes); null when every sample is one */
+  keyframes: number[] | null;
+}
+
+interface Box {
+  type: string;
+  /** Offset of the payload, after the header */
+  start: number;
+  end: number;
+}
+
+// moov is read in one piece; anything larger is not a video this app handles
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+// Seconds between the QuickTime epoch (1904) and the Unix epoch
+const MAC_EPOCH_OFFSET = 2082844800;
+// Leeway for clocks and time zones before a timestamp counts as inconsistent
+const CLOCK_SKEW_SECONDS = 60 * 60 * 24;
+
+const TOP_LEVEL_BOXES = new Set(['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot', 'uuid', 'meta']);
+
+const SEVERITY_PENALTY: Record<FindingSeverity, number> = { high: 0.6, medium: 0.25, low: 0.1 };
+
+// Encoder, software and handler strings written by video generation and face swap tools
+const AI_TOOL_PATTERN =
+  /\b(sora|openai|runway(ml)?|gen-?[234]|pika(\s?labs)?|kling|luma|dream ?machine|stable ?video|stability\.?ai|synthesia|heygen|d-id|deepfacelab|faceswap|facefusion|roop|veo|hailuo|minimax|haiper|invideo|midjourney|deforum|animatediff|comfyui)\b/i;
+// Muxers and encoders that mean the file was processed after capture
+const REENCODE_PATTERN = /\b(lavf|lavc|ffmpeg|handbrake|x264|x265|libx26[45]|mencoder|avidemux)\b/i;
+
+// QuickTime keys (mdta) and udta atoms that identify the capture device
+const TAG_ALIASES: Record<string, 'make' | 'model' | 'software' | 'encoder' | 'location'> = {
+  '©mak': 'make',
+  '©mod': 'model',
+  '©swr': 'software',
+  '©too': 'encoder',
+  '©enc': 'encoder',
+  '©xyz': 'location',
+  'com.apple.quicktime.make': 'make',
+  'com.apple.quicktime.model': 'model',
+  'com.apple.quicktime.software': 'software',
+  'com.apple.quicktime.location.ISO6709': 'location',
+  'com.android.manufacturer': 'make',
+  'com.android.model': 'model',
+  'com.android.version': 'software',
+};
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+
+const cleanString = (value: string) => value.replace(/\0+$/g, '').trim();
+
+/** Converts seconds since 1904 to ISO; null for the unset value 0 */
+const macTime = (seconds: number) =>
+  seconds > 0 ? new Date((seconds - MAC_EPOCH_OFFSET) * 1000).toISOString() : null;
+
+/** Box headers between start and end; a size of 0 extends to the end */
+function readBoxes(view: DataView, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourCC(view, offset + 4);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = readUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+const child = (view: DataView, box: Box, type: string) =>
+  readBoxes(view, box.start, box.end).find((candidate) => candidate.type === type);
+
+/**
+ * Creation and modification times at the start of mvhd, tkhd and mdhd;
+ * `fieldsEnd` is where the box's next field starts.
+ */
+function readTimes(view: DataView, box: Box) {
+  const wide = view.getUint8(box.start) === 1;
+  const creation = wide ? readUint64(view, box.start + 4) : view.getUint32(box.start + 4);
+  const modification = wide ? readUint64(view, box.start + 12) : view.getUint32(box.start + 8);
+  return { creation, modification, fieldsEnd: box.start + (wide ? 20 : 12), wide };
+}
+
+/** Follows a path of child box types down from `box` */
+const descend = (view: DataView, box: Box, path: string[]) =>
+  path.reduce<Box | undefined>((parent, type) => parent && child(view, parent, type), box);
+
+/** Reads an hdlr name, which QuickTime writes as a Pascal string and MP4 as a C string */
+function readHandler(view: DataView, box: Box) {
+  const type = fourCC(view, box.start + 8);
+  let nameStart = box.start + 24;
+  if (nameStart < box.end && view.getUint8(nameStart) === box.end - nameStart - 1) {
+    nameStart += 1;
+  }
+  if (nameStart >= box.end) {
+    return { type, name: null };
+  }
+  const name = cleanString(utf8.decode(new Uint8Array(view.buffer, view.byteOffset + nameStart, box.end - nameStart)));
+  return { type, name: name || null };
+}
+
+/** Text payload of an iTunes style "data" box: type, locale, then the value */
+function readDataBox(view: DataView, box: Box): string | null {
+  const data = child(view, box, 'data');
+  if (!data || data.end - data.start < 8) return null;
+  // Well-known types 1 (UTF-8) and 2 (UTF-16) are text; anything else is binary
+  const dataType = view.getUint32(data.start) & 0xffffff;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + data.start + 8, data.end - data.start - 8);
+  if (dataType === 1) return cleanString(utf8.decode(bytes));
+  if (dataType === 2) return cleanString(new TextDecoder('utf-16be').decode(bytes));
+  return null;
+}
+
+/** udta children: QuickTime "©xxx" text atoms and a nested meta box */
+function readUserData(view: DataView, udta: Box, tags: Record<string, string>) {
+  for (const box of readBoxes(view, udta.start, udta.end)) {
+    if (box.type === 'meta') {
+      readMeta(view, box, tags);
+    } else if (box.type.charCodeAt(0) === 0xa9 && box.end - box.start > 4) {
+      // A 16-bit length and language code, then the text
+      const length = view.getUint16(box.start);
+      const textStart = box.start + 4;
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + textStart, Math.min(length, box.end - textStart));
+      // Some muxers write the iTunes form here as well
+      const value = cleanString(utf8.decode(bytes)) || readDataBox(view, box);
+      if (value) tags[box.type] = value;
+    }
+  }
+}
+
+/**
+ * meta boxes come as an ISO full box (4 bytes of version and flags before the
+ * children) or QuickTime's plain box; mdta metadata names its items through a
+ * keys box, iTunes metadata through the item box types.
+ */
+function readMeta(view: DataView, meta: Box, tags: Record<string, string>) {
+  const isFullBox = fourCC(view, meta.start + 4) !== 'hdlr';
+  const boxes = readBoxes(view, meta.start + (isFullBox ? 4 : 0), meta.end);
+
+  const keys: string[] = [];
+  const keysBox = boxes.find((box) => box.type === 'keys');
+  if (keysBox) {
+    let offset = keysBox.start + 8;
+    while (offset + 8 <= keysBox.end) {
+      const size = view.getUint32(offset);
+      if (size < 8 || offset + size > keysBox.end) break;
+      keys.push(latin1.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 8, size - 8)));
+      offset += size;
+    }
+  }
+
+  const ilst = boxes.find((box) => box.type === 'ilst');
+  if (!ilst) return;
+  for (const item of readBoxes(view, ilst.start, ilst.end)) {
+    const value = readDataBox(view, item);
+    if (!value) continue;
+    // mdta items are typed by their 1-based index into keys
+    const index = view.getUint32(item.start - 4);
+    const name = keys.length > 0 && index >= 1 && index <= keys.length ? keys[index - 1] : item.type;
+    tags[name] = value;
+  }
+}
+
+function readTrack(view: DataView, trak: Box): ContainerTrack {
+  const track: ContainerTrack = {
+    id: 0,
+    type: 'unknown',
+    handlerName: null,
+    codec: null,
+    compressorName: null,
+    width: null,
+    height: null,
+    duration: null,
+    creationTime: null,
+    modificationTime: null,
+    edits: 0,
+  };
+
+  const tkhd = child(view, trak, 'tkhd');
+  if (tkhd) {
+    const { creation, modification, fieldsEnd } = readTimes(view, tkhd);
+    track.id = view.getUint32(fieldsEnd);
+    track.creationTime = macTime(creation);
+    track.modificationTime = macTime(modification);
+    // Width and height are 16.16 fixed point at the end of the box
+    track.width = view.getUint32(tkhd.end - 8) / 65536 || null;
+    track.height = view.getUint32(tkhd.end - 4) / 65536 || null;
+  }
+
+  const elst = descend(view, trak, ['edts', 'elst']);
+  if (elst) {
+    track.edits = view.getUint32(elst.start + 4);
+  }
+
+  const mdia = child(view, trak, 'mdia');
+  if (!mdia) return track;
+
+  const mdhd = child(view, mdia, 'mdhd');
+  if (mdhd) {
+    const { fieldsEnd, wide } = readTimes(view, mdhd);
+    const timescale = view.getUint32(fieldsEnd);
+    const duration = wide ? readUint64(view, fieldsEnd + 4) : view.getUint32(fieldsEnd + 4);
+    track.duration = timescale > 0 ? duration / timescale : null;
+  }
+
+  const hdlr = child(view, mdia, 'hdlr');
+  if (hdlr) {
+    const { type, name } = readHandler(view, hdlr);
+    track.type = type;
+    track.handlerName = name;
+  }
+
+  const stsd = descend(view, mdia, ['minf', 'stbl', 'stsd']);
+  if (stsd && view.getUint32(stsd.start + 4) > 0) {
+    const [entry] = readBoxes(view, stsd.start + 8, stsd.end);
+    if (entry) {
+      track.codec = entry.type;
+      // Visual sample entries keep a 32-byte Pascal string 42 bytes into the entry
+      if (track.type === 'vide' && entry.end - entry.start >= 74) {
+        const length = Math.min(view.getUint8(entry.start + 42), 31);
+        const name = cleanString(latin1.decode(new Uint8Array(view.buffer, view.byteOffset + entry.start + 43, length)));
+        track.compressorName = name || null;
+      }
+    }
+  }
+
+  return track;
+}
+
+function findAnomalies(metadata: Omit<ContainerMetadata, 'findings' | 'score'>): MetadataFinding[] {
+  const findings: MetadataFinding[] = [];
+  const videoTracks = metadata.tracks.filter((track) => track.type === 'vide');
+  const audioTracks = metadata.tracks.filter((track) => track.type === 'soun');
+
+  const strings = [
+    ...Object.entries(metadata.tags).map(([name, value]) => `${name}: ${value}`),
+    ...metadata.tracks.flatMap((track) => [track.handlerName, track.compressorName]),
+  ].filter((value): value is string => !!value);
+
+  const aiTool = strings.map((value) => value.match(AI_TOOL_PATTERN)).find(Boolean);
+  if (aiTool) {
+    findings.push({ severity: 'high', message: `Metadata names an AI video tool ("${aiTool[0]}")` });
+  }
+
+  const reencoder = strings.map((value) => value.match(REENCODE_PATTERN)).find(Boolean);
+  if (reencoder) {
+    findings.push({ severity: 'low', message: `Written by a transcoding tool ("${reencoder[0]}"), not a camera` });
+  }
+
+  if (!metadata.make && !metadata.model) {
+    findings.push({ severity: 'low', message: 'No camera make or model recorded' });
+  }
+
+  const times: [string, string | null, string | null][] = [
+    ['Movie', metadata.creationTime, metadata.modificationTime],
+    ...metadata.tracks.map(
+      (track): [string, string | null, string | null] => [`Track ${track.id}`, track.creationTime, track.modificationTime]
+    ),
+  ];
+  const reversed = times.find(
+    ([, created, modified]) =>
+      created && modified && Date.parse(created) - Date.parse(modified) > CLOCK_SKEW_SECONDS * 1000
+  );
+  if (reversed) {
+    findings.push({ severity: 'medium', message: `${reversed[0]} creation time is after its modification time` });
+  }
+  if (metadata.creationTime && Date.parse(metadata.creationTime) > Date.now() + CLOCK_SKEW_SECONDS * 1000) {
+    findings.push({ severity: 'medium', message: 'Creation time is in the future' });
+  }
+  if (!metadata.creationTime) {
+    findings.push({ severity: 'low', message: 'Creation time was never set' });
+  }
+
+  if (videoTracks.length > 0 && audioTracks.length === 0) {
+    findings.push({ severity: 'low', message: 'No audio track' });
+  }
+  if (videoTracks.length > 1) {
+    findings.push({ severity: 'medium', message: `${videoTracks.length} video tracks` });
+  }
+  if (metadata.tracks.some((track) => track.edits > 2)) {
+    findings.push({ severity: 'medium', message: 'Edit lists splice the media from several segments' });
+  }
+
+  const [video] = videoTracks;
+  const [audio] = audioTracks;
+  if (video?.duration && audio?.duration && Math.abs(video.duration - audio.duration) > 1) {
+    findings.push({
+      severity: 'low',
+      message: `Audio and video durations differ by ${Math.abs(video.duration - audio.duration).toFixed(1)}s`,
+    });
+  }
+
+  return findings;
+}
+
+/** Reads the ftyp and moov boxes; null when the file is not ISO-BMFF or has no readable moov */
+async function readMovieBoxes(file: Blob): Promise<{ ftyp: DataView | null; moov: DataView } | null> {
+  let ftyp: DataView | null = null;
+  let offset = 0;
+
+  // Walk the top level by headers only; mdat can be gigabytes
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    const type = fourCC(header, 4);
+    if (!TOP_LEVEL_BOXES.has(type)) return null;
+
+    let size = header.getUint32(0);
+    if (size === 1 && header.byteLength >= 16) size = readUint64(header, 8);
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+
+    if (type === 'ftyp') {
+      ftyp = new DataView(await file.slice(offset, offset + size).arrayBuffer());
+    } else if (type === 'moov') {
+      if (size > MAX_MOOV_SIZE) return null;
+      return { ftyp, moov: new DataView(await file.slice(offset, offset + size).arrayBuffer()) };
+    }
+    offset += size;
+  }
+
+  return null;
+}
+
+/**
+ * Reads container metadata from an MP4 or MOV file. Resolves with null for
+ * other containers and for files whose box structure cannot be read.
+ */
+export async function readContainerMetadata(file: Blob): Promise<ContainerMetadata | null> {
+  try {
+    const boxes = await readMovieBoxes(file);
+    if (!boxes) return null;
+
+    const { ftyp, moov } = boxes;
+    const [moovBox] = readBoxes(moov, 0, moov.byteLength);
+    const tags: Record<string, string> = {};
+
+    const majorBrand = ftyp ? fourCC(ftyp, 8) : null;
+    const compatibleBrands: string[] = [];
+    for (let brand = 16; ftyp && brand + 4 <= ftyp.byteLength; brand += 4) {
+      compatibleBrands.push(fourCC(ftyp, brand));
+    }
+
+    let creationTime: string | null = null;
+    let modificationTime: string | null = null;
+    let duration: number | null = null;
+    const tracks: ContainerTrack[] = [];
+
+    for (const box of readBoxes(moov, moovBox.start, moovBox.end)) {
+      if (box.type === 'mvhd') {
+        const { creation, modification, fieldsEnd, wide } = readTimes(moov, box);
+        const timescale = moov.getUint32(fieldsEnd);
+        const length = wide ? readUint64(moov, fieldsEnd + 4) : moov.getUint32(fieldsEnd + 4);
+        creationTime = macTime(creation);
+        modificationTime = macTime(modification);
+        duration = timescale > 0 ? length / timescale : null;
+      } else if (box.type === 'trak') {
+        tracks.push(readTrack(moov, box));
+      } else if (box.type === 'udta') {
+        readUserData(moov, box, tags);
+      } else if (box.type === 'meta') {
+        readMeta(moov, box, tags);
+      }
+    }
+
+    const aliased = (alias: string) =>
+      Object.entries(tags).find(([name]) => TAG_ALIASES[name] === alias)?.[1] ?? null;
+    const compressor = tracks.find((track) => track.compressorName)?.compressorName ?? null;
+
+    const metadata = {
+      format: majorBrand === 'qt  ' ? ('quicktime' as const) : ('mp4' as const),
+      majorBrand: majorBrand?.trim() || null,
+      compatibleBrands: compatibleBrands.map((brand) => brand.trim()).filter(Boolean),
+      creationTime,
+      modificationTime,
+      duration,
+      encoder: aliased('encoder') ?? compressor,
+      make: aliased('make'),
+      model: aliased('model'),
+      software: aliased('software'),
+      location: aliased('location'),
+      tags,
+      tracks,
+    };
+
+    const findings = findAnomalies(metadata);
+    const penalty = findings.reduce((sum, finding) => sum + SEVERITY_PENALTY[finding.severity], 0);
+
+    return { ...metadata, findings, score: Math.max(0, 1 - penalty) };
+  } catch (error) {
+    console.warn('Failed to read container metadata:', error);
+    return null;
+  }
+}
+
+/**
+ * Reads the sample sizes, decode times and sync samples of the first video
+ * track. Null for other containers and for fragmented files, whose sample
+ * tables live in the fragments instead of moov.
+ */
+export async function readVideoSamples(file: Blob): Promise<VideoSamples | null> {
+  try {
+    const boxes = await readMovieBoxes(file);
+    if (!boxes) return null;
+
+    const { moov } = boxes;
+    const [moovBox] = readBoxes(moov, 0, moov.byteLength);
+    let mdia: Box | undefined;
+    for (const box of readBoxes(moov, moovBox.start, moovBox.end)) {
+      const candidate = box.type === 'trak' ? child(moov, box, 'mdia') : undefined;
+      const hdlr = candidate && child(moov, candidate, 'hdlr');
+      if (hdlr && readHandler(moov, hdlr).type === 'vide') {
+        mdia = candidate;
+        break;
+      }
+    }
+    const mdhd = mdia && child(moov, mdia, 'mdhd');
+    const stbl = mdia && descend(moov, mdia, ['minf', 'stbl']);
+    if (!mdhd || !stbl) return null;
+
+    const { fieldsEnd } = readTimes(moov, mdhd);
+    const timescale = moov.getUint32(fieldsEnd);
+    const stsz = child(moov, stbl, 'stsz');
+    const stts = child(moov, stbl, 'stts');
+    if (!timescale || !stsz || !stts) return null;
+
+    // A non-zero default size means every sample has that size and no table follows
+    const defaultSize = moov.getUint32(stsz.start + 4);
+    const count = moov.getUint32(stsz.start + 8);
+    if (count === 0) return null;
+    const sizes = Array.from({ length: count }, (_, i) => defaultSize || moov.getUint32(stsz.start + 12 + i * 4));
+
+    const times: number[] = [];
+    let time = 0;
+    for (let entry = 0, entries = moov.getUint32(stts.start + 4); entry < entries && times.length < count; entry++) {
+      const sampleCount = moov.getUint32(stts.start + 8 + entry * 8);
+      const delta = moov.getUint32(stts.start + 12 + entry * 8);
+      for (let i = 0; i < sampleCount && times.length < count; i++) {
+        times.push(time / timescale);
+        time += delta;
+      }
+    }
+    while (times.length < count) times.push(time / timescale);
+
+    // Sample numbers in stss are 1-based
+    const stss = child(moov, stbl, 'stss');
+    const keyframes = stss
+      ? Array.from({ length: moov.getUint32(stss.start + 4) }, (_, i) => moov.getUint32(stss.start + 8 + i * 4) - 1)
+      : null;
+
+    return { sizes, times, keyframes };
+  } catch (error) {
+    console.warn('Failed to read video sample tables:', error);
+    return null;
+  }
+}
@@ -0,0 +1,554 @@
+/**
+ * Content Credentials (C2PA) verification for MP4 and MOV files, entirely in
+ * the browser. Finds the manifest store in its top-level uuid box, then
+ * checks the active manifest the way a C2PA validator does:
+ *
+ *   1. the COSE signature over the claim, and the signer's certificate chain
+ *      against the bundled trust list
+ *   2. the hash of every assertion the claim references
+ *   3. the hard binding: the BMFF or data hash over the file itself
+ *
+ * and reports who signed it, what created it and which edits it records.
+ */
+
+import { decodeCbor, encodeCbor, type CborValue } from '@/utils/cbor';
+import { C2PA_TRUST_ANCHORS } from '@/utils/c2paTrustList';
+import { createSha256 } from '@/utils/fileHash';
+import { parseCertificate, parsePem, verifyChain, verifySignature, type SignatureScheme } from '@/utils/x509';
+
+export interface ProvenanceAction {
+  /** e.g. "c2pa.created" or "c2pa.color_adjustments" */
+  action: string;
+  softwareAgent: string | null;
+  /** IPTC digital source type URI, when the action declares one */
+  digitalSourceType: string | null;
+  when: string | null;
+}
+
+export interface ContentCredentials {
+  /**
+   * valid: signature, assertion hashes and the file binding all check out;
+   * invalid: one of them does not, so the file or manifest was altered;
+   * incomplete: something could not be checked here, e.g. a fragmented MP4
+   */
+  status: 'valid' | 'invalid' | 'incomplete';
+  /** The signer's certificate chains to the bundled trust list */
+  trusted: boolean;
+  /** The manifest records that an AI model created the media */
+  aiGenerated: boolean;
+  /** The tool credited with creating AI-generated media */
+  aiTool: string | null;
+  claimGenerator: string | null;
+  title: string | null;
+  signer: {
+    commonName: string | null;
+    organization: string | null;
+    issuer: string | null;
+  } | null;
+  actions: ProvenanceAction[];
+  /** Titles of the ingredients (source files) the manifest lists */
+  ingredients: string[];
+  /** Manifests in the store; more than one means earlier provenance was carried along */
+  manifests: number;
+  /** Why the status is not valid, or why the signer is not trusted */
+  errors: string[];
+}
+
+interface JumbfBox {
+  type: string;
+  label: string | null;
+  /** Payload after the box header; what C2PA hashes for assertions */
+  payload: Uint8Array;
+  /** Content boxes of a superbox, after its description box */
+  children: JumbfBox[];
+}
+
+type CborMap = { [key: string]: CborValue };
+
+// Extended type of the top-level uuid box that holds a C2PA manifest store
+const C2PA_UUID = 'd8fec3d61b0e483c92975828877ec481';
+// Anything larger is not a manifest this app reads
+const MAX_MANIFEST_SIZE = 16 * 1024 * 1024;
+// The hard binding covers the whole file, which is read and hashed a slice at a time
+const HASH_CHUNK_SIZE = 16 * 1024 * 1024;
+// SHA-384 and SHA-512 go through WebCrypto, which needs every hashed byte in memory at once
+const MAX_BUFFERED_HASH_SIZE = 256 * 1024 * 1024;
+
+// COSE algorithm identifiers (RFC 9053) allowed by C2PA
+const COSE_SCHEMES: Record<string, SignatureScheme> = {
+  '-7': { kind: 'ecdsa', hash: 'SHA-256' },
+  '-35': { kind: 'ecdsa', hash: 'SHA-384' },
+  '-36': { kind: 'ecdsa', hash: 'SHA-512' },
+  '-37': { kind: 'rsa-pss', hash: 'SHA-256', saltLength: 32 },
+  '-38': { kind: 'rsa-pss', hash: 'SHA-384', saltLength: 48 },
+  '-39': { kind: 'rsa-pss', hash: 'SHA-512', saltLength: 64 },
+  '-8': { kind: 'ed25519' },
+};
+// COSE header label of the signer's certificate chain
+const X5CHAIN = '33';
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+// IPTC digital source types that mean a model generated the content
+const AI_SOURCE_TYPES = ['trainedAlgorithmicMedia', 'algorithmicMedia'];
+
+const HARD_BINDINGS = ['c2pa.hash.bmff', 'c2pa.hash.bmff.v2', 'c2pa.hash.bmff.v3', 'c2pa.hash.data'];
+
+const latin1 = new TextDecoder('latin1');
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const equalBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const isMap = (value: CborValue): value is CborMap =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+
+const asString = (value: CborValue) => (typeof value === 'string' ? value : null);
+
+const asBytes = (value: CborValue) => (value instanceof Uint8Array ? value : null);
+
+const asNumber = (value: CborValue) => (typeof value === 'number' ? value : null);
+
+async function digest(algorithm: string, data: Uint8Array) {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data));
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const uint64 = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(value));
+  return bytes;
+};
+
+/** Offsets, types and sizes of the file's top-level boxes, read header by header */
+async function readTopLevelBoxes(file: Blob) {
+  const boxes: { type: string; start: number; size: number; extendedType: string | null }[] = [];
+  for (let offset = 0; offset + 8 <= file.size; ) {
+    const header = new DataView(await file.slice(offset, offset + 32).arrayBuffer());
+    let size = header.getUint32(0);
+    const type = latin1.decode(new Uint8Array(header.buffer, 4, 4));
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(header.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize || offset + size > file.size || !/^[\x20-\x7e]{4}$/.test(type)) break;
+
+    const extendedType =
+      type === 'uuid' && header.byteLength >= headerSize + 16
+        ? toHex(new Uint8Array(header.buffer, headerSize, 16))
+        : null;
+    boxes.push({ type, start: offset, size, extendedType });
+    offset += size;
+  }
+  return boxes;
+}
+
+/** Parses JUMBF boxes; superboxes are labeled by their jumd description box */
+function parseJumbf(bytes: Uint8Array): JumbfBox[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: JumbfBox[] = [];
+
+  for (let offset = 0; offset + 8 <= bytes.length; ) {
+    let size = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = bytes.length - offset;
+    }
+    if (size < headerSize || offset + size > bytes.length) {
+      throw new Error('Malformed JUMBF box');
+    }
+
+    const payload = bytes.subarray(offset + headerSize, offset + size);
+    const box: JumbfBox = { type, label: null, payload, children: [] };
+
+    if (type === 'jumb') {
+      const [description, ...contents] = parseJumbf(payload);
+      if (description?.type !== 'jumd') {
+        throw new Error('JUMBF superbox without a description box');
+      }
+      // 16-byte content type, a toggles byte, then the label when toggle 0x02 is set
+      const toggles = description.payload[16];
+      if (toggles & 0x02) {
+        const end = description.payload.indexOf(0, 17);
+        box.label = new TextDecoder().decode(description.payload.subarray(17, end === -1 ? undefined : end));
+      }
+      box.children = contents;
+    }
+
+    boxes.push(box);
+    offset += size;
+  }
+
+  return boxes;
+}
+
+const findLabeled = (boxes: JumbfBox[], label: string) => boxes.find((box) => box.label === label);
+
+/** Decoded content of an assertion or claim superbox: its cbor or json content box */
+function readContent(box: JumbfBox): CborValue {
+  const cbor = box.children.find((child) => child.type === 'cbor');
+  if (cbor) return decodeCbor(cbor.payload);
+  const json = box.children.find((child) => child.type === 'json');
+  if (json) return JSON.parse(new TextDecoder().decode(json.payload));
+  return null;
+}
+
+const softwareAgentName = (value: CborValue) =>
+  asString(value) ?? (isMap(value) ? asString(value.name) : null);
+
+/** Checks the COSE_Sign1 signature over the claim; returns the signer and any problems */
+async function verifyClaimSignature(claimBytes: Uint8Array, signatureBox: JumbfBox) {
+  const errors: string[] = [];
+  const cose = readContent(signatureBox);
+  if (!Array.isArray(cose) || cose.length !== 4) {
+    return { signer: null, trusted: false, errors: ['The claim signature is malformed'] };
+  }
+
+  const [protectedBytes, unprotectedHeader, , signature] = cose;
+  const protectedHeader = protectedBytes instanceof Uint8Array && protectedBytes.length > 0 ? decodeCbor(protectedBytes) : {};
+  if (!(protectedBytes instanceof Uint8Array) || !isMap(protectedHeader) || !(signature instanceof Uint8Array)) {
+    return { signer: null, trusted: false, errors: ['The claim signature is malformed'] };
+  }
+
+  // C2PA 1.x carries the chain in the unprotected header, 2.x in the protected one
+  const x5chain = protectedHeader[X5CHAIN] ?? (isMap(unprotectedHeader) ? unprotectedHeader[X5CHAIN] : undefined);
+  const chainDer = (Array.isArray(x5chain) ? x5chain : [x5chain]).filter((cert): cert is Uint8Array => cert instanceof Uint8Array);
+  if (chainDer.length === 0) {
+    return { signer: null, trusted: false, errors: ['The claim signature has no certificate'] };
+  }
+
+  const chain = chainDer.map(parseCertificate);
+  const [leaf] = chain;
+  const signer = {
+    commonName: leaf.subject.commonName,
+    organization: leaf.subject.organization,
+    issuer: leaf.issuer.commonName ?? leaf.issuer.organization,
+  };
+
+  const scheme = COSE_SCHEMES[String(protectedHeader['1'])];
+  if (!scheme) {
+    return { signer, trusted: false, errors: [`Unsupported signature algorithm ${String(protectedHeader['1'])}`] };
+  }
+
+  // Sig_structure for a detached payload: the claim bytes take the payload's place
+  const toBeSigned = encodeCbor(['Signature1', protectedBytes, new Uint8Array(0), claimBytes]);
+  if (!(await verifySignature(leaf, scheme, toBeSigned, signature))) {
+    errors.push('The claim signature does not match the claim');
+  }
+
+  // Without parsing the signature's timestamp token, the chain has to be valid now
+  const anchors = parsePem(C2PA_TRUST_ANCHORS).map(parseCertificate);
+  const chainResult = await verifyChain(chain, anchors, new Date());
+  errors.push(...chainResult.errors);
+
+  return { signer, trusted: chainResult.trusted, errors };
+}
+
+/**
+ * Hashes the file minus the excluded byte ranges; `offsets` inserts box
+ * offsets, as BMFF v2 hashing does. Null when the algorithm cannot be
+ * streamed and the bytes are too many to hold.
+ */
+async function hashRanges(
+  file: Blob,
+  algorithm: string,
+  excluded: { start: number; length: number }[],
+  offsets: number[] = []
+): Promise<Uint8Array | null> {
+  const parts: (Uint8Array | { start: number; end: number })[] = [];
+  const ranges = [...excluded].sort((a, b) => a.start - b.start);
+  const pendingOffsets = [...offsets].sort((a, b) => a - b);
+  let position = 0;
+
+  const include = (end: number) => {
+    while (position < end) {
+      while (pendingOffsets.length > 0 && pendingOffsets[0] <= position) {
+        parts.push(uint64(pendingOffsets.shift()!));
+      }
+      const next = Math.min(end, pendingOffsets[0] ?? end);
+      const stop = next > position ? next : end;
+      parts.push({ start: position, end: stop });
+      position = stop;
+    }
+  };
+
+  for (const range of ranges) {
+    include(Math.max(position, range.start));
+    position = Math.max(position, range.start + range.length);
+  }
+  include(file.size);
+
+  const sha256 = algorithm === 'SHA-256' ? createSha256() : null;
+  const size = parts.reduce((sum, part) => sum + (part instanceof Uint8Array ? part.length : part.end - part.start), 0);
+  if (!sha256 && size > MAX_BUFFERED_HASH_SIZE) return null;
+
+  const buffered: Uint8Array[] = [];
+  const feed = (bytes: Uint8Array) => (sha256 ? sha256.update(bytes) : buffered.push(bytes));
+  for (const part of parts) {
+    if (part instanceof Uint8Array) {
+      feed(part);
+      continue;
+    }
+    for (let offset = part.start; offset < part.end; offset += HASH_CHUNK_SIZE) {
+      feed(await readBytes(file, offset, Math.min(part.end, offset + HASH_CHUNK_SIZE)));
+    }
+  }
+
+  return sha256 ? sha256.digest() : digest(algorithm, concat(buffered));
+}
+
+type TopLevelBox = Awaited<ReturnType<typeof readTopLevelBoxes>>[number];
+
+/** Whether the box is the one an exclusion names: same type, length and data at the given offsets */
+async function matchesExclusion(file: Blob, box: TopLevelBox, exclusion: CborMap) {
+  if (asString(exclusion.xpath) !== `/${box.type}`) return false;
+  if (asNumber(exclusion.length) !== null && asNumber(exclusion.length) !== box.size) return false;
+  const data = Array.isArray(exclusion.data) ? exclusion.data.filter(isMap) : [];
+  for (const entry of data) {
+    const value = asBytes(entry.value);
+    const offset = box.start + (asNumber(entry.offset) ?? 0);
+    if (!value || !equalBytes(await readBytes(file, offset, offset + value.length), value)) return false;
+  }
+  return true;
+}
+
+/**
+ * Checks a BMFF hard binding. Only top-level exclusions are supported, which
+ * is what C2PA signers write for unfragmented files.
+ */
+async function verifyBmffHash(
+  file: Blob,
+  boxes: TopLevelBox[],
+  assertion: CborMap,
+  version: number,
+  algorithm: string
+): Promise<'match' | 'mismatch' | 'unsupported'> {
+  const expected = asBytes(assertion.hash);
+  if (!expected || assertion.merkle) return 'unsupported';
+
+  const exclusions = Array.isArray(assertion.exclusions) ? assertion.exclusions.filter(isMap) : [];
+  if (exclusions.some((exclusion) => !/^\/[^/[\]]{1,4}$/.test(asString(exclusion.xpath) ?? ''))) {
+    return 'unsupported';
+  }
+
+  const excluded: { start: number; length: number }[] = [];
+  const offsets: number[] = [];
+
+  for (const box of boxes) {
+    let matching: CborMap | undefined;
+    for (const exclusion of exclusions) {
+      if (await matchesExclusion(file, box, exclusion)) {
+        matching = exclusion;
+        break;
+      }
+    }
+
+    const subsets = matching && Array.isArray(matching.subset) ? matching.subset.filter(isMap) : [];
+    if (!matching) {
+      offsets.push(box.start);
+    } else if (subsets.length > 0) {
+      offsets.push(box.start);
+      for (const subset of subsets) {
+        const offset = asNumber(subset.offset) ?? 0;
+        const length = asNumber(subset.length) || box.size - offset;
+        excluded.push({ start: box.start + offset, length });
+      }
+    } else {
+      excluded.push({ start: box.start, length: box.size });
+    }
+  }
+
+  // v2 and later also hash the offset of every box that is not fully excluded
+  const actual = await hashRanges(file, algorithm, excluded, version >= 2 ? offsets : []);
+  if (!actual) return 'unsupported';
+  return equalBytes(actual, expected) ? 'match' : 'mismatch';
+}
+
+async function verifyDataHash(file: Blob, assertion: CborMap, algorithm: string) {
+  const expected = asBytes(assertion.hash);
+  if (!expected) return 'unsupported' as const;
+  const exclusions = (Array.isArray(assertion.exclusions) ? assertion.exclusions.filter(isMap) : []).map((exclusion) => ({
+    start: asNumber(exclusion.start) ?? 0,
+    length: asNumber(exclusion.length) ?? 0,
+  }));
+  const actual = await hashRanges(file, algorithm, exclusions);
+  if (!actual) return 'unsupported' as const;
+  return equalBytes(actual, expected) ? ('match' as const) : ('mismatch' as const);
+}
+
+/**
+ * Verifies the Content Credentials embedded in an MP4 or MOV file. Resolves
+ * with null when the file carries none, or is not an ISO-BMFF file at all.
+ */
+export async function readContentCredentials(file: Blob): Promise<ContentCredentials | null> {
+  let boxes: TopLevelBox[];
+  try {
+    boxes = await readTopLevelBoxes(file);
+  } catch {
+    return null;
+  }
+
+  const storeBox = boxes.find((box) => box.type === 'uuid' && box.extendedType === C2PA_UUID);
+  if (!storeBox) return null;
+
+  const credentials: ContentCredentials = {
+    status: 'invalid',
+    trusted: false,
+    aiGenerated: false,
+    aiTool: null,
+    claimGenerator: null,
+    title: null,
+    signer: null,
+    actions: [],
+    ingredients: [],
+    manifests: 0,
+    errors: [],
+  };
+
+  try {
+    if (storeBox.size > MAX_MANIFEST_SIZE) {
+      throw new Error('The manifest store is too large to read');
+    }
+
+    // Header (assumed 8 bytes), 16-byte extended type, version and flags, then a
+    // purpose string and, for "manifest", an 8-byte offset to merkle data
+    const uuidPayload = await readBytes(file, storeBox.start + 8 + 16 + 4, storeBox.start + storeBox.size);
+    const purposeEnd = uuidPayload.indexOf(0);
+    const purpose = latin1.decode(uuidPayload.subarray(0, purposeEnd));
+    if (purpose !== 'manifest') {
+      return null;
+    }
+
+    const [store] = parseJumbf(uuidPayload.subarray(purposeEnd + 1 + 8));
+    if (store?.label !== 'c2pa') {
+      throw new Error('The manifest store is malformed');
+    }
+
+    const manifests = store.children.filter((box) => box.type === 'jumb');
+    credentials.manifests = manifests.length;
+    // The active manifest is the last one in the store
+    const manifest = manifests[manifests.length - 1];
+    const claimBox = manifest && (findLabeled(manifest.children, 'c2pa.claim.v2') ?? findLabeled(manifest.children, 'c2pa.claim'));
+    const signatureBox = manifest && findLabeled(manifest.children, 'c2pa.signature');
+    const assertionStore = manifest && findLabeled(manifest.children, 'c2pa.assertions');
+    const claimBytes = claimBox?.children.find((box) => box.type === 'cbor')?.payload;
+    if (!claimBytes || !signatureBox || !assertionStore) {
+      throw new Error('The active manifest is missing its claim, signature or assertions');
+    }
+
+    const claim = decodeCbor(claimBytes);
+    if (!isMap(claim)) {
+      throw new Error('The claim is malformed');
+    }
+
+    const generatorInfo = Array.isArray(claim.claim_generator_info) ? claim.claim_generator_info[0] : claim.claim_generator_info;
+    credentials.claimGenerator =
+      asString(claim.claim_generator) ??
+      (isMap(generatorInfo) ? [asString(generatorInfo.name), asString(generatorInfo.version)].filter(Boolean).join(' ') : null);
+    credentials.title = asString(claim['dc:title']);
+
+    // 1. Signature and certificate chain
+    const signature = await verifyClaimSignature(claimBytes, signatureBox);
+    credentials.signer = signature.signer;
+    credentials.trusted = signature.trusted;
+    credentials.errors.push(...signature.errors);
+    if (!signature.trusted && signature.signer) {
+      credentials.errors.push('The signer is not on the trust list');
+    }
+
+    // 2. Every referenced assertion must hash to what the claim recorded
+    const references = [claim.assertions, claim.created_assertions, claim.gathered_assertions]
+      .flatMap((list) => (Array.isArray(list) ? list : []))
+      .filter(isMap);
+    const claimAlgorithm = HASH_ALGORITHMS[asString(claim.alg) ?? 'sha256'] ?? 'SHA-256';
+    const assertions = new Map<string, CborValue>();
+
+    for (const reference of references) {
+      const label = (asString(reference.url) ?? '').split('/').pop() ?? '';
+      const box = findLabeled(assertionStore.children, label);
+      const expected = asBytes(reference.hash);
+      const algorithm = HASH_ALGORITHMS[asString(reference.alg) ?? ''] ?? claimAlgorithm;
+      if (!box || !expected) {
+        credentials.errors.push(`Assertion ${label} is missing`);
+        continue;
+      }
+      if (!equalBytes(await digest(algorithm, box.payload), expected)) {
+        credentials.errors.push(`Assertion ${label} was modified after signing`);
+      }
+      assertions.set(label, readContent(box));
+    }
+
+    // 3. The hard binding ties the manifest to these exact file bytes
+    let bindingChecked = false;
+    let bindingUnsupported = false;
+    for (const [label, value] of assertions) {
+      const base = label.replace(/__\d+$/, '');
+      if (!HARD_BINDINGS.includes(base) || !isMap(value)) continue;
+      const algorithm = HASH_ALGORITHMS[asString(value.alg) ?? ''] ?? claimAlgorithm;
+      const outcome = base === 'c2pa.hash.data'
+        ? await verifyDataHash(file, value, algorithm)
+        : await verifyBmffHash(file, boxes, value, Number(base.match(/v(\d)$/)?.[1] ?? 1), algorithm);
+      if (outcome === 'mismatch') credentials.errors.push('The video was modified after it was signed');
+      if (outcome === 'unsupported') bindingUnsupported = true;
+      bindingChecked = true;
+    }
+    if (!bindingChecked) {
+      credentials.errors.push('The manifest is not bound to the file contents');
+    }
+
+    // Provenance: actions and ingredients
+    for (const [label, value] of assertions) {
+      const base = label.replace(/__\d+$/, '');
+      if ((base === 'c2pa.actions' || base === 'c2pa.actions.v2') && isMap(value) && Array.isArray(value.actions)) {
+        credentials.actions.push(
+          ...value.actions.filter(isMap).map((action) => ({
+            action: asString(action.action) ?? 'unknown',
+            softwareAgent: softwareAgentName(action.softwareAgent),
+            digitalSourceType: asString(action.digitalSourceType),
+            when: asString(action.when),
+          }))
+        );
+      } else if (base.startsWith('c2pa.ingredient') && isMap(value)) {
+        credentials.ingredients.push(asString(value.title) ?? asString(value['dc:title']) ?? 'Untitled ingredient');
+      }
+    }
+
+    const created = credentials.actions.find(
+      (action) =>
+        action.action === 'c2pa.created' &&
+        AI_SOURCE_TYPES.some((type) => action.digitalSourceType?.endsWith(`/${type}`))
+    );
+    credentials.aiGenerated = !!created;
+    credentials.aiTool = created ? created.softwareAgent ?? credentials.claimGenerator : null;
+
+    const integrityErrors = credentials.errors.filter((error) => error !== 'The signer is not on the trust list');
+    credentials.status = integrityErrors.length > 0 ? 'invalid' : bindingUnsupported ? 'incomplete' : 'valid';
+  } catch (error) {
+    credentials.errors.push(error instanceof Error ? error.message : 'The manifest could not be read');
+  }
+
+  return credentials;
+}
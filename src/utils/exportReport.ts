@@ -0,0 +1,226 @@
+import type {
+  AnalysisResult,
+  AudioAnalysis,
+  ExtractionParameters,
+  FaceAnalysis,
+  ModelVerdict,
+} from '@/hooks/useVideoAnalysis';
+import type { CompressionForensics } from '@/utils/compressionForensics';
+import type { ContainerMetadata } from '@/utils/containerMetadata';
+import type { ContentCredentials } from '@/utils/contentCredentials';
+import type { FrameForensics, ImageForensics } from '@/utils/imageForensics';
+import type { ReportSignature } from '@/utils/reportSignature';
+
+/**
+ * Machine-readable exports for ingestion pipelines. The JSON layout is
+ * described by public/schemas/analysis-report.v1.schema.json; bump the minor
+ * version for additive changes and publish a new schema file for breaking ones.
+ */
+export const REPORT_SCHEMA_VERSION = '1.8.0';
+export const REPORT_SCHEMA_PATH = '/schemas/analysis-report.v1.schema.json';
+
+export interface AnalysisReportV1 {
+  $schema: string;
+  schemaVersion: string;
+  generatedAt: string;
+  file: {
+    name: string;
+    sha256: string | null;
+    size: number | null;
+    duration: number | null;
+  };
+  analysis: {
+    id: string | null;
+    analyzedAt: string | null;
+    verdict: AnalysisResult['verdict'];
+    confidence: number;
+    details: AnalysisResult['details'];
+    temporal: AnalysisResult['temporal'];
+    framesAnalyzed: number;
+    processingTime: number;
+  };
+  models: {
+    ensembleStrategy: string;
+    providers: string[];
+    promptVersion: string | null;
+  };
+  extraction: ExtractionParameters | null;
+  frames: {
+    frameIndex: number;
+    timestamp: number;
+    isArtificial: boolean;
+    confidence: number;
+    suspicion: number;
+    issues: string[];
+    sampling: { strategy: string; shotIndex: number | null; exact: boolean };
+    faces: FaceAnalysis[] | null;
+    models: ModelVerdict[] | null;
+    /** Added in 1.6.0 */
+    forensics?: FrameForensics | null;
+  }[];
+  /** Added in 1.1.0 */
+  signature?: ReportSignature | null;
+  /** Added in 1.4.0 */
+  fileMetadata?: ContainerMetadata | null;
+  /** Added in 1.5.0 */
+  provenance?: ContentCredentials | null;
+  /** Added in 1.6.0; the per-frame measurements are on each frame */
+  forensics?: Omit<ImageForensics, 'frames'> | null;
+  /** Added in 1.7.0 */
+  compression?: CompressionForensics | null;
+  /** Added in 1.8.0 */
+  audio?: AudioAnalysis | null;
+}
+
+export const buildJsonReport = (result: AnalysisResult, fileName: string): AnalysisReportV1 => ({
+  $schema: new URL(REPORT_SCHEMA_PATH, window.location.origin).toString(),
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  generatedAt: new Date().toISOString(),
+  file: {
+    name: fileName,
+    sha256: result.fileHash ?? null,
+    size: result.fileSize ?? null,
+    duration: result.duration > 0 ? result.duration : null,
+  },
+  analysis: {
+    id: result.id ?? null,
+    analyzedAt: result.analyzedAt ?? null,
+    verdict: result.verdict,
+    confidence: result.confidence,
+    details: result.details,
+    temporal: result.temporal,
+    framesAnalyzed: result.framesAnalyzed,
+    processingTime: result.processingTime,
+  },
+  models: {
+    ensembleStrategy: result.ensemble.strategy,
+    providers: result.ensemble.providers,
+    promptVersion: result.promptVersion ?? null,
+  },
+  extraction: result.extraction ?? null,
+  frames: [...result.frameAnalyses]
+    .sort((a, b) => a.frameIndex - b.frameIndex)
+    .map((frame) => ({
+      frameIndex: frame.frameIndex,
+      timestamp: frame.timestamp,
+      isArtificial: frame.isArtificial,
+      confidence: frame.confidence,
+      suspicion: frame.isArtificial ? frame.confidence : 1 - frame.confidence,
+      issues: frame.issues,
+      sampling: {
+        strategy: frame.sampling.strategy,
+        shotIndex: frame.sampling.shotIndex ?? null,
+        exact: frame.sampling.exact,
+      },
+      faces: frame.faces ?? null,
+      models: frame.models ?? null,
+      forensics: frame.forensics ?? null,
+    })),
+  signature: result.signature ?? null,
+  fileMetadata: result.fileMetadata ?? null,
+  provenance: result.provenance ?? null,
+  forensics: result.forensics
+    ? {
+        score: result.forensics.score,
+        elaInconsistency: result.forensics.elaInconsistency,
+        noiseInconsistency: result.forensics.noiseInconsistency,
+        framesAnalyzed: result.forensics.framesAnalyzed,
+      }
+    : null,
+  compression: result.compression ?? null,
+  audio: result.audio ?? null,
+});
+
+const CSV_COLUMNS = [
+  'analysis_id',
+  'file_sha256',
+  'frame_index',
+  'timestamp_s',
+  'verdict',
+  'confidence',
+  'suspicion',
+  'sampling_strategy',
+  'shot_index',
+  'exact_frame',
+  'faces_detected',
+  'suspicious_faces',
+  'model_verdicts',
+  'issues',
+] as const;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+const escapeCsv = (value: string | number | boolean | null) => {
+  if (value === null) return '';
+  // Spreadsheets run text cells starting with these as formulas; numbers stay numbers
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per analyzed frame with a fixed header. Lists inside a cell
+ * (model verdicts, issues) are joined with " | ".
+ */
+export const buildCsvReport = (result: AnalysisResult): string => {
+  const report = buildJsonReport(result, '');
+
+  const rows = report.frames.map((frame) => [
+    report.analysis.id,
+    report.file.sha256,
+    frame.frameIndex,
+    frame.timestamp.toFixed(3),
+    frame.isArtificial ? 'ai-generated' : 'real',
+    frame.confidence.toFixed(4),
+    frame.suspicion.toFixed(4),
+    frame.sampling.strategy,
+    frame.sampling.shotIndex,
+    frame.sampling.exact,
+    frame.faces === null ? null : frame.faces.length,
+    frame.faces === null ? null : frame.faces.filter((face) => face.isArtificial).length,
+    frame.models
+      ?.map((model) => `${model.provider}=${model.isArtificial ? 'ai-generated' : 'real'}:${model.confidence.toFixed(4)}`)
+      .join(' | ') ?? null,
+    frame.issues.join(' | '),
+  ]);
+
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+export interface BatchReportEntry {
+  fileName: string;
+  result: AnalysisResult;
+}
+
+const BATCH_CSV_COLUMNS = [
+  'file_name',
+  'file_sha256',
+  'analysis_id',
+  'verdict',
+  'confidence',
+  'face_consistency',
+  'temporal_coherence',
+  'artifact_score',
+  'compression_analysis',
+  'frames_analyzed',
+  'processing_time_s',
+  'analyzed_at',
+] as const;
+
+/** One row per video for a finished batch, using the same escaping as the per-frame export. */
+export const buildBatchCsvReport = (entries: BatchReportEntry[]): string => {
+  const rows = entries.map(({ fileName, result }) => [
+    fileName,
+    result.fileHash ?? null,
+    result.id ?? null,
+    result.verdict,
+    result.confidence.toFixed(4),
+    result.details.faceConsistency === null ? null : result.details.faceConsistency.toFixed(4),
+    result.details.temporalCoherence.toFixed(4),
+    result.details.artifactScore.toFixed(4),
+    result.details.compressionAnalysis.toFixed(4),
+    result.framesAnalyzed,
+    result.processingTime.toFixed(2),
+    result.analyzedAt ?? null,
+  ]);
+
+  return [BATCH_CSV_COLUMNS, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,129 @@
+/**
+ * Localizes faces in extracted frames with MediaPipe's BlazeFace model and
+ * produces tight crops so the analyzer sees faces at full resolution.
+ */
+
+import { FaceDetector, FilesetResolver } from '@mediapipe/tasks-vision';
+
+/** Bounding box normalized to the frame size (0-1) */
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+export interface FrameFaces {
+  boxes: FaceBox[];
+  crops: string[];
+}
+
+const WASM_BASE_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.35/wasm';
+const MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite';
+
+const MIN_CONFIDENCE = 0.6;
+const MAX_FACES_PER_FRAME = 3;
+// Padding around the detected box so hairline, ears and jaw seams stay in the crop
+const CROP_MARGIN = 0.25;
+const MAX_CROP_SIZE = 512;
+
+let detectorPromise: Promise<FaceDetector> | null = null;
+
+const getDetector = () => {
+  if (!detectorPromise) {
+    detectorPromise = FilesetResolver.forVisionTasks(WASM_BASE_URL)
+      .then((fileset) =>
+        FaceDetector.createFromOptions(fileset, {
+          baseOptions: { modelAssetPath: MODEL_URL },
+          runningMode: 'IMAGE',
+          minDetectionConfidence: MIN_CONFIDENCE,
+        })
+      )
+      .catch((error) => {
+        // Allow a retry on the next analysis
+        detectorPromise = null;
+        throw error;
+      });
+  }
+  return detectorPromise;
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load frame image'));
+    image.src = src;
+  });
+
+function cropFace(image: HTMLImageElement, box: FaceBox, quality: number): string {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const marginX = box.width * width * CROP_MARGIN;
+  const marginY = box.height * height * CROP_MARGIN;
+  const sx = Math.max(0, box.x * width - marginX);
+  const sy = Math.max(0, box.y * height - marginY);
+  const sw = Math.min(width - sx, box.width * width + 2 * marginX);
+  const sh = Math.min(height - sy, box.height * height + 2 * marginY);
+
+  const scale = Math.min(1, MAX_CROP_SIZE / Math.max(sw, sh));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+/**
+ * Detects faces in each frame and crops the largest ones. Frames where
+ * detection did not run (detector failed to load or errored) are null, so
+ * callers can tell "no face found" apart from "not checked".
+ */
+export async function detectFacesInFrames(
+  frames: string[],
+  options: { quality?: number; onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+): Promise<(FrameFaces | null)[]> {
+  const { quality = 0.9, onProgress, signal } = options;
+
+  let detector: FaceDetector;
+  try {
+    detector = await getDetector();
+  } catch (error) {
+    console.warn('Face detection unavailable:', error);
+    return frames.map(() => null);
+  }
+
+  const results: (FrameFaces | null)[] = [];
+
+  for (let i = 0; i < frames.length; i++) {
+    signal?.throwIfAborted();
+    try {
+      const image = await loadImage(frames[i]);
+      const { detections } = detector.detect(image);
+
+      const boxes: FaceBox[] = detections
+        .filter((d) => d.boundingBox)
+        .map((d) => ({
+          x: d.boundingBox!.originX / image.naturalWidth,
+          y: d.boundingBox!.originY / image.naturalHeight,
+          width: d.boundingBox!.width / image.naturalWidth,
+          height: d.boundingBox!.height / image.naturalHeight,
+          score: d.categories[0]?.score ?? 0,
+        }))
+        .sort((a, b) => b.width * b.height - a.width * a.height)
+        .slice(0, MAX_FACES_PER_FRAME);
+
+      results.push({ boxes, crops: boxes.map((box) => cropFace(image, box, quality)) });
+    } catch (error) {
+      console.warn(`Face detection failed on frame ${i}:`, error);
+      results.push(null);
+    }
+    onProgress?.(((i + 1) / frames.length) * 100);
+  }
+
+  return results;
+}
@@ -1,124 +1,173 @@
 /**
- * Extracts frames from a video file using HTML5 Canvas API
+ * Extracts frames from a video file, decoding with WebCodecs in a worker
+ * where supported and seeking an HTML5 video element otherwise
  */
 
+import { allocateFrames, detectShots, summarizeScanFrame } from "./adaptiveSampling";
+import { openFrameSource, type ExtractionBackend, type FrameRequest, type FrameSource } from "./frameSources";
+
+/**
+ * uniform: evenly spaced across the duration.
+ * adaptive: scans for shot boundaries first and spreads the budget per shot.
+ */
+export type SamplingStrategy = "uniform" | "adaptive";
+
+export interface ExtractedFrame {
+  dataUrl: string;
+  timestamp: number;
+  /** Low-resolution frames starting at `timestamp`, spaced `burstInterval` apart */
+  burst?: ImageData[];
+  strategy: SamplingStrategy;
+  /** Shot the frame was sampled from (adaptive strategy only) */
+  shotIndex?: number;
+  /** Whether this is the exact frame at `timestamp` rather than the nearest seekable one */
+  exact: boolean;
+}
+
 interface ExtractFramesOptions {
   maxFrames?: number;
   quality?: number;
+  strategy?: SamplingStrategy;
+  /** Defaults to "auto": WebCodecs with exact frames when available, seeking otherwise */
+  backend?: ExtractionBackend;
+  /** Closely spaced frames to capture per sample for temporal analysis (0 disables) */
+  burstSize?: number;
+  /** Seconds between burst frames */
+  burstInterval?: number;
   onProgress?: (progress: number) => void;
+  /** Stops decoding and rejects with the signal's reason */
+  signal?: AbortSignal;
 }
 
+const FRAME_WIDTH = 1280; // Cap at 1280px for efficiency
+const BURST_WIDTH = 160;
+const SCAN_WIDTH = 64;
+const MIN_SCAN_SAMPLES = 20;
+const MAX_SCAN_SAMPLES = 120;
+
 export async function extractFramesFromVideo(
   videoFile: File,
   options: ExtractFramesOptions = {}
-): Promise<string[]> {
-  const { maxFrames = 10, quality = 0.8, onProgress } = options;
-
-  return new Promise((resolve, reject) => {
-    const video = document.createElement("video");
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d");
-
-    if (!ctx) {
-      reject(new Error("Failed to get canvas context"));
-      return;
-    }
-
-    video.preload = "metadata";
-    video.muted = true;
-    video.playsInline = true;
-
-    const objectUrl = URL.createObjectURL(videoFile);
-    video.src = objectUrl;
-
-    video.onloadedmetadata = async () => {
-      const duration = video.duration;
-      
+): Promise<ExtractedFrame[]> {
+  const {
+    maxFrames = 10,
+    quality = 0.8,
+    strategy = "uniform",
+    backend = "auto",
+    burstSize = 0,
+    burstInterval = 1 / 15,
+    onProgress,
+    signal,
+  } = options;
+
+  const source = await openFrameSource(videoFile, backend);
+
+  try {
+    signal?.throwIfAborted();
+    const { duration } = source;
+
+    let plan: { timestamp: number; shotIndex?: number }[];
+    if (strategy === "adaptive") {
+      // Scanning takes the first half of the progress range
+      plan = await planAdaptiveFrames(source, maxFrames, (p) => onProgress?.(p / 2), signal);
+    } else {
       // Calculate frame intervals (evenly distributed across the video)
       const frameInterval = duration / (maxFrames + 1);
-      const timestamps: number[] = [];
-      
+      plan = [];
+
       for (let i = 1; i <= maxFrames; i++) {
-        timestamps.push(frameInterval * i);
+        plan.push({ timestamp: frameInterval * i });
       }
-
-      // Set canvas dimensions to match video
-      canvas.width = Math.min(video.videoWidth, 1280); // Cap at 1280px for efficiency
-      canvas.height = Math.min(
-        video.videoHeight,
-        (canvas.width / video.videoWidth) * video.videoHeight
-      );
-
-      const frames: string[] = [];
-
-      for (let i = 0; i < timestamps.length; i++) {
-        try {
-          const frame = await captureFrame(video, canvas, ctx, timestamps[i], quality);
-          frames.push(frame);
-          onProgress?.(((i + 1) / timestamps.length) * 100);
-        } catch (error) {
-          console.warn(`Failed to capture frame at ${timestamps[i]}s:`, error);
+    }
+    const progressOffset = strategy === "adaptive" ? 50 : 0;
+
+    // Each planned frame is followed by its burst, so the seek path reuses its position
+    const requests: FrameRequest[] = [];
+    const perFrame = burstSize > 1 ? 1 + burstSize : 1;
+    for (const { timestamp } of plan) {
+      requests.push({ timestamp, width: FRAME_WIDTH, format: "jpeg", quality });
+      if (burstSize > 1) {
+        const interval = Math.min(burstInterval, Math.max(0, duration - timestamp) / burstSize);
+        for (let k = 0; k < burstSize; k++) {
+          requests.push({ timestamp: timestamp + interval * k, width: BURST_WIDTH, format: "imageData" });
         }
       }
+    }
 
-      URL.revokeObjectURL(objectUrl);
-      video.remove();
-
-      if (frames.length === 0) {
-        reject(new Error("Failed to extract any frames from video"));
-      } else {
-        resolve(frames);
+    const results = await source.grab(
+      requests,
+      (completed) => onProgress?.(progressOffset + (completed / requests.length) * (100 - progressOffset)),
+      signal
+    );
+
+    const frames: ExtractedFrame[] = [];
+    plan.forEach(({ timestamp, shotIndex }, i) => {
+      const dataUrl = results[i * perFrame];
+      if (typeof dataUrl !== "string") return;
+
+      const frame: ExtractedFrame = { dataUrl, timestamp, strategy, shotIndex, exact: source.exact };
+      if (burstSize > 1) {
+        const burst = results.slice(i * perFrame + 1, (i + 1) * perFrame);
+        if (burst.every((b): b is ImageData => b instanceof ImageData)) {
+          frame.burst = burst;
+        }
       }
-    };
+      frames.push(frame);
+    });
 
-    video.onerror = () => {
-      URL.revokeObjectURL(objectUrl);
-      video.remove();
-      reject(new Error("Failed to load video file"));
-    };
+    if (frames.length === 0) {
+      throw new Error("Failed to extract any frames from video");
+    }
 
-    video.load();
-  });
+    return frames;
+  } finally {
+    source.close();
+  }
 }
 
-function captureFrame(
-  video: HTMLVideoElement,
-  canvas: HTMLCanvasElement,
-  ctx: CanvasRenderingContext2D,
-  timestamp: number,
-  quality: number
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const seekHandler = () => {
-      video.removeEventListener("seeked", seekHandler);
-      video.removeEventListener("error", errorHandler);
-
-      // Draw the current frame to canvas
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-
-      // Convert to base64 data URL
-      const dataUrl = canvas.toDataURL("image/jpeg", quality);
-      resolve(dataUrl);
-    };
-
-    const errorHandler = () => {
-      video.removeEventListener("seeked", seekHandler);
-      video.removeEventListener("error", errorHandler);
-      reject(new Error(`Failed to seek to ${timestamp}s`));
-    };
-
-    video.addEventListener("seeked", seekHandler);
-    video.addEventListener("error", errorHandler);
-
-    // Seek to the timestamp
-    video.currentTime = timestamp;
-  });
+/**
+ * Scans low-resolution frames across the whole video, splits it into shots
+ * and allocates the frame budget per shot.
+ */
+async function planAdaptiveFrames(
+  source: FrameSource,
+  budget: number,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<{ timestamp: number; shotIndex: number }[]> {
+  const { duration } = source;
+  const scanCount = Math.min(MAX_SCAN_SAMPLES, Math.max(MIN_SCAN_SAMPLES, Math.round(duration * 2)));
+  const requests: FrameRequest[] = Array.from({ length: scanCount }, (_, i) => ({
+    timestamp: (duration * (i + 0.5)) / scanCount,
+    width: SCAN_WIDTH,
+    format: "imageData",
+  }));
+
+  const results = await source.grab(requests, (completed) => onProgress?.((completed / scanCount) * 100), signal);
+
+  const samples = results.flatMap((result, i) =>
+    result instanceof ImageData ? [summarizeScanFrame(result, requests[i].timestamp)] : []
+  );
+
+  return allocateFrames(detectShots(samples, duration), budget);
 }
 
 /**
- * Estimates the number of frames to analyze based on video duration
+ * Estimates the number of frames to analyze based on video duration.
+ * Adaptive sampling gets a larger budget since it spreads frames across shots.
  */
-export function getRecommendedFrameCount(durationSeconds: number): number {
+export function getRecommendedFrameCount(
+  durationSeconds: number,
+  strategy: SamplingStrategy = "uniform"
+): number {
+  if (strategy === "adaptive") {
+    if (durationSeconds <= 10) return 6;
+    if (durationSeconds <= 30) return 10;
+    if (durationSeconds <= 60) return 14;
+    if (durationSeconds <= 180) return 18;
+    return 24; // Max 24 frames for longer videos
+  }
+
   if (durationSeconds <= 10) return 5;
   if (durationSeconds <= 30) return 8;
   if (durationSeconds <= 60) return 10;
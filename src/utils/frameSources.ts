@@ -0,0 +1,305 @@
+/**
+ * Frame sources used by extractFramesFromVideo: a WebCodecs decoder running
+ * in a worker, and the HTMLVideoElement seek path as a fallback.
+ */
+
+import type { DecoderRequest, DecoderResponse } from "@/workers/frameDecoder.worker";
+
+export type ExtractionBackend = "auto" | "webcodecs" | "element";
+
+export interface FrameRequest {
+  timestamp: number;
+  /** Maximum output width; frames are never upscaled */
+  width: number;
+  format: "jpeg" | "imageData";
+  quality?: number;
+}
+
+export type FrameResult = string | ImageData;
+
+export interface FrameSource {
+  backend: Exclude<ExtractionBackend, "auto">;
+  duration: number;
+  /** True when each request returns the exact frame presented at its timestamp */
+  exact: boolean;
+  /**
+   * Resolves with one result per request, or null where a frame could not be
+   * captured. Rejects with the signal's reason once it aborts.
+   */
+  grab: (
+    requests: FrameRequest[],
+    onProgress?: (completed: number) => void,
+    signal?: AbortSignal
+  ) => Promise<(FrameResult | null)[]>;
+  close: () => void;
+}
+
+// mp4box only demuxes ISO-BMFF containers
+const DEMUXABLE_TYPES = ["video/mp4", "video/quicktime"];
+// Reading and demuxing the file in the worker; past this the seek path takes over
+const OPEN_TIMEOUT_MS = 60_000;
+
+export function supportsWebCodecsExtraction(file: File): boolean {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof VideoDecoder !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    DEMUXABLE_TYPES.includes(file.type)
+  );
+}
+
+/**
+ * Picks a frame source for the file. "auto" prefers WebCodecs and falls back
+ * to the seek path when it is unsupported, the file cannot be opened, or a
+ * frame fails to decode later on.
+ */
+export async function openFrameSource(file: File, backend: ExtractionBackend = "auto"): Promise<FrameSource> {
+  if (backend !== "element" && supportsWebCodecsExtraction(file)) {
+    try {
+      const source = await openWebCodecsSource(file);
+      return backend === "auto" ? withSeekFallback(file, source) : source;
+    } catch (error) {
+      if (backend === "webcodecs") throw error;
+      console.warn("WebCodecs extraction unavailable, falling back to seeking:", error);
+    }
+  } else if (backend === "webcodecs") {
+    throw new Error("WebCodecs extraction is not supported for this file in this browser");
+  }
+
+  return openElementSource(file);
+}
+
+/**
+ * Serves grabs from `primary` until one fails, then switches to the seek
+ * path for the rest of the source's life and retries the failed grab there.
+ * `exact` and `backend` follow the switch, so frames grabbed afterwards are
+ * labeled as seeked.
+ */
+function withSeekFallback(file: File, primary: FrameSource): FrameSource {
+  let active = primary;
+  let fallback: Promise<FrameSource> | null = null;
+
+  const grab: FrameSource["grab"] = async (requests, onProgress, signal) => {
+    if (active === primary) {
+      try {
+        return await primary.grab(requests, onProgress, signal);
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (!fallback) {
+          console.warn("WebCodecs decoding failed, falling back to seeking:", error);
+          primary.close();
+          fallback = openElementSource(file);
+        }
+        active = await fallback;
+      }
+    }
+    return active.grab(requests, onProgress, signal);
+  };
+
+  return {
+    get backend() {
+      return active.backend;
+    },
+    duration: primary.duration,
+    get exact() {
+      return active.exact;
+    },
+    grab,
+    close: () => {
+      active.close();
+      fallback?.then((source) => source.close()).catch(() => undefined);
+    },
+  };
+}
+
+function openWebCodecsSource(file: File): Promise<FrameSource> {
+  const worker = new Worker(new URL("../workers/frameDecoder.worker.ts", import.meta.url), { type: "module" });
+  const send = (message: DecoderRequest) => worker.postMessage(message);
+  let nextId = 0;
+  // Settles the grabs still waiting on the worker when it crashes
+  const outstanding = new Map<number, (error: Error) => void>();
+  let crashed: Error | null = null;
+
+  const close = () => {
+    send({ type: "close" });
+    worker.terminate();
+  };
+
+  const grab: FrameSource["grab"] = (requests, onProgress, signal) =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      if (crashed) {
+        reject(crashed);
+        return;
+      }
+      const id = nextId++;
+
+      const settle = () => {
+        outstanding.delete(id);
+        worker.removeEventListener("message", handler);
+        signal?.removeEventListener("abort", abortHandler);
+      };
+
+      // The worker keeps decoding until the caller closes the source
+      const abortHandler = () => {
+        settle();
+        reject(signal?.reason);
+      };
+
+      const handler = (event: MessageEvent<DecoderResponse>) => {
+        const message = event.data;
+        if (!("id" in message) || message.id !== id) return;
+
+        if (message.type === "progress") {
+          onProgress?.(message.completed);
+          return;
+        }
+
+        settle();
+        if (message.type === "grabbed") resolve(message.results);
+        else if (message.type === "error") reject(new Error(message.message));
+      };
+
+      outstanding.set(id, (error) => {
+        settle();
+        reject(error);
+      });
+      worker.addEventListener("message", handler);
+      signal?.addEventListener("abort", abortHandler, { once: true });
+      send({ type: "grab", id, requests });
+    });
+
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      close();
+      reject(new Error("Frame decoder worker did not open the file in time"));
+    }, OPEN_TIMEOUT_MS);
+
+    worker.onmessage = (event: MessageEvent<DecoderResponse>) => {
+      const message = event.data;
+      if (message.type === "opened") {
+        clearTimeout(timeout);
+        worker.onmessage = null;
+        resolve({ backend: "webcodecs", duration: message.duration, exact: true, grab, close });
+      } else if (message.type === "error") {
+        clearTimeout(timeout);
+        close();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      clearTimeout(timeout);
+      const error = new Error(event.message || "Frame decoder worker failed");
+      crashed = error;
+      close();
+      // Before the open this rejects it; afterwards the seek fallback retries the failed grabs
+      reject(error);
+      [...outstanding.values()].forEach((fail) => fail(error));
+    };
+    send({ type: "open", file });
+  });
+}
+
+function seekVideo(video: HTMLVideoElement, timestamp: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const seekHandler = () => {
+      video.removeEventListener("seeked", seekHandler);
+      video.removeEventListener("error", errorHandler);
+      resolve();
+    };
+
+    const errorHandler = () => {
+      video.removeEventListener("seeked", seekHandler);
+      video.removeEventListener("error", errorHandler);
+      reject(new Error(`Failed to seek to ${timestamp}s`));
+    };
+
+    video.addEventListener("seeked", seekHandler);
+    video.addEventListener("error", errorHandler);
+    video.currentTime = timestamp;
+  });
+}
+
+/**
+ * Seeks an HTMLVideoElement and draws it to a canvas on the main thread.
+ * Browsers may land on a nearby frame rather than the exact one requested.
+ */
+function openElementSource(file: File): Promise<FrameSource> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.muted = true;
+    video.playsInline = true;
+
+    const objectUrl = URL.createObjectURL(file);
+    video.src = objectUrl;
+
+    const close = () => {
+      URL.revokeObjectURL(objectUrl);
+      video.remove();
+    };
+
+    // One canvas per output width, reused across requests
+    const canvases = new Map<number, { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D }>();
+    const getCanvas = (width: number) => {
+      const targetWidth = Math.min(video.videoWidth, width);
+      let entry = canvases.get(targetWidth);
+      if (!entry) {
+        const canvas = document.createElement("canvas");
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+        if (!ctx) throw new Error("Failed to get canvas context");
+        canvas.width = targetWidth;
+        canvas.height = Math.max(1, Math.round((targetWidth / video.videoWidth) * video.videoHeight));
+        entry = { canvas, ctx };
+        canvases.set(targetWidth, entry);
+      }
+      return entry;
+    };
+
+    // Bursts and the full-size frame share timestamps, avoid re-seeking for them
+    let seekedTo = NaN;
+
+    const grab: FrameSource["grab"] = async (requests, onProgress, signal) => {
+      const results: (FrameResult | null)[] = [];
+
+      for (let i = 0; i < requests.length; i++) {
+        signal?.throwIfAborted();
+        const request = requests[i];
+        try {
+          if (seekedTo !== request.timestamp) {
+            seekedTo = NaN;
+            await seekVideo(video, request.timestamp);
+            seekedTo = request.timestamp;
+          }
+          const { canvas, ctx } = getCanvas(request.width);
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          results.push(
+            request.format === "imageData"
+              ? ctx.getImageData(0, 0, canvas.width, canvas.height)
+              : canvas.toDataURL("image/jpeg", request.quality ?? 0.8)
+          );
+        } catch (error) {
+          console.warn(`Failed to capture frame at ${request.timestamp}s:`, error);
+          results.push(null);
+        }
+        onProgress?.(i + 1);
+      }
+
+      return results;
+    };
+
+    video.onloadedmetadata = () => {
+      resolve({ backend: "element", duration: video.duration, exact: false, grab, close });
+    };
+
+    video.onerror = () => {
+      close();
+      reject(new Error("Failed to load video file"));
+    };
+
+    video.load();
+  });
+}
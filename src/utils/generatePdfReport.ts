@@ -0,0 +1,579 @@
+import { jsPDF } from 'jspdf';
+import type { AnalysisResult, FrameAnalysis } from '@/hooks/useVideoAnalysis';
+import { encodePdfSignature } from '@/utils/reportSignature';
+
+type Rgb = [number, number, number];
+
+// Theme colors from index.css, converted from HSL
+const COLORS = {
+  primary: [26, 230, 213] as Rgb,
+  success: [34, 195, 106] as Rgb,
+  warning: [249, 165, 32] as Rgb,
+  destructive: [223, 58, 58] as Rgb,
+  text: [30, 30, 36] as Rgb,
+  muted: [110, 110, 120] as Rgb,
+  border: [220, 220, 226] as Rgb,
+  panel: [244, 244, 247] as Rgb,
+};
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 16;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+// Space kept free for the footer on every page
+const BOTTOM = PAGE_HEIGHT - 20;
+
+const FRAME_COLUMNS = 2;
+const MAX_ISSUES_PER_FRAME = 4;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const scoreColor = (value: number): Rgb =>
+  value > 0.7 ? COLORS.success : value > 0.4 ? COLORS.warning : COLORS.destructive;
+
+const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Probability the frame is artificial, the same scale as the suspicion timeline
+const suspicion = (frame: FrameAnalysis) => (frame.isArtificial ? frame.confidence : 1 - frame.confidence);
+
+/**
+ * Lays out the report top to bottom, starting a new page whenever the next
+ * block would run into the footer.
+ */
+class ReportWriter {
+  readonly doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  y = MARGIN;
+
+  ensureSpace(height: number) {
+    if (this.y + height > BOTTOM) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  setText(size: number, style: 'normal' | 'bold' = 'normal', color: Rgb = COLORS.text) {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+  }
+
+  heading(title: string) {
+    this.ensureSpace(16);
+    this.y += 4;
+    this.setText(14, 'bold');
+    this.doc.text(title, MARGIN, this.y);
+    this.y += 2;
+    this.doc.setDrawColor(...COLORS.primary);
+    this.doc.setLineWidth(0.6);
+    this.doc.line(MARGIN, this.y, MARGIN + 24, this.y);
+    this.y += 7;
+  }
+
+  paragraph(text: string, size = 10, color: Rgb = COLORS.text) {
+    this.setText(size, 'normal', color);
+    const lines: string[] = this.doc.splitTextToSize(text, CONTENT_WIDTH);
+    const lineHeight = size * 0.45;
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, MARGIN, this.y);
+      this.y += lineHeight;
+    }
+    this.y += 2;
+  }
+
+  keyValues(rows: [string, string][]) {
+    for (const [key, value] of rows) {
+      this.setText(9, 'bold', COLORS.muted);
+      const lines: string[] = this.doc.splitTextToSize(value, CONTENT_WIDTH - 45);
+      this.ensureSpace(lines.length * 4.5 + 1.5);
+      this.doc.text(key, MARGIN, this.y);
+      this.setText(9, 'normal');
+      this.doc.text(lines, MARGIN + 45, this.y);
+      this.y += lines.length * 4.5 + 1.5;
+    }
+  }
+
+  scoreBar(label: string, value: number | null, note?: string) {
+    this.ensureSpace(note ? 14 : 10);
+    this.setText(10);
+    this.doc.text(label, MARGIN, this.y);
+    this.setText(10, 'bold');
+    this.doc.text(value === null ? 'N/A' : percent(value), PAGE_WIDTH - MARGIN, this.y, { align: 'right' });
+    this.y += 2;
+
+    this.doc.setFillColor(...COLORS.panel);
+    this.doc.roundedRect(MARGIN, this.y, CONTENT_WIDTH, 3, 1.5, 1.5, 'F');
+    if (value !== null && value > 0) {
+      this.doc.setFillColor(...scoreColor(value));
+      this.doc.roundedRect(MARGIN, this.y, CONTENT_WIDTH * value, 3, 1.5, 1.5, 'F');
+    }
+    this.y += 7;
+
+    if (note) {
+      this.setText(8, 'normal', COLORS.muted);
+      this.doc.text(note, MARGIN, this.y - 2);
+      this.y += 3;
+    }
+  }
+}
+
+function drawCover(writer: ReportWriter, result: AnalysisResult, fileName: string) {
+  const { doc } = writer;
+  const isReal = result.verdict === 'real';
+  const verdictColor = isReal ? COLORS.success : COLORS.destructive;
+
+  // Title band
+  doc.setFillColor(18, 22, 30);
+  doc.rect(0, 0, PAGE_WIDTH, 42, 'F');
+  doc.setFillColor(...COLORS.primary);
+  doc.rect(0, 42, PAGE_WIDTH, 1.2, 'F');
+  writer.setText(22, 'bold', [255, 255, 255]);
+  doc.text('AI Video Detector', MARGIN, 20);
+  writer.setText(11, 'normal', [190, 196, 206]);
+  doc.text('Forensic Analysis Report', MARGIN, 29);
+  doc.text(new Date().toLocaleString(), PAGE_WIDTH - MARGIN, 29, { align: 'right' });
+  writer.y = 58;
+
+  // Verdict panel
+  doc.setFillColor(...verdictColor);
+  doc.roundedRect(MARGIN, writer.y, CONTENT_WIDTH, 36, 3, 3, 'F');
+  writer.setText(10, 'bold', [255, 255, 255]);
+  doc.text('VERDICT', MARGIN + 8, writer.y + 10);
+  writer.setText(22, 'bold', [255, 255, 255]);
+  doc.text(isReal ? 'Likely Authentic' : 'Likely AI-Generated', MARGIN + 8, writer.y + 22);
+  writer.setText(10, 'normal', [255, 255, 255]);
+  doc.text(
+    isReal
+      ? 'No significant manipulation indicators were detected.'
+      : 'Deepfake indicators were detected in this video.',
+    MARGIN + 8,
+    writer.y + 30
+  );
+  writer.setText(28, 'bold', [255, 255, 255]);
+  doc.text(percent(result.confidence), PAGE_WIDTH - MARGIN - 8, writer.y + 22, { align: 'right' });
+  writer.setText(8, 'normal', [255, 255, 255]);
+  doc.text('confidence', PAGE_WIDTH - MARGIN - 8, writer.y + 29, { align: 'right' });
+  writer.y += 48;
+
+  writer.heading('Evidence');
+  writer.keyValues([
+    ['File name', fileName || 'Unknown'],
+    ['SHA-256', result.fileHash ?? 'Not recorded'],
+    ['File size', result.fileSize !== undefined ? formatBytes(result.fileSize) : 'Not recorded'],
+    ['Duration', result.duration > 0 ? `${formatTimestamp(result.duration)} (${result.duration.toFixed(2)} s)` : 'Unknown'],
+    ['Frames analyzed', String(result.framesAnalyzed)],
+    ['Processing time', `${result.processingTime.toFixed(2)} s`],
+    ...(result.id ? [['Analysis ID', result.id] as [string, string]] : []),
+  ]);
+}
+
+function drawScores(writer: ReportWriter, result: AnalysisResult) {
+  writer.heading('Score Breakdown');
+  writer.paragraph('Higher scores indicate more natural content.', 9, COLORS.muted);
+
+  writer.scoreBar(
+    'Face Consistency',
+    result.details.faceConsistency,
+    result.details.faceConsistency === null ? 'No faces were detected in the analyzed frames' : undefined
+  );
+  writer.scoreBar('Temporal Coherence', result.details.temporalCoherence);
+  if (result.temporal) {
+    writer.scoreBar('    Motion Consistency', result.temporal.motionConsistency);
+    writer.scoreBar('    Flicker Stability', result.temporal.flickerStability);
+    writer.scoreBar(
+      '    Identity Stability',
+      result.temporal.identityStability,
+      `Measured from ${result.temporal.burstsAnalyzed} frame bursts`
+    );
+  }
+  writer.scoreBar('Artifact Detection', result.details.artifactScore);
+  if (result.forensics) {
+    writer.scoreBar('    Error Level Consistency', 1 - result.forensics.elaInconsistency);
+    writer.scoreBar(
+      '    Noise Consistency',
+      1 - result.forensics.noiseInconsistency,
+      `Measured on ${result.forensics.framesAnalyzed} frames`
+    );
+  }
+  writer.scoreBar('Compression Analysis', result.details.compressionAnalysis);
+  if (result.compression) {
+    writer.paragraph(result.compression.explanation, 8, COLORS.muted);
+  }
+
+  if (result.frameAnalyses.length > 0) {
+    drawSuspicionChart(writer, result);
+  }
+}
+
+/** The voice classifier's separate verdict and the segments it flagged */
+function drawAudio(writer: ReportWriter, result: AnalysisResult) {
+  const { audio } = result;
+  if (!audio) return;
+
+  writer.heading('Audio Track');
+  writer.keyValues([
+    ['Verdict', audio.verdict === 'real' ? 'Likely authentic voice' : 'Likely synthetic voice'],
+    ['Confidence', percent(audio.confidence)],
+    ['Classifier', audio.provider],
+    ['Segments analyzed', String(audio.segmentsAnalyzed)],
+  ]);
+
+  const flagged = audio.segments.filter((segment) => segment.isArtificial);
+  if (flagged.length === 0) {
+    writer.paragraph('No segment was classified as synthetic.', 9, COLORS.muted);
+    return;
+  }
+  for (const segment of flagged) {
+    writer.paragraph(
+      `${formatTimestamp(segment.start)}-${formatTimestamp(segment.end)}: ` +
+        `${segment.issues.length > 0 ? segment.issues.join('; ') : 'Voice likely synthetic'} (${percent(segment.confidence)})`,
+      9
+    );
+  }
+}
+
+/** Container metadata and what in it looked suspicious */
+function drawFileMetadata(writer: ReportWriter, result: AnalysisResult) {
+  const metadata = result.fileMetadata;
+  if (!metadata) return;
+
+  const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Not set');
+  writer.heading('File Metadata');
+  writer.keyValues([
+    ['Container', `${metadata.format === 'quicktime' ? 'QuickTime' : 'MP4'}${metadata.majorBrand ? ` (${metadata.majorBrand})` : ''}`],
+    ['Encoder', metadata.encoder ?? 'Not recorded'],
+    ['Device', [metadata.make, metadata.model].filter(Boolean).join(' ') || 'Not recorded'],
+    ['Software', metadata.software ?? 'Not recorded'],
+    ['Created', formatTime(metadata.creationTime)],
+    ['Modified', formatTime(metadata.modificationTime)],
+    ['Metadata score', percent(metadata.score)],
+  ]);
+  writer.y += 2;
+
+  if (metadata.findings.length === 0) {
+    writer.paragraph('Nothing in the container points to a generator or a re-encode.', 9, COLORS.muted);
+    return;
+  }
+  for (const finding of metadata.findings) {
+    writer.paragraph(
+      `${finding.severity.toUpperCase()}: ${finding.message}`,
+      9,
+      finding.severity === 'high' ? COLORS.destructive : finding.severity === 'medium' ? COLORS.warning : COLORS.muted
+    );
+  }
+}
+
+/** The C2PA manifest embedded in the file, as verified in the browser */
+function drawContentCredentials(writer: ReportWriter, result: AnalysisResult) {
+  const { provenance } = result;
+  if (!provenance) return;
+
+  const status = {
+    valid: 'Valid',
+    invalid: 'Invalid (file or manifest altered)',
+    incomplete: 'Incomplete (could not be fully checked)',
+  }[provenance.status];
+  const signer = provenance.signer
+    ? [provenance.signer.commonName, provenance.signer.organization].filter(Boolean).join(', ') || 'Unnamed'
+    : 'Not recorded';
+
+  writer.heading('Content Credentials');
+  writer.keyValues([
+    ['Status', status],
+    ['Signer', `${signer} (${provenance.trusted ? 'trusted' : 'not on the trust list'})`],
+    ['Issuer', provenance.signer?.issuer ?? 'Not recorded'],
+    ['Claim generator', provenance.claimGenerator ?? 'Not recorded'],
+    ['AI creation', provenance.aiGenerated ? `Declared${provenance.aiTool ? ` (${provenance.aiTool})` : ''}` : 'Not declared'],
+    ['Actions', provenance.actions.map((action) => action.action).join(', ') || 'None'],
+    ['Ingredients', provenance.ingredients.join(', ') || 'None'],
+    ['Manifests', String(provenance.manifests)],
+  ]);
+  writer.y += 2;
+
+  for (const error of provenance.errors) {
+    writer.paragraph(error, 9, provenance.status === 'invalid' ? COLORS.destructive : COLORS.warning);
+  }
+}
+
+/** Per-frame suspicion plotted against the frame's position in the video */
+function drawSuspicionChart(writer: ReportWriter, result: AnalysisResult) {
+  const { doc } = writer;
+  const chartHeight = 40;
+  writer.ensureSpace(chartHeight + 22);
+
+  writer.setText(10, 'bold');
+  doc.text('Suspicion over time', MARGIN, writer.y);
+  writer.y += 4;
+
+  const top = writer.y;
+  const left = MARGIN + 8;
+  const width = CONTENT_WIDTH - 8;
+  const duration = result.duration > 0
+    ? result.duration
+    : Math.max(...result.frameAnalyses.map((f) => f.timestamp), 1);
+
+  doc.setDrawColor(...COLORS.border);
+  doc.setLineWidth(0.2);
+  for (const level of [0, 0.5, 1]) {
+    const y = top + chartHeight * (1 - level);
+    doc.line(left, y, left + width, y);
+    writer.setText(7, 'normal', COLORS.muted);
+    doc.text(percent(level), left - 1.5, y + 1, { align: 'right' });
+  }
+
+  const barWidth = Math.max(1, Math.min(4, width / result.frameAnalyses.length / 2));
+  for (const frame of result.frameAnalyses) {
+    const value = suspicion(frame);
+    const x = left + (frame.timestamp / duration) * (width - barWidth);
+    doc.setFillColor(...(value > 0.5 ? COLORS.destructive : COLORS.success));
+    doc.rect(x, top + chartHeight * (1 - value), barWidth, chartHeight * value, 'F');
+  }
+
+  writer.y = top + chartHeight + 4;
+  writer.setText(7, 'normal', COLORS.muted);
+  doc.text('0:00.0', left, writer.y);
+  doc.text(formatTimestamp(duration), left + width, writer.y, { align: 'right' });
+  writer.y += 6;
+}
+
+const thumbnailHeight = (doc: jsPDF, thumbnail: string, width: number) => {
+  const { width: imageWidth, height: imageHeight } = doc.getImageProperties(thumbnail);
+  return (imageHeight / imageWidth) * width;
+};
+
+const frameVotes = (frame: FrameAnalysis) =>
+  frame.models && frame.models.length > 1
+    ? frame.models
+        .map((model) =>
+          `${model.faceIndex === undefined ? '' : `Face ${model.faceIndex + 1} `}${model.provider}: ` +
+          `${model.isArtificial ? 'AI' : 'real'} ${percent(model.confidence)}`
+        )
+        .join('; ')
+    : null;
+
+const frameIssues = (frame: FrameAnalysis) => {
+  const issues = frame.issues.slice(0, MAX_ISSUES_PER_FRAME);
+  if (frame.issues.length > MAX_ISSUES_PER_FRAME) {
+    issues.push(`+${frame.issues.length - MAX_ISSUES_PER_FRAME} more`);
+  }
+  return issues.length > 0 ? issues : ['No issues reported'];
+};
+
+// Height drawFrameCell will use, so a row is moved to the next page before it is drawn
+function measureFrameCell(writer: ReportWriter, frame: FrameAnalysis, width: number): number {
+  const { doc } = writer;
+  let height = frame.thumbnail ? thumbnailHeight(doc, frame.thumbnail, width) + 4 : 16;
+  height += 8;
+
+  writer.setText(8, 'normal');
+  const votes = frameVotes(frame);
+  if (votes) height += doc.splitTextToSize(votes, width).length * 3.5;
+  for (const issue of frameIssues(frame)) {
+    height += doc.splitTextToSize(`- ${issue}`, width).length * 3.5;
+  }
+  return height;
+}
+
+function drawFrameCell(
+  writer: ReportWriter,
+  frame: FrameAnalysis,
+  x: number,
+  y: number,
+  width: number
+): number {
+  const { doc } = writer;
+  let cursor = y;
+
+  if (frame.thumbnail) {
+    const height = thumbnailHeight(doc, frame.thumbnail, width);
+    doc.addImage(frame.thumbnail, 'JPEG', x, cursor, width, height);
+
+    doc.setLineWidth(0.5);
+    for (const face of frame.faces ?? []) {
+      doc.setDrawColor(...(face.isArtificial ? COLORS.destructive : COLORS.success));
+      doc.rect(x + face.box.x * width, cursor + face.box.y * height, face.box.width * width, face.box.height * height);
+    }
+    cursor += height + 4;
+  } else {
+    doc.setFillColor(...COLORS.panel);
+    doc.rect(x, cursor, width, 12, 'F');
+    writer.setText(8, 'normal', COLORS.muted);
+    doc.text('Thumbnail not retained', x + width / 2, cursor + 7, { align: 'center' });
+    cursor += 16;
+  }
+
+  writer.setText(9, 'bold', frame.isArtificial ? COLORS.destructive : COLORS.success);
+  doc.text(
+    `Frame ${frame.frameIndex + 1}: ${frame.isArtificial ? 'Suspicious' : 'Authentic'} (${percent(frame.confidence)})`,
+    x,
+    cursor
+  );
+  cursor += 4;
+
+  writer.setText(8, 'normal', COLORS.muted);
+  const faceCount = frame.faces?.length;
+  doc.text(
+    [
+      formatTimestamp(frame.timestamp),
+      frame.sampling.shotIndex !== undefined ? `shot ${frame.sampling.shotIndex + 1}` : null,
+      faceCount === undefined ? null : faceCount === 0 ? 'no faces' : `${faceCount} face${faceCount > 1 ? 's' : ''}`,
+    ]
+      .filter(Boolean)
+      .join('  |  '),
+    x,
+    cursor
+  );
+  cursor += 4;
+
+  const votes = frameVotes(frame);
+  if (votes) {
+    const lines: string[] = doc.splitTextToSize(votes, width);
+    doc.text(lines, x, cursor);
+    cursor += lines.length * 3.5;
+  }
+
+  writer.setText(8, 'normal');
+  for (const issue of frameIssues(frame)) {
+    const lines: string[] = doc.splitTextToSize(`- ${issue}`, width);
+    doc.text(lines, x, cursor);
+    cursor += lines.length * 3.5;
+  }
+
+  return cursor - y;
+}
+
+function drawFrameGrid(writer: ReportWriter, result: AnalysisResult) {
+  if (result.frameAnalyses.length === 0) return;
+
+  writer.doc.addPage();
+  writer.y = MARGIN;
+  writer.heading('Frame Evidence');
+
+  const gap = 8;
+  const cellWidth = (CONTENT_WIDTH - gap * (FRAME_COLUMNS - 1)) / FRAME_COLUMNS;
+
+  for (let i = 0; i < result.frameAnalyses.length; i += FRAME_COLUMNS) {
+    const row = result.frameAnalyses.slice(i, i + FRAME_COLUMNS);
+    // Portrait thumbnails are much taller than wide ones, so measure the row before placing it
+    writer.ensureSpace(Math.max(...row.map((frame) => measureFrameCell(writer, frame, cellWidth))));
+    const heights = row.map((frame, column) =>
+      drawFrameCell(writer, frame, MARGIN + column * (cellWidth + gap), writer.y, cellWidth)
+    );
+    writer.y += Math.max(...heights) + 6;
+  }
+}
+
+function drawMethodology(writer: ReportWriter, result: AnalysisResult) {
+  const samplingStrategy = result.frameAnalyses[0]?.sampling.strategy ?? 'uniform';
+  const exact = result.frameAnalyses.length > 0 && result.frameAnalyses.every((f) => f.sampling.exact);
+
+  writer.heading('Methodology');
+  writer.keyValues([
+    ['Frame sampling', samplingStrategy === 'adaptive' ? 'Adaptive, scene-change aware' : 'Uniform'],
+    ['Frame decoding', exact ? 'Exact frames (WebCodecs)' : 'Seek-based (nearest frame)'],
+    ['Ensemble strategy', result.ensemble.strategy],
+    ['Models', result.ensemble.providers.join(', ') || 'Unknown'],
+    ['Prompt version', result.promptVersion ?? 'Unknown'],
+  ]);
+  writer.y += 2;
+  writer.paragraph(
+    'Frames are sampled from the video in the browser and faces are localized and cropped before analysis. ' +
+      'Each frame and face crop is scored by every model in the ensemble and the votes are combined with the ' +
+      'strategy above. Temporal coherence is measured locally from short bursts of consecutive frames ' +
+      '(motion consistency, brightness flicker and identity drift). The overall verdict is the majority of ' +
+      'per-frame verdicts. For MP4 and MOV files, the container metadata (encoder, timestamps, edit lists) ' +
+      'is examined in the browser and reported alongside it, but does not change it.',
+    9
+  );
+  writer.paragraph(
+    'Embedded C2PA Content Credentials are verified in the browser against a configurable trust list and ' +
+      'shown for information only: the analysis service cannot check them, so they never change the verdict, ' +
+      'even when they record that an AI model created the video.',
+    9
+  );
+
+  writer.heading('Signature');
+  if (result.signature) {
+    writer.keyValues([
+      ['Algorithm', result.signature.algorithm],
+      ['Key ID', result.signature.keyId],
+      ['Signature', result.signature.value],
+    ]);
+    writer.y += 2;
+    writer.paragraph(
+      'The analysis service signed the verdict, scores, file SHA-256 and a digest of every analyzed frame. ' +
+        'The signed data is embedded in this PDF; upload it together with the original video at ' +
+        `${window.location.origin}/verify to confirm neither has been altered.`,
+      9
+    );
+  } else {
+    writer.paragraph('This report is not signed and cannot be verified.', 9, COLORS.muted);
+  }
+
+  writer.heading('Disclaimer');
+  writer.paragraph(
+    'This analysis is provided for informational purposes only. While our AI models are highly accurate, ' +
+      'no detection system is 100% reliable. Results should be considered as one factor in a comprehensive ' +
+      'authenticity assessment.',
+    9
+  );
+  writer.paragraph(
+    'For critical decisions, we recommend combining this analysis with other verification methods and ' +
+      'expert consultation.',
+    9
+  );
+}
+
+function drawFooters(writer: ReportWriter, result: AnalysisResult) {
+  const { doc } = writer;
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(...COLORS.border);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, PAGE_HEIGHT - 14, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 14);
+    writer.setText(7, 'normal', COLORS.muted);
+    doc.text(
+      result.fileHash ? `SHA-256 ${result.fileHash}` : 'AI Video Detector',
+      MARGIN,
+      PAGE_HEIGHT - 9
+    );
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 9, { align: 'right' });
+  }
+}
+
+/**
+ * Builds a paginated PDF report: cover page with verdict and file evidence,
+ * score charts, the audio track, container metadata and Content Credentials,
+ * a grid of analyzed frames, methodology and disclaimer.
+ */
+export const generatePdfReport = (result: AnalysisResult, fileName: string): Blob => {
+  const writer = new ReportWriter();
+
+  drawCover(writer, result, fileName);
+  drawScores(writer, result);
+  drawAudio(writer, result);
+  drawFileMetadata(writer, result);
+  drawContentCredentials(writer, result);
+  drawFrameGrid(writer, result);
+  writer.doc.addPage();
+  writer.y = MARGIN;
+  drawMethodology(writer, result);
+  drawFooters(writer, result);
+
+  writer.doc.setProperties({
+    title: `Analysis report - ${fileName}`,
+    subject: result.verdict === 'real' ? 'Likely authentic' : 'Likely AI-generated',
+    creator: 'AI Video Detector',
+    ...(result.signature ? { keywords: encodePdfSignature(result.signature) } : {}),
+  });
+
+  return writer.doc.output('blob');
+};
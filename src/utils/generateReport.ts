@@ -1,19 +1,25 @@
-interface AnalysisResult {
-  confidence: number;
-  verdict: 'real' | 'ai-generated';
-  details: {
-    faceConsistency: number;
-    temporalCoherence: number;
-    artifactScore: number;
-    compressionAnalysis: number;
-  };
-  framesAnalyzed: number;
-  processingTime: number;
-}
+import type { AnalysisResult } from '@/hooks/useVideoAnalysis';
+import { buildBatchCsvReport, buildCsvReport, buildJsonReport, type BatchReportEntry } from '@/utils/exportReport';
+
+export type ReportFormat = 'pdf' | 'txt' | 'json' | 'csv';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
 
 export const generateReport = (result: AnalysisResult, fileName: string) => {
   const date = new Date().toLocaleString();
   const confidencePercent = Math.round(result.confidence * 100);
+  const flaggedSegments = result.audio?.segments.filter((segment) => segment.isArtificial) ?? [];
+  const formatTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
 
   const reportContent = `
 ════════════════════════════════════════════════════════════════
@@ -21,7 +27,8 @@ export const generateReport = (result: AnalysisResult, fileName: string) => {
 ════════════════════════════════════════════════════════════════
 
 Report Generated: ${date}
-File Analyzed: ${fileName}
+File Analyzed: ${fileName}${result.fileHash ? `
+File SHA-256: ${result.fileHash}` : ''}
 
 ────────────────────────────────────────────────────────────────
                            VERDICT
@@ -38,18 +45,36 @@ ${result.verdict === 'real'
                       DETAILED ANALYSIS
 ────────────────────────────────────────────────────────────────
 
-Face Consistency:      ${Math.round(result.details.faceConsistency * 100)}%
-  Measures consistency of facial features across frames
+Face Consistency:      ${result.details.faceConsistency === null ? 'N/A' : `${Math.round(result.details.faceConsistency * 100)}%`}
+  Measures consistency of facial features across frames${result.details.faceConsistency === null ? `
+  (no faces were detected in the analyzed frames)` : ''}
 
 Temporal Coherence:    ${Math.round(result.details.temporalCoherence * 100)}%
-  Analyzes natural motion and transitions between frames
+  Analyzes natural motion and transitions between frames${result.temporal ? `
+    Motion Consistency:  ${Math.round(result.temporal.motionConsistency * 100)}%
+    Flicker Stability:   ${Math.round(result.temporal.flickerStability * 100)}%
+    Identity Stability:  ${Math.round(result.temporal.identityStability * 100)}%
+    (${result.temporal.burstsAnalyzed} frame bursts measured)` : ''}
 
 Artifact Detection:    ${Math.round(result.details.artifactScore * 100)}%
-  Scans for digital artifacts common in AI-generated content
+  Scans for digital artifacts common in AI-generated content${result.forensics ? `
+    Error Level Consistency:  ${Math.round((1 - result.forensics.elaInconsistency) * 100)}%
+    Noise Consistency:        ${Math.round((1 - result.forensics.noiseInconsistency) * 100)}%
+    (measured on ${result.forensics.framesAnalyzed} frames)` : ''}
 
 Compression Analysis:  ${Math.round(result.details.compressionAnalysis * 100)}%
-  Examines compression patterns for signs of manipulation
+  Examines compression patterns for signs of manipulation${result.compression ? `
+    ${result.compression.explanation}` : ''}
+${result.audio ? `
+────────────────────────────────────────────────────────────────
+                         AUDIO TRACK
+────────────────────────────────────────────────────────────────
 
+Result: ${result.audio.verdict === 'real' ? '✓ LIKELY AUTHENTIC VOICE' : '⚠ LIKELY SYNTHETIC VOICE'}
+Confidence Score: ${Math.round(result.audio.confidence * 100)}%
+Classifier: ${result.audio.provider} (${result.audio.segmentsAnalyzed} segments analyzed)${flaggedSegments.map((segment) => `
+  ${formatTime(segment.start)}-${formatTime(segment.end)}  ${segment.issues.join('; ') || 'Voice likely synthetic'}`).join('')}
+` : ''}
 ────────────────────────────────────────────────────────────────
                       PROCESSING STATS
 ────────────────────────────────────────────────────────────────
@@ -76,12 +101,40 @@ other verification methods and expert consultation.
 
   // Create and download the file
   const blob = new Blob([reportContent], { type: 'text/plain;charset=utf-8' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `analysis-report-${Date.now()}.txt`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  downloadBlob(blob, `analysis-report-${Date.now()}.txt`);
+};
+
+export const downloadReport = async (result: AnalysisResult, fileName: string, format: ReportFormat) => {
+  if (format === 'txt') {
+    generateReport(result, fileName);
+    return;
+  }
+
+  if (format === 'json') {
+    const json = JSON.stringify(buildJsonReport(result, fileName), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `analysis-report-${Date.now()}.json`);
+    return;
+  }
+
+  if (format === 'csv') {
+    const blob = new Blob([buildCsvReport(result)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `analysis-frames-${Date.now()}.csv`);
+    return;
+  }
+
+  // jsPDF is only loaded once someone asks for a PDF
+  const { generatePdfReport } = await import('@/utils/generatePdfReport');
+  downloadBlob(generatePdfReport(result, fileName), `analysis-report-${Date.now()}.pdf`);
+};
+
+/** Exports every finished analysis of a batch in one file. JSON is an array of v1 reports. */
+export const downloadBatchReport = (entries: BatchReportEntry[], format: 'json' | 'csv') => {
+  if (format === 'json') {
+    const json = JSON.stringify(entries.map(({ result, fileName }) => buildJsonReport(result, fileName)), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `batch-report-${Date.now()}.json`);
+    return;
+  }
+
+  const blob = new Blob([buildBatchCsvReport(entries)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `batch-summary-${Date.now()}.csv`);
 };
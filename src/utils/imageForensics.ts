@@ -0,0 +1,278 @@
+/**
+ * Deterministic pixel forensics on the extracted frames, independent of the
+ * models: error level analysis (how differently regions react to another
+ * JPEG pass), the high-pass noise residual, and how consistent the noise
+ * level is from block to block. Camera footage carries fairly uniform sensor
+ * noise and recompresses evenly; generated or composited regions tend to
+ * stand out in both.
+ *
+ * Every frame went through the same JPEG encode during extraction, so error
+ * levels are compared within a frame rather than against absolute values.
+ */
+
+export interface FrameForensics {
+  /** 1 = nothing stands out */
+  score: number;
+  /** Spread between the blocks that recompress worst and the typical block, 0-1 */
+  elaInconsistency: number;
+  /** Spread of the local noise level across blocks, 0-1 */
+  noiseInconsistency: number;
+  /** Median noise residual, for spotting unnaturally clean frames */
+  noiseLevel: number;
+}
+
+export interface ImageForensics {
+  /** Mean of the frame scores; replaces the models' self-reported artifact score */
+  score: number;
+  elaInconsistency: number;
+  noiseInconsistency: number;
+  framesAnalyzed: number;
+  /** Per frame, by frame index; null where the frame could not be decoded */
+  frames: (FrameForensics | null)[];
+}
+
+export type ForensicOverlay = 'ela' | 'noise' | 'inconsistency';
+
+interface ForensicMaps {
+  width: number;
+  height: number;
+  /** Per pixel, 0-1 */
+  ela: Float32Array;
+  residual: Float32Array;
+  cols: number;
+  rows: number;
+  /** Per block: mean error level, noise level, and whether the block is too dark or bright to judge */
+  blockEla: Float32Array;
+  blockNoise: Float32Array;
+  blockValid: Uint8Array;
+}
+
+const BLOCK_SIZE = 16;
+// JPEG quality of the second pass
+const ELA_QUALITY = 0.9;
+// Blocks this close to black or white clip their noise
+const MIN_BLOCK_LUMA = 0.06;
+const MAX_BLOCK_LUMA = 0.94;
+
+// Spreads at which a frame counts as fully inconsistent
+const MAX_ELA_SPREAD = 0.04;
+const MAX_NOISE_RATIO = 6;
+
+// Multipliers that make the raw maps visible as heatmaps
+const ELA_GAIN = 20;
+const RESIDUAL_GAIN = 12;
+const OVERLAY_WIDTH = 640;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load frame image'));
+    image.src = src;
+  });
+
+function readPixels(image: HTMLImageElement): ImageData {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+async function recompress(image: HTMLImageElement): Promise<ImageData> {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.drawImage(image, 0, 0);
+  return readPixels(await loadImage(canvas.toDataURL('image/jpeg', ELA_QUALITY)));
+}
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : 0;
+
+async function computeMaps(src: string): Promise<ForensicMaps> {
+  const image = await loadImage(src);
+  const original = readPixels(image);
+  const second = await recompress(image);
+  const { width, height, data } = original;
+
+  const ela = new Float32Array(width * height);
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < ela.length; i++, p += 4) {
+    ela[i] = Math.max(
+      Math.abs(data[p] - second.data[p]),
+      Math.abs(data[p + 1] - second.data[p + 1]),
+      Math.abs(data[p + 2] - second.data[p + 2])
+    ) / 255;
+    luma[i] = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) / 255;
+  }
+
+  // High-pass: each pixel minus the mean of its 8 neighbours
+  const residual = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const neighbours =
+        luma[i - width - 1] + luma[i - width] + luma[i - width + 1] +
+        luma[i - 1] + luma[i + 1] +
+        luma[i + width - 1] + luma[i + width] + luma[i + width + 1];
+      residual[i] = Math.abs(luma[i] - neighbours / 8);
+    }
+  }
+
+  const cols = Math.floor(width / BLOCK_SIZE);
+  const rows = Math.floor(height / BLOCK_SIZE);
+  const blockEla = new Float32Array(cols * rows);
+  const blockNoise = new Float32Array(cols * rows);
+  const blockValid = new Uint8Array(cols * rows);
+  const area = BLOCK_SIZE * BLOCK_SIZE;
+
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      let elaSum = 0;
+      let noiseSum = 0;
+      let lumaSum = 0;
+      for (let y = 0; y < BLOCK_SIZE; y++) {
+        const row = (by * BLOCK_SIZE + y) * width + bx * BLOCK_SIZE;
+        for (let x = 0; x < BLOCK_SIZE; x++) {
+          elaSum += ela[row + x];
+          noiseSum += residual[row + x];
+          lumaSum += luma[row + x];
+        }
+      }
+      const block = by * cols + bx;
+      const meanLuma = lumaSum / area;
+      blockEla[block] = elaSum / area;
+      blockNoise[block] = noiseSum / area;
+      blockValid[block] = meanLuma > MIN_BLOCK_LUMA && meanLuma < MAX_BLOCK_LUMA ? 1 : 0;
+    }
+  }
+
+  return { width, height, ela, residual, cols, rows, blockEla, blockNoise, blockValid };
+}
+
+function measureFrame(maps: ForensicMaps): FrameForensics {
+  const ela: number[] = [];
+  const noise: number[] = [];
+  maps.blockValid.forEach((valid, block) => {
+    if (!valid) return;
+    ela.push(maps.blockEla[block]);
+    noise.push(maps.blockNoise[block]);
+  });
+  ela.sort((a, b) => a - b);
+  noise.sort((a, b) => a - b);
+
+  // A few blocks that recompress far worse than the rest point to a region with a different history
+  const elaInconsistency = clamp01((percentile(ela, 0.95) - percentile(ela, 0.5)) / MAX_ELA_SPREAD);
+  // Sensor noise is roughly even; smoothed or pasted regions drop far below the noisiest ones
+  const quiet = percentile(noise, 0.1);
+  const noiseInconsistency = quiet > 0
+    ? clamp01((percentile(noise, 0.9) / quiet - 1) / MAX_NOISE_RATIO)
+    : noise.length > 0 ? 1 : 0;
+
+  return {
+    score: 1 - (elaInconsistency + noiseInconsistency) / 2,
+    elaInconsistency,
+    noiseInconsistency,
+    noiseLevel: percentile(noise, 0.5),
+  };
+}
+
+/**
+ * Measures every frame. Frames that fail to decode are null and left out of
+ * the summary; returns null when none could be measured.
+ */
+export async function analyzeImageForensics(
+  frames: string[],
+  options: { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+): Promise<ImageForensics | null> {
+  const { onProgress, signal } = options;
+  const results: (FrameForensics | null)[] = [];
+
+  for (let i = 0; i < frames.length; i++) {
+    signal?.throwIfAborted();
+    try {
+      results.push(measureFrame(await computeMaps(frames[i])));
+    } catch (error) {
+      console.warn(`Image forensics failed on frame ${i}:`, error);
+      results.push(null);
+    }
+    onProgress?.(((i + 1) / frames.length) * 100);
+  }
+
+  const measured = results.filter((frame): frame is FrameForensics => frame !== null);
+  if (measured.length === 0) return null;
+
+  const mean = (key: keyof FrameForensics) => measured.reduce((sum, frame) => sum + frame[key], 0) / measured.length;
+  return {
+    score: mean('score'),
+    elaInconsistency: mean('elaInconsistency'),
+    noiseInconsistency: mean('noiseInconsistency'),
+    framesAnalyzed: measured.length,
+    frames: results,
+  };
+}
+
+// Clear through blue and yellow to opaque red
+function heatColor(value: number): [number, number, number, number] {
+  const v = clamp01(value);
+  const r = Math.round(255 * clamp01(v * 2));
+  const g = Math.round(255 * clamp01(v < 0.5 ? v * 2 : 2 - v * 2));
+  const b = Math.round(255 * clamp01(1 - v * 2));
+  return [r, g, b, Math.round(220 * v)];
+}
+
+/**
+ * Renders one of the forensic maps of a frame as a semi-transparent PNG
+ * heatmap, to be laid over the frame. The maps are recomputed from the frame
+ * itself, so nothing has to be stored with the analysis.
+ */
+export async function renderForensicOverlay(src: string, overlay: ForensicOverlay): Promise<string> {
+  const maps = await computeMaps(src);
+  const scale = Math.min(1, OVERLAY_WIDTH / maps.width);
+  const width = Math.max(1, Math.round(maps.width * scale));
+  const height = Math.max(1, Math.round(maps.height * scale));
+
+  // Deviation of each block's noise level from the frame's typical one, in octaves
+  let median = 0;
+  if (overlay === 'inconsistency') {
+    const valid = Array.from(maps.blockNoise).filter((_, block) => maps.blockValid[block]);
+    median = percentile(valid.sort((a, b) => a - b), 0.5);
+  }
+
+  const valueAt = (x: number, y: number) => {
+    const sx = Math.min(maps.width - 1, Math.floor(x / scale));
+    const sy = Math.min(maps.height - 1, Math.floor(y / scale));
+    if (overlay === 'ela') return maps.ela[sy * maps.width + sx] * ELA_GAIN;
+    if (overlay === 'noise') return maps.residual[sy * maps.width + sx] * RESIDUAL_GAIN;
+
+    const bx = Math.min(maps.cols - 1, Math.floor(sx / BLOCK_SIZE));
+    const by = Math.min(maps.rows - 1, Math.floor(sy / BLOCK_SIZE));
+    const block = by * maps.cols + bx;
+    if (!maps.blockValid[block] || median <= 0 || maps.blockNoise[block] <= 0) return 0;
+    return Math.abs(Math.log2(maps.blockNoise[block] / median)) / 2;
+  };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  const output = ctx.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      output.data.set(heatColor(valueAt(x, y)), (y * width + x) * 4);
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+}
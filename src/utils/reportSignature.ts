@@ -0,0 +1,140 @@
+/**
+ * Verification of reports signed by the analyze-video function. The signed
+ * payload travels verbatim inside JSON exports and PDF metadata, so checking
+ * a report never depends on how it was formatted.
+ */
+
+export interface ReportSignature {
+  algorithm: 'Ed25519';
+  /** First 16 hex chars of the SHA-256 of the raw public key */
+  keyId: string;
+  /** The exact string that was signed: a JSON attestation of the analysis */
+  payload: string;
+  /** Base64 signature over the UTF-8 bytes of `payload` */
+  value: string;
+}
+
+export interface SigningKeyInfo {
+  algorithm: 'Ed25519';
+  keyId: string;
+  /** Raw public key as the base64url `x` member of an OKP JWK */
+  publicKey: string;
+}
+
+/** What the server signed; see supabase/functions/analyze-video/attestation.ts */
+export interface SignedAttestation {
+  version: number;
+  issuer: string;
+  signedAt: string;
+  analysisId: string;
+  file: {
+    name: string | null;
+    sha256: string | null;
+    size: number | null;
+    duration: number | null;
+  };
+  frameDigests: string[];
+  result: {
+    verdict: 'real' | 'ai-generated';
+    confidence: number;
+    framesAnalyzed: number;
+    analyzedAt: string;
+    ensemble: { strategy: string; providers: string[] };
+    promptVersion: string;
+  };
+}
+
+export interface SignedReport {
+  format: 'json' | 'pdf';
+  signature: ReportSignature;
+  /** The parsed JSON report, so its visible fields can be checked against the attestation */
+  report?: Record<string, unknown>;
+}
+
+// Marks the signature inside the PDF Keywords entry
+const PDF_SIGNATURE_PREFIX = 'aivd-signature:';
+
+const encoder = new TextEncoder();
+
+const bytesToBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+
+const base64ToBytes = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0));
+
+export const encodePdfSignature = (signature: ReportSignature) =>
+  PDF_SIGNATURE_PREFIX + bytesToBase64(encoder.encode(JSON.stringify(signature)));
+
+const isSignature = (value: unknown): value is ReportSignature =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as ReportSignature).algorithm === 'Ed25519' &&
+  typeof (value as ReportSignature).payload === 'string' &&
+  typeof (value as ReportSignature).value === 'string';
+
+/** Pulls the signature out of an exported JSON or PDF report */
+export async function readSignedReport(file: File): Promise<SignedReport> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const isPdf = new TextDecoder('latin1').decode(bytes.slice(0, 5)) === '%PDF-';
+
+  if (isPdf) {
+    const text = new TextDecoder('latin1').decode(bytes);
+    const match = text.match(/aivd-signature:([A-Za-z0-9+/=]+)/);
+    if (!match) {
+      throw new Error('This PDF does not contain a report signature');
+    }
+    const signature = JSON.parse(new TextDecoder().decode(base64ToBytes(match[1])));
+    if (!isSignature(signature)) {
+      throw new Error('The PDF report signature is malformed');
+    }
+    return { format: 'pdf', signature };
+  }
+
+  let report: Record<string, unknown>;
+  try {
+    report = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('Upload a JSON or PDF report exported from this app');
+  }
+  if (!isSignature(report.signature)) {
+    throw new Error('This report is not signed');
+  }
+  return { format: 'json', signature: report.signature, report };
+}
+
+export async function fetchSigningKey(): Promise<SigningKeyInfo> {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/report-signing-key`, {
+    headers: { apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY },
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to fetch the signing key');
+  }
+  return response.json();
+}
+
+/**
+ * Checks the Ed25519 signature against the published key. Throws when the
+ * browser has no Ed25519 support in WebCrypto.
+ */
+export async function verifySignature(signature: ReportSignature, key: SigningKeyInfo): Promise<boolean> {
+  if (signature.keyId !== key.keyId) {
+    return false;
+  }
+
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await crypto.subtle.importKey(
+      'jwk',
+      { kty: 'OKP', crv: 'Ed25519', x: key.publicKey },
+      { name: 'Ed25519' },
+      false,
+      ['verify']
+    );
+  } catch {
+    throw new Error('This browser cannot verify Ed25519 signatures. Try a current Chrome, Firefox or Safari.');
+  }
+
+  return crypto.subtle.verify('Ed25519', publicKey, base64ToBytes(signature.value), encoder.encode(signature.payload));
+}
+
+export const parseAttestation = (signature: ReportSignature): SignedAttestation => JSON.parse(signature.payload);
@@ -0,0 +1,203 @@
+/**
+ * Inter-frame analysis over the closely spaced bursts captured by extractFramesFromVideo
+ */
+
+import type { ExtractedFrame } from './frameExtractor';
+
+export interface TemporalMetrics {
+  /** Overall temporal coherence, 1 = natural */
+  score: number;
+  /** How well block motion explains the next frame and how smooth the flow field is */
+  motionConsistency: number;
+  /** Absence of frame-to-frame brightness pulsing */
+  flickerStability: number;
+  /** Stability of the subject region's appearance across the burst */
+  identityStability: number;
+  burstsAnalyzed: number;
+}
+
+const BLOCK_SIZE = 8;
+const SEARCH_RADIUS = 3;
+
+// Thresholds above which a metric is treated as fully inconsistent
+const MAX_RESIDUAL = 0.08;
+const MAX_FLICKER = 0.03;
+const MAX_DRIFT = 0.25;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const toLuma = (image: ImageData): Float32Array => {
+  const { data, width, height } = image;
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    luma[i] = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) / 255;
+  }
+  return luma;
+};
+
+/**
+ * Block-matching motion estimation between two frames. Returns the mean
+ * residual after motion compensation and the roughness of the flow field.
+ */
+function estimateMotion(
+  prev: Float32Array,
+  next: Float32Array,
+  width: number,
+  height: number
+): { residual: number; roughness: number } {
+  const cols = Math.floor((width - 2 * SEARCH_RADIUS) / BLOCK_SIZE);
+  const rows = Math.floor((height - 2 * SEARCH_RADIUS) / BLOCK_SIZE);
+  if (cols <= 0 || rows <= 0) return { residual: 0, roughness: 0 };
+
+  const vectors = new Int8Array(cols * rows * 2);
+  let residualSum = 0;
+
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      const x0 = SEARCH_RADIUS + bx * BLOCK_SIZE;
+      const y0 = SEARCH_RADIUS + by * BLOCK_SIZE;
+      let best = Infinity;
+      let bestDx = 0;
+      let bestDy = 0;
+
+      for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+        for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) {
+          let sad = 0;
+          for (let y = 0; y < BLOCK_SIZE; y++) {
+            const rowA = (y0 + y) * width + x0;
+            const rowB = (y0 + y + dy) * width + x0 + dx;
+            for (let x = 0; x < BLOCK_SIZE; x++) {
+              sad += Math.abs(prev[rowA + x] - next[rowB + x]);
+            }
+          }
+          // Prefer the zero vector on ties so static blocks stay still
+          if (sad < best || (sad === best && dx === 0 && dy === 0)) {
+            best = sad;
+            bestDx = dx;
+            bestDy = dy;
+          }
+        }
+      }
+
+      const index = (by * cols + bx) * 2;
+      vectors[index] = bestDx;
+      vectors[index + 1] = bestDy;
+      residualSum += best / (BLOCK_SIZE * BLOCK_SIZE);
+    }
+  }
+
+  // Natural motion is locally smooth; warping artifacts produce jittery vectors
+  let roughnessSum = 0;
+  let pairs = 0;
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      const index = (by * cols + bx) * 2;
+      if (bx + 1 < cols) {
+        roughnessSum += Math.hypot(vectors[index] - vectors[index + 2], vectors[index + 1] - vectors[index + 3]);
+        pairs++;
+      }
+      if (by + 1 < rows) {
+        const below = index + cols * 2;
+        roughnessSum += Math.hypot(vectors[index] - vectors[below], vectors[index + 1] - vectors[below + 1]);
+        pairs++;
+      }
+    }
+  }
+
+  return {
+    residual: residualSum / (cols * rows),
+    roughness: pairs > 0 ? roughnessSum / pairs / (2 * SEARCH_RADIUS) : 0,
+  };
+}
+
+const meanLuma = (luma: Float32Array) => luma.reduce((sum, v) => sum + v, 0) / luma.length;
+
+/**
+ * Brightness pulsing across a burst. With three or more frames the second
+ * difference is used so steady fades and camera exposure ramps are ignored.
+ */
+function measureFlicker(lumas: Float32Array[]): number {
+  const means = lumas.map(meanLuma);
+  if (means.length < 2) return 0;
+  if (means.length === 2) return Math.abs(means[1] - means[0]);
+
+  let sum = 0;
+  for (let i = 1; i < means.length - 1; i++) {
+    sum += Math.abs(means[i - 1] - 2 * means[i] + means[i + 1]);
+  }
+  return sum / (means.length - 2);
+}
+
+// 4 bins per channel over the central region, where the subject usually is
+function centerHistogram(image: ImageData): Float32Array {
+  const { data, width, height } = image;
+  const histogram = new Float32Array(64);
+  const x0 = Math.floor(width / 4);
+  const y0 = Math.floor(height / 4);
+  let count = 0;
+
+  for (let y = y0; y < height - y0; y++) {
+    for (let x = x0; x < width - x0; x++) {
+      const p = (y * width + x) * 4;
+      histogram[(data[p] >> 6) * 16 + (data[p + 1] >> 6) * 4 + (data[p + 2] >> 6)]++;
+      count++;
+    }
+  }
+
+  return count > 0 ? histogram.map((v) => v / count) : histogram;
+}
+
+// Total variation distance between consecutive subject-region histograms
+function measureDrift(burst: ImageData[]): number {
+  if (burst.length < 2) return 0;
+  const histograms = burst.map(centerHistogram);
+  let sum = 0;
+  for (let i = 1; i < histograms.length; i++) {
+    let distance = 0;
+    for (let b = 0; b < 64; b++) {
+      distance += Math.abs(histograms[i][b] - histograms[i - 1][b]);
+    }
+    sum += distance / 2;
+  }
+  return sum / (histograms.length - 1);
+}
+
+/**
+ * Measures motion consistency, flicker and identity drift across each frame's
+ * burst. Returns null when no bursts were captured.
+ */
+export function analyzeTemporalCoherence(frames: ExtractedFrame[]): TemporalMetrics | null {
+  const bursts = frames.map((f) => f.burst).filter((b): b is ImageData[] => !!b && b.length > 1);
+  if (bursts.length === 0) return null;
+
+  let motionSum = 0;
+  let flickerSum = 0;
+  let identitySum = 0;
+
+  for (const burst of bursts) {
+    const { width, height } = burst[0];
+    const lumas = burst.map(toLuma);
+
+    let motion = 0;
+    for (let i = 1; i < lumas.length; i++) {
+      const { residual, roughness } = estimateMotion(lumas[i - 1], lumas[i], width, height);
+      motion += clamp01(1 - residual / MAX_RESIDUAL) * 0.6 + clamp01(1 - roughness) * 0.4;
+    }
+
+    motionSum += motion / (lumas.length - 1);
+    flickerSum += clamp01(1 - measureFlicker(lumas) / MAX_FLICKER);
+    identitySum += clamp01(1 - measureDrift(burst) / MAX_DRIFT);
+  }
+
+  const motionConsistency = motionSum / bursts.length;
+  const flickerStability = flickerSum / bursts.length;
+  const identityStability = identitySum / bursts.length;
+
+  return {
+    score: (motionConsistency + flickerStability + identityStability) / 3,
+    motionConsistency,
+    flickerStability,
+    identityStability,
+    burstsAnalyzed: bursts.length,
+  };
+}
@@ -0,0 +1,16 @@
+export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+export const ACCEPTED_FORMATS = ['video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/webm'];
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024 ? `${bytes / (1024 * 1024 * 1024)}GB` : `${bytes / (1024 * 1024)}MB`;
+
+/** `maxSize` defaults to the limit for in-browser extraction; uploads for server-side extraction allow more */
+export const validateVideoFile = (file: File, maxSize = MAX_FILE_SIZE): string | null => {
+  if (!ACCEPTED_FORMATS.includes(file.type)) {
+    return 'Invalid format. Please upload MP4, MOV, AVI, or WebM files.';
+  }
+  if (file.size > maxSize) {
+    return `File too large. Maximum size is ${formatSize(maxSize)}.`;
+  }
+  return null;
+};
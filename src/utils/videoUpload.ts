@@ -0,0 +1,125 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Resumable upload of an original video to the private `videos` bucket over
+ * Supabase Storage's TUS endpoint, for server-side extraction. The upload
+ * URL is remembered per object, so an interrupted upload continues from the
+ * last acknowledged chunk instead of starting over.
+ */
+
+export const VIDEO_BUCKET = 'videos';
+export const MAX_UPLOAD_SIZE = 2 * 1024 * 1024 * 1024; // 2GB, the bucket's limit
+
+// Supabase Storage requires 6MB chunks for resumable uploads
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const TUS_URL = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+const uploadUrlKey = (path: string) => `video-upload:${path}`;
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(',');
+
+async function tusHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Your session has expired. Please sign in again.');
+  }
+  return {
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    Authorization: `Bearer ${session.access_token}`,
+    'Tus-Resumable': '1.0.0',
+  };
+}
+
+/** Object path of a file; the same file always maps to the same object */
+export const videoPath = (userId: string, fileHash: string, file: File) =>
+  `${userId}/${fileHash}.${file.name.split('.').pop()?.toLowerCase() || 'mp4'}`;
+
+async function videoExists(path: string) {
+  const [folder, name] = path.split('/');
+  const { data } = await supabase.storage.from(VIDEO_BUCKET).list(folder, { search: name, limit: 1 });
+  return (data ?? []).some((object) => object.name === name);
+}
+
+/** Offset the server has for an earlier upload, or null when it has to start over */
+async function resumeOffset(uploadUrl: string, signal?: AbortSignal): Promise<number | null> {
+  const response = await fetch(uploadUrl, { method: 'HEAD', headers: await tusHeaders(), signal });
+  const offset = Number(response.headers.get('Upload-Offset'));
+  return response.ok && Number.isFinite(offset) ? offset : null;
+}
+
+async function createUpload(file: File, path: string, signal?: AbortSignal): Promise<string> {
+  const response = await fetch(TUS_URL, {
+    method: 'POST',
+    signal,
+    headers: {
+      ...(await tusHeaders()),
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: VIDEO_BUCKET,
+        objectName: path,
+        contentType: file.type,
+        cacheControl: '3600',
+      }),
+      'x-upsert': 'true',
+    },
+  });
+
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    throw new Error(`Failed to start the upload (${response.status})`);
+  }
+  return new URL(location, TUS_URL).toString();
+}
+
+/**
+ * Uploads `file` to `path` unless it is already there, resuming an earlier
+ * attempt where possible. Rejects with the signal's reason once it aborts.
+ */
+export async function uploadVideo(
+  file: File,
+  path: string,
+  { onProgress, signal }: { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+): Promise<void> {
+  const key = uploadUrlKey(path);
+  let uploadUrl = localStorage.getItem(key);
+  let offset = uploadUrl ? await resumeOffset(uploadUrl, signal).catch(() => null) : null;
+
+  if (offset === null) {
+    if (await videoExists(path)) {
+      onProgress?.(1);
+      return;
+    }
+    uploadUrl = await createUpload(file, path, signal);
+    localStorage.setItem(key, uploadUrl);
+    offset = 0;
+  }
+
+  while (offset < file.size) {
+    signal?.throwIfAborted();
+    const response = await fetch(uploadUrl, {
+      method: 'PATCH',
+      signal,
+      headers: {
+        ...(await tusHeaders()),
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': String(offset),
+      },
+      body: file.slice(offset, offset + CHUNK_SIZE),
+    });
+
+    if (!response.ok) {
+      // The stored URL stays valid; selecting the video again resumes from the last chunk
+      throw new Error(`Upload failed (${response.status}). Try again to resume it.`);
+    }
+    const next = Number(response.headers.get('Upload-Offset'));
+    if (!Number.isFinite(next) || next <= offset) {
+      throw new Error('Upload failed: the server did not accept the chunk. Try again to resume it.');
+    }
+    offset = next;
+    onProgress?.(offset / file.size);
+  }
+
+  localStorage.removeItem(key);
+}
@@ -0,0 +1,298 @@
+/**
+ * Just enough DER and X.509 to check the certificate chain of a C2PA
+ * signature with WebCrypto: names, validity, public keys and signatures.
+ * Extensions and revocation are not evaluated.
+ */
+
+interface DerNode {
+  tag: number;
+  /** The whole TLV, header included */
+  bytes: Uint8Array;
+  content: Uint8Array;
+}
+
+export interface CertificateName {
+  commonName: string | null;
+  organization: string | null;
+}
+
+export interface Certificate {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  signatureAlgorithm: string;
+  signatureParams: DerNode | null;
+  signature: Uint8Array;
+  /** Raw DER of the issuer and subject names, compared byte for byte when building the chain */
+  issuerDer: Uint8Array;
+  subjectDer: Uint8Array;
+  issuer: CertificateName;
+  subject: CertificateName;
+  notBefore: Date;
+  notAfter: Date;
+  spki: Uint8Array;
+  keyAlgorithm: string;
+  /** Named curve of EC keys */
+  curve: string | null;
+}
+
+export type SignatureScheme =
+  | { kind: 'ecdsa'; hash: string }
+  | { kind: 'rsa-pkcs1'; hash: string }
+  | { kind: 'rsa-pss'; hash: string; saltLength: number }
+  | { kind: 'ed25519' };
+
+export interface ChainVerification {
+  /** Every certificate is signed by the next and valid at the given time */
+  valid: boolean;
+  /** The chain ends in one of the trust anchors */
+  trusted: boolean;
+  errors: string[];
+}
+
+const OID = {
+  commonName: '2.5.4.3',
+  organization: '2.5.4.10',
+  ecPublicKey: '1.2.840.10045.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  rsaPss: '1.2.840.113549.1.1.10',
+  ed25519: '1.3.101.112',
+};
+
+const CURVES: Record<string, { name: string; size: number }> = {
+  '1.2.840.10045.3.1.7': { name: 'P-256', size: 32 },
+  '1.3.132.0.34': { name: 'P-384', size: 48 },
+  '1.3.132.0.35': { name: 'P-521', size: 66 },
+};
+
+const HASHES: Record<string, string> = {
+  '2.16.840.1.101.3.4.2.1': 'SHA-256',
+  '2.16.840.1.101.3.4.2.2': 'SHA-384',
+  '2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+const CERTIFICATE_SCHEMES: Record<string, SignatureScheme> = {
+  '1.2.840.10045.4.3.2': { kind: 'ecdsa', hash: 'SHA-256' },
+  '1.2.840.10045.4.3.3': { kind: 'ecdsa', hash: 'SHA-384' },
+  '1.2.840.10045.4.3.4': { kind: 'ecdsa', hash: 'SHA-512' },
+  '1.2.840.113549.1.1.11': { kind: 'rsa-pkcs1', hash: 'SHA-256' },
+  '1.2.840.113549.1.1.12': { kind: 'rsa-pkcs1', hash: 'SHA-384' },
+  '1.2.840.113549.1.1.13': { kind: 'rsa-pkcs1', hash: 'SHA-512' },
+  [OID.ed25519]: { kind: 'ed25519' },
+};
+
+function readNode(bytes: Uint8Array, offset: number): DerNode {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let header = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) throw new Error('Unsupported DER length');
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    header += count;
+  }
+  if (tag === undefined || offset + header + length > bytes.length) {
+    throw new Error('Truncated DER data');
+  }
+  return {
+    tag,
+    bytes: bytes.subarray(offset, offset + header + length),
+    content: bytes.subarray(offset + header, offset + header + length),
+  };
+}
+
+function children(node: DerNode): DerNode[] {
+  const nodes: DerNode[] = [];
+  for (let offset = 0; offset < node.content.length; ) {
+    const child = readNode(node.content, offset);
+    nodes.push(child);
+    offset += child.bytes.length;
+  }
+  return nodes;
+}
+
+function readOid(node: DerNode): string {
+  const [first, ...rest] = node.content;
+  const parts = [Math.floor(first / 40), first % 40];
+  let value = 0;
+  for (const byte of rest) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+function readTime(node: DerNode): Date {
+  const text = new TextDecoder().decode(node.content);
+  // UTCTime has a two-digit year; 50 and above are 19xx
+  const full = node.tag === 0x17 ? `${Number(text.slice(0, 2)) >= 50 ? '19' : '20'}${text}` : text;
+  const [, year, month, day, hour, minute, second] = full.match(/^(\d{4})(\d\d)(\d\d)(\d\d)(\d\d)(\d\d)/) ?? [];
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+function readName(node: DerNode): CertificateName {
+  const attributes = new Map<string, string>();
+  for (const set of children(node)) {
+    for (const attribute of children(set)) {
+      const [type, value] = children(attribute);
+      // BMPString is UTF-16; every other string type used in names decodes as UTF-8
+      const decoder = value.tag === 0x1e ? new TextDecoder('utf-16be') : new TextDecoder();
+      attributes.set(readOid(type), decoder.decode(value.content));
+    }
+  }
+  return {
+    commonName: attributes.get(OID.commonName) ?? null,
+    organization: attributes.get(OID.organization) ?? null,
+  };
+}
+
+export function parseCertificate(der: Uint8Array): Certificate {
+  const [tbsNode, algorithmNode, signatureNode] = children(readNode(der, 0));
+  const tbsFields = children(tbsNode);
+  // The version is an optional explicit [0] field
+  const fields = tbsFields[0].tag === 0xa0 ? tbsFields.slice(1) : tbsFields;
+  const [, , issuer, validity, subject, spki] = fields;
+  const [notBefore, notAfter] = children(validity);
+  const [keyAlgorithm] = children(spki);
+  const [keyAlgorithmOid, keyParams] = children(keyAlgorithm);
+  const [algorithmOid, algorithmParams] = children(algorithmNode);
+
+  return {
+    der,
+    tbs: tbsNode.bytes,
+    signatureAlgorithm: readOid(algorithmOid),
+    signatureParams: algorithmParams ?? null,
+    // The first byte of a BIT STRING counts its unused bits
+    signature: signatureNode.content.subarray(1),
+    issuerDer: issuer.bytes,
+    subjectDer: subject.bytes,
+    issuer: readName(issuer),
+    subject: readName(subject),
+    notBefore: readTime(notBefore),
+    notAfter: readTime(notAfter),
+    spki: spki.bytes,
+    keyAlgorithm: readOid(keyAlgorithmOid),
+    curve: keyParams?.tag === 0x06 ? readOid(keyParams) : null,
+  };
+}
+
+export function parsePem(pem: string): Uint8Array[] {
+  return [...pem.matchAll(/-----BEGIN CERTIFICATE-----([\s\S]*?)-----END CERTIFICATE-----/g)].map(([, body]) =>
+    Uint8Array.from(atob(body.replace(/\s+/g, '')), (char) => char.charCodeAt(0))
+  );
+}
+
+const equalBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/** Converts a DER ECDSA signature (SEQUENCE of r and s) to the fixed-size form WebCrypto expects */
+function ecdsaRawSignature(der: Uint8Array, size: number): Uint8Array {
+  const raw = new Uint8Array(size * 2);
+  children(readNode(der, 0)).forEach((integer, i) => {
+    const value = integer.content.subarray(Math.max(0, integer.content.length - size));
+    raw.set(value, (i + 1) * size - value.length);
+  });
+  return raw;
+}
+
+function schemeForCertificate(certificate: Certificate): SignatureScheme | null {
+  if (certificate.signatureAlgorithm !== OID.rsaPss) {
+    return CERTIFICATE_SCHEMES[certificate.signatureAlgorithm] ?? null;
+  }
+  // RSASSA-PSS-params: [0] hash algorithm, [1] mask generation, [2] salt length
+  let hash = 'SHA-1';
+  let saltLength = 20;
+  for (const field of certificate.signatureParams ? children(certificate.signatureParams) : []) {
+    const [inner] = children(field);
+    if (field.tag === 0xa0) hash = HASHES[readOid(children(inner)[0])] ?? hash;
+    if (field.tag === 0xa2) saltLength = inner.content.reduce((value, byte) => value * 256 + byte, 0);
+  }
+  return { kind: 'rsa-pss', hash, saltLength };
+}
+
+/**
+ * Verifies `signature` over `data` with the certificate's public key. ECDSA
+ * signatures are expected in raw r||s form unless `derEncoded` is set.
+ */
+export async function verifySignature(
+  certificate: Certificate,
+  scheme: SignatureScheme,
+  data: Uint8Array,
+  signature: Uint8Array,
+  derEncoded = false
+): Promise<boolean> {
+  try {
+    if (scheme.kind === 'ecdsa') {
+      const curve = CURVES[certificate.curve ?? ''];
+      if (certificate.keyAlgorithm !== OID.ecPublicKey || !curve) return false;
+      const key = await crypto.subtle.importKey('spki', certificate.spki, { name: 'ECDSA', namedCurve: curve.name }, false, [
+        'verify',
+      ]);
+      const raw = derEncoded ? ecdsaRawSignature(signature, curve.size) : signature;
+      return await crypto.subtle.verify({ name: 'ECDSA', hash: scheme.hash }, key, raw, data);
+    }
+    if (scheme.kind === 'ed25519') {
+      if (certificate.keyAlgorithm !== OID.ed25519) return false;
+      const key = await crypto.subtle.importKey('spki', certificate.spki, { name: 'Ed25519' }, false, ['verify']);
+      return await crypto.subtle.verify({ name: 'Ed25519' }, key, signature, data);
+    }
+    if (certificate.keyAlgorithm !== OID.rsaEncryption && certificate.keyAlgorithm !== OID.rsaPss) return false;
+    const name = scheme.kind === 'rsa-pss' ? 'RSA-PSS' : 'RSASSA-PKCS1-v1_5';
+    const key = await crypto.subtle.importKey('spki', certificate.spki, { name, hash: scheme.hash }, false, ['verify']);
+    return await crypto.subtle.verify(
+      scheme.kind === 'rsa-pss' ? { name, saltLength: scheme.saltLength } : { name },
+      key,
+      signature,
+      data
+    );
+  } catch (error) {
+    // Unsupported curves or key types; treat as a failed verification
+    console.warn('Signature verification failed:', error);
+    return false;
+  }
+}
+
+/** Whether `issuer` signed `certificate` */
+async function isIssuedBy(certificate: Certificate, issuer: Certificate): Promise<boolean> {
+  const scheme = schemeForCertificate(certificate);
+  return (
+    !!scheme &&
+    equalBytes(certificate.issuerDer, issuer.subjectDer) &&
+    verifySignature(issuer, scheme, certificate.tbs, certificate.signature, true)
+  );
+}
+
+/** Checks a leaf-first chain link by link, then whether it ends in one of the anchors */
+export async function verifyChain(
+  chain: Certificate[],
+  anchors: Certificate[],
+  at: Date
+): Promise<ChainVerification> {
+  const errors: string[] = [];
+
+  for (const certificate of chain) {
+    if (at < certificate.notBefore || at > certificate.notAfter) {
+      errors.push(`Certificate "${certificate.subject.commonName ?? 'unnamed'}" was not valid at signing time`);
+    }
+  }
+  for (let i = 0; i < chain.length - 1; i++) {
+    if (!(await isIssuedBy(chain[i], chain[i + 1]))) {
+      errors.push(`Certificate "${chain[i].subject.commonName ?? 'unnamed'}" is not signed by the next one in the chain`);
+    }
+  }
+
+  const last = chain[chain.length - 1];
+  let trusted = false;
+  for (const anchor of anchors) {
+    if (equalBytes(anchor.der, last.der) || (await isIssuedBy(last, anchor))) {
+      trusted = true;
+      break;
+    }
+  }
+
+  return { valid: errors.length === 0, trusted, errors };
+}
@@ -0,0 +1,290 @@
+/**
+ * Demuxes MP4/MOV files with mp4box and decodes exact frames with WebCodecs,
+ * off the main thread. Driven by the WebCodecs frame source in frameExtractor.
+ */
+
+import {
+  createFile,
+  DataStream,
+  Endianness,
+  MP4BoxBuffer,
+  type ISOFile,
+  type Movie,
+  type MultiBufferStream,
+  type Sample,
+  type Track,
+  type VisualSampleEntry,
+} from 'mp4box';
+import type { FrameRequest, FrameResult } from '@/utils/frameSources';
+
+export type DecoderRequest =
+  | { type: 'open'; file: File }
+  | { type: 'grab'; id: number; requests: FrameRequest[] }
+  | { type: 'close' };
+
+export type DecoderResponse =
+  | { type: 'opened'; duration: number; width: number; height: number }
+  | { type: 'progress'; id: number; completed: number }
+  | { type: 'grabbed'; id: number; results: (FrameResult | null)[] }
+  | { type: 'error'; id?: number; message: string };
+
+interface DecodableSample {
+  /** Presentation time in the movie, after the edit list, in microseconds; used as the chunk timestamp */
+  timestamp: number;
+  duration: number;
+  isSync: boolean;
+  data: Uint8Array;
+  decodeIndex: number;
+}
+
+interface Target {
+  request: FrameRequest;
+  resultIndex: number;
+  sample: DecodableSample;
+}
+
+let decoderConfig: VideoDecoderConfig | null = null;
+let width = 0;
+let height = 0;
+// Decode order, as stored in the file
+let samples: DecodableSample[] = [];
+// Presentation order, for timestamp lookups
+let presentation: DecodableSample[] = [];
+
+const post = (message: DecoderResponse, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+function getCodecDescription(file: ISOFile, trackId: number): Uint8Array | undefined {
+  const trak = file.getTrackById(trackId);
+  for (const entry of trak.mdia.minf.stbl.stsd.entries) {
+    const visual = entry as VisualSampleEntry;
+    const box = visual.avcC ?? visual.hvcC ?? visual.vpcC ?? visual.av1C;
+    if (box) {
+      const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+      // Config boxes only use the plain DataStream writers despite the declared type
+      box.write(stream as MultiBufferStream);
+      // Strip the 8-byte box header, WebCodecs wants the payload only
+      return new Uint8Array(stream.buffer, 8);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Seconds from a sample's media time to when the movie presents it. Leading
+ * empty edits delay the track and the first media edit starts playback at
+ * its media_time; later edits, which re-time or repeat segments, are rare
+ * and left unmapped.
+ */
+function editOffset(track: Track, movieTimescale: number): number {
+  let delay = 0;
+  for (const edit of track.edits ?? []) {
+    if (edit.media_time === -1) {
+      delay += edit.segment_duration / movieTimescale;
+      continue;
+    }
+    return delay - edit.media_time / track.timescale;
+  }
+  return delay;
+}
+
+async function open(file: File): Promise<void> {
+  const buffer = MP4BoxBuffer.fromArrayBuffer(await file.arrayBuffer(), 0);
+  const mp4 = createFile();
+
+  const info = await new Promise<Movie>((resolve, reject) => {
+    mp4.onReady = resolve;
+    mp4.onError = (module, message) => reject(new Error(`${module}: ${message}`));
+    mp4.appendBuffer(buffer);
+    mp4.flush();
+  });
+
+  const track = info.videoTracks[0];
+  if (!track) throw new Error('No video track found');
+
+  decoderConfig = {
+    codec: track.codec,
+    codedWidth: track.video?.width ?? track.track_width,
+    codedHeight: track.video?.height ?? track.track_height,
+    description: getCodecDescription(mp4, track.id),
+  };
+
+  const support = await VideoDecoder.isConfigSupported(decoderConfig);
+  if (!support.supported) throw new Error(`Codec ${track.codec} is not supported by VideoDecoder`);
+
+  // The whole file is buffered, so samples are handed over synchronously. Flushing
+  // sends the last batch however many the header announced; fragmented files announce none.
+  const extracted: Sample[] = [];
+  mp4.onSamples = (_id, _user, batch) => {
+    extracted.push(...batch);
+  };
+  mp4.setExtractionOptions(track.id, null, { nbSamples: Infinity });
+  mp4.start();
+  mp4.flush();
+  if (extracted.length === 0) throw new Error('No video samples found');
+
+  const offset = editOffset(track, info.timescale);
+  samples = extracted.map((sample, decodeIndex) => ({
+    // VideoFrame timestamps are whole microseconds, round so lookups match
+    timestamp: Math.round((sample.cts / sample.timescale + offset) * 1e6),
+    duration: (sample.duration * 1e6) / sample.timescale,
+    isSync: sample.is_sync,
+    data: sample.data!,
+    decodeIndex,
+  }));
+  presentation = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+
+  width = decoderConfig.codedWidth!;
+  height = decoderConfig.codedHeight!;
+
+  post({
+    type: 'opened',
+    duration: info.duration / info.timescale,
+    width,
+    height,
+  });
+}
+
+// The frame on screen at `seconds`: the last one presented at or before it
+function sampleAt(seconds: number): DecodableSample {
+  const target = seconds * 1e6;
+  let low = 0;
+  let high = presentation.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (presentation[mid].timestamp <= target) low = mid;
+    else high = mid - 1;
+  }
+  return presentation[low];
+}
+
+function syncBefore(decodeIndex: number): number {
+  for (let i = decodeIndex; i >= 0; i--) {
+    if (samples[i].isSync) return i;
+  }
+  return 0;
+}
+
+async function render(frame: VideoFrame, request: FrameRequest): Promise<FrameResult> {
+  const targetWidth = Math.min(width, request.width);
+  const targetHeight = Math.max(1, Math.round((targetWidth / width) * height));
+  const canvas = new OffscreenCanvas(targetWidth, targetHeight);
+  const ctx = canvas.getContext('2d', { willReadFrequently: request.format === 'imageData' });
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.drawImage(frame, 0, 0, targetWidth, targetHeight);
+
+  if (request.format === 'imageData') {
+    return ctx.getImageData(0, 0, targetWidth, targetHeight);
+  }
+
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: request.quality ?? 0.8 });
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Decodes each group of pictures once, from its sync sample up to the last
+ * requested frame in it, and renders every requested frame as it comes out.
+ */
+async function grab(id: number, requests: FrameRequest[]): Promise<void> {
+  if (!decoderConfig) throw new Error('No file open');
+
+  const results: (FrameResult | null)[] = requests.map(() => null);
+  const groups = new Map<number, Target[]>();
+
+  requests.forEach((request, resultIndex) => {
+    const sample = sampleAt(request.timestamp);
+    const sync = syncBefore(sample.decodeIndex);
+    groups.set(sync, [...(groups.get(sync) ?? []), { request, resultIndex, sample }]);
+  });
+
+  let completed = 0;
+  let wanted = new Map<number, Target[]>();
+  const pending: Promise<void>[] = [];
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      const targets = wanted.get(frame.timestamp);
+      if (!targets) {
+        frame.close();
+        return;
+      }
+      wanted.delete(frame.timestamp);
+      // Draw every target synchronously, then release the frame
+      const renders = targets.map((target) =>
+        render(frame, target.request)
+          .then((result) => {
+            results[target.resultIndex] = result;
+          })
+          .catch((error) => console.warn(`Failed to render frame at ${target.request.timestamp}s:`, error))
+          .finally(() => post({ type: 'progress', id, completed: ++completed }))
+      );
+      pending.push(Promise.all(renders).then(() => frame.close()));
+    },
+    error: (error) => console.warn('VideoDecoder error:', error),
+  });
+
+  try {
+    for (const sync of [...groups.keys()].sort((a, b) => a - b)) {
+      const targets = groups.get(sync)!;
+      const end = Math.max(...targets.map((t) => t.sample.decodeIndex));
+
+      wanted = new Map();
+      for (const target of targets) {
+        wanted.set(target.sample.timestamp, [...(wanted.get(target.sample.timestamp) ?? []), target]);
+      }
+
+      // A flush leaves the decoder expecting a key frame, so reconfigure per group
+      decoder.configure(decoderConfig);
+      for (let i = sync; i <= end; i++) {
+        const sample = samples[i];
+        decoder.decode(
+          new EncodedVideoChunk({
+            type: sample.isSync ? 'key' : 'delta',
+            timestamp: sample.timestamp,
+            duration: sample.duration,
+            data: sample.data,
+          })
+        );
+      }
+      await decoder.flush();
+    }
+    await Promise.all(pending);
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+  }
+
+  const buffers = results.filter((r): r is ImageData => r instanceof ImageData).map((r) => r.data.buffer);
+  post({ type: 'grabbed', id, results }, buffers);
+}
+
+self.onmessage = async (event: MessageEvent<DecoderRequest>) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case 'open':
+        await open(message.file);
+        break;
+      case 'grab':
+        await grab(message.id, message.requests);
+        break;
+      case 'close':
+        samples = [];
+        presentation = [];
+        self.close();
+        break;
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      id: message.type === 'grab' ? message.id : undefined,
+      message: error instanceof Error ? error.message : 'Frame decoding failed',
+    });
+  }
+};
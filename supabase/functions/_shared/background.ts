@@ -0,0 +1,12 @@
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void } | undefined;
+
+/**
+ * Keeps the invocation alive until `task` settles without delaying the
+ * response. Failures are only logged; there is nobody left to report them to.
+ */
+export const runInBackground = (task: Promise<unknown>) => {
+  const guarded = task.catch((error) => console.error("Background task failed:", error));
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(guarded);
+  }
+};
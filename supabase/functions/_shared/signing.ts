@@ -0,0 +1,123 @@
+/**
+ * Ed25519 report signing. The key comes from REPORT_SIGNING_KEY as a
+ * base64-encoded PKCS#8 private key, e.g. generated with
+ * `openssl genpkey -algorithm ed25519 -outform DER | base64`.
+ */
+
+export interface ReportSignature {
+  algorithm: "Ed25519";
+  /** First 16 hex chars of the SHA-256 of the raw public key */
+  keyId: string;
+  /** The exact string that was signed: a JSON attestation of the analysis */
+  payload: string;
+  /** Base64 signature over the UTF-8 bytes of `payload` */
+  value: string;
+}
+
+export interface PublicKeyInfo {
+  algorithm: "Ed25519";
+  keyId: string;
+  /** Raw public key as the base64url `x` member of an OKP JWK */
+  publicKey: string;
+}
+
+interface SigningKey extends PublicKeyInfo {
+  privateKey: CryptoKey;
+  verifyKey: CryptoKey;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value.trim()), (char) => char.charCodeAt(0));
+
+const fromBase64Url = (value: string) => fromBase64(value.replace(/-/g, "+").replace(/_/g, "/"));
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === "string" ? encoder.encode(data) : data;
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", bytes)));
+}
+
+let signingKey: Promise<SigningKey | null> | null = null;
+
+async function loadSigningKey(): Promise<SigningKey | null> {
+  const encoded = Deno.env.get("REPORT_SIGNING_KEY");
+  if (!encoded) {
+    return null;
+  }
+
+  const pkcs8 = fromBase64(encoded);
+  // Exporting as JWK is the only WebCrypto way to get the public half of a private key
+  const extractable = await crypto.subtle.importKey("pkcs8", pkcs8, { name: "Ed25519" }, true, ["sign"]);
+  const jwk = await crypto.subtle.exportKey("jwk", extractable);
+  if (!jwk.x) {
+    throw new Error("REPORT_SIGNING_KEY is not an Ed25519 private key");
+  }
+
+  return {
+    algorithm: "Ed25519",
+    keyId: (await sha256Hex(fromBase64Url(jwk.x))).slice(0, 16),
+    publicKey: jwk.x,
+    privateKey: await crypto.subtle.importKey("pkcs8", pkcs8, { name: "Ed25519" }, false, ["sign"]),
+    verifyKey: await crypto.subtle.importKey(
+      "jwk",
+      { kty: "OKP", crv: "Ed25519", x: jwk.x },
+      { name: "Ed25519" },
+      false,
+      ["verify"]
+    ),
+  };
+}
+
+const getSigningKey = () => {
+  if (!signingKey) {
+    signingKey = loadSigningKey().catch((error) => {
+      signingKey = null;
+      throw error;
+    });
+  }
+  return signingKey;
+};
+
+export async function getPublicKeyInfo(): Promise<PublicKeyInfo | null> {
+  const key = await getSigningKey();
+  return key ? { algorithm: key.algorithm, keyId: key.keyId, publicKey: key.publicKey } : null;
+}
+
+/** Signs `payload` verbatim; returns null when no signing key is configured */
+export async function signPayload(payload: string): Promise<ReportSignature | null> {
+  const key = await getSigningKey();
+  if (!key) {
+    return null;
+  }
+
+  const signature = await crypto.subtle.sign("Ed25519", key.privateKey, encoder.encode(payload));
+  return {
+    algorithm: "Ed25519",
+    keyId: key.keyId,
+    payload,
+    value: toBase64(new Uint8Array(signature)),
+  };
+}
+
+/** Checks that `signature` was issued by this deployment's current key */
+export async function verifyPayload(signature: ReportSignature): Promise<boolean> {
+  const key = await getSigningKey();
+  if (!key || signature?.algorithm !== "Ed25519" || signature.keyId !== key.keyId) {
+    return false;
+  }
+
+  try {
+    return await crypto.subtle.verify(
+      "Ed25519",
+      key.verifyKey,
+      fromBase64(signature.value),
+      encoder.encode(signature.payload)
+    );
+  } catch {
+    return false;
+  }
+}
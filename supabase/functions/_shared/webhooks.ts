@@ -0,0 +1,303 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Webhook deliveries. Every event becomes one webhook_deliveries row per
+ * endpoint; a delivery is attempted right away and, when that fails, again
+ * by the webhooks function with exponential backoff.
+ *
+ * Each request carries `X-Webhook-Signature: t=<unix seconds>,v1=<hex>`,
+ * where v1 is the HMAC-SHA256 of `${t}.${body}` under the endpoint's secret.
+ */
+
+export type WebhookEventType = "analysis.completed" | "test";
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: {
+    analysisId: string | null;
+    verdict: "real" | "ai-generated";
+    confidence: number;
+    framesAnalyzed: number;
+    fileName: string | null;
+    fileHash: string | null;
+    analyzedAt: string;
+    /** The saved result in the web app; null when PUBLIC_APP_URL is not set or the result was not saved */
+    resultUrl: string | null;
+    /** The saved result through the REST API */
+    apiUrl: string | null;
+  };
+}
+
+interface DeliveryRow {
+  id: string;
+  webhook_id: string;
+  event: WebhookEventType;
+  payload: WebhookEvent;
+  attempts: number;
+  next_attempt_at: string;
+}
+
+const MAX_ATTEMPTS = 8;
+// 30s, 1m, 2m, 4m ... roughly an hour between the last two attempts
+const BASE_RETRY_SECONDS = 30;
+const REQUEST_TIMEOUT_MS = 10_000;
+// A claimed delivery is left alone this long, so two runs never send it twice
+const CLAIM_SECONDS = 60;
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export async function signWebhookBody(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`)));
+}
+
+/** Links to a saved analysis, for webhook payloads */
+export function analysisLinks(analysisId: string | null | undefined) {
+  const appUrl = Deno.env.get("PUBLIC_APP_URL")?.replace(/\/$/, "");
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  return {
+    resultUrl: analysisId && appUrl ? `${appUrl}/history/${analysisId}` : null,
+    apiUrl: analysisId && supabaseUrl ? `${supabaseUrl}/functions/v1/api/v1/analyses/${analysisId}` : null,
+  };
+}
+
+/**
+ * Records a delivery of `event` for each of the user's active endpoints that
+ * wants it (or just `webhookId`). Returns the new delivery ids.
+ */
+export async function enqueueWebhookEvent(
+  db: SupabaseClient,
+  userId: string,
+  event: WebhookEvent,
+  webhookId?: string
+): Promise<string[]> {
+  let query = db.from("webhooks").select("id, verdicts").eq("user_id", userId).eq("active", true);
+  if (webhookId) {
+    query = query.eq("id", webhookId);
+  }
+  const { data: webhooks, error } = await query;
+  if (error) throw error;
+
+  const targets = (webhooks as { id: string; verdicts: string[] }[]).filter(
+    (webhook) => event.type === "test" || webhook.verdicts.length === 0 || webhook.verdicts.includes(event.data.verdict)
+  );
+  if (targets.length === 0) {
+    return [];
+  }
+
+  const { data: deliveries, error: insertError } = await db
+    .from("webhook_deliveries")
+    .insert(targets.map((webhook) => ({ webhook_id: webhook.id, user_id: userId, event: event.type, payload: event })))
+    .select("id");
+  if (insertError) throw insertError;
+
+  return deliveries.map((delivery: { id: string }) => delivery.id);
+}
+
+// Loopback, private, link-local (cloud metadata), shared, benchmark, multicast and reserved IPv4 ranges
+const BLOCKED_IPV4: [number, number][] = [
+  [0x00000000, 8],
+  [0x0a000000, 8],
+  [0x64400000, 10],
+  [0x7f000000, 8],
+  [0xa9fe0000, 16],
+  [0xac100000, 12],
+  [0xc0000000, 24],
+  [0xc0a80000, 16],
+  [0xc6120000, 15],
+  [0xe0000000, 3],
+];
+
+const parseIpv4 = (address: string): number | null => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+};
+
+const isBlockedIpv4 = (value: number) =>
+  BLOCKED_IPV4.some(([network, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(network / 2 ** (32 - bits)));
+
+/** The eight 16-bit groups of an IPv6 address, or null when it is not one */
+function parseIpv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+  // An embedded IPv4 address fills the last two groups
+  const v4 = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const value = parseIpv4(v4[2]);
+    if (value === null) return null;
+    text = `${v4[1]}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || (halves.length === 2 && missing < 1)) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isBlockedIpv6(groups: number[]) {
+  const [first] = groups;
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses reach the IPv4 address they embed
+  const embedsIpv4 =
+    (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) ||
+    (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0));
+  if (embedsIpv4) {
+    return isBlockedIpv4(groups[6] * 65536 + groups[7]);
+  }
+  return (
+    groups.slice(0, 7).every((group) => group === 0) || // :: and ::1
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}
+
+const isBlockedAddress = (address: string) => {
+  const v4 = parseIpv4(address);
+  if (v4 !== null) return isBlockedIpv4(v4);
+  const v6 = parseIpv6(address);
+  return v6 === null || isBlockedIpv6(v6);
+};
+
+/**
+ * Why a webhook URL must not be called, or null when it may. Endpoints are
+ * chosen by users, so without this check deliveries could reach services
+ * inside the platform's network, including the cloud metadata endpoint.
+ */
+export async function findWebhookUrlError(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "The webhook URL is invalid";
+  }
+  if (parsed.protocol !== "https:") {
+    return "Webhook URLs must use https";
+  }
+
+  const host = parsed.hostname;
+  let addresses: string[];
+  if (parseIpv4(host) !== null || host.startsWith("[")) {
+    addresses = [host];
+  } else {
+    const lookups = await Promise.allSettled([Deno.resolveDns(host, "A"), Deno.resolveDns(host, "AAAA")]);
+    addresses = lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+    if (addresses.length === 0) {
+      return `Could not resolve ${host}`;
+    }
+  }
+
+  return addresses.some(isBlockedAddress) ? `${host} resolves to a private or reserved address` : null;
+}
+
+async function send(url: string, secret: string, delivery: DeliveryRow) {
+  const urlError = await findWebhookUrlError(url);
+  if (urlError) {
+    throw new Error(urlError);
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  return fetch(url, {
+    method: "POST",
+    // A redirect could point anywhere, past the address check above; it counts as a failed attempt
+    redirect: "manual",
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "dectionpro-webhooks/1",
+      "X-Webhook-Id": delivery.id,
+      "X-Webhook-Event": delivery.event,
+      "X-Webhook-Signature": `t=${timestamp},v1=${await signWebhookBody(secret, timestamp, body)}`,
+    },
+    body,
+  });
+}
+
+/** Makes one attempt at a delivery and records the outcome; claimed first so concurrent runs skip it */
+async function attempt(db: SupabaseClient, delivery: DeliveryRow) {
+  const { data: claimed } = await db
+    .from("webhook_deliveries")
+    .update({ next_attempt_at: new Date(Date.now() + CLAIM_SECONDS * 1000).toISOString() })
+    .eq("id", delivery.id)
+    .eq("status", "pending")
+    .eq("next_attempt_at", delivery.next_attempt_at)
+    .select("id")
+    .maybeSingle();
+  if (!claimed) {
+    return;
+  }
+
+  const { data: webhook } = await db
+    .from("webhooks")
+    .select("url, secret, active")
+    .eq("id", delivery.webhook_id)
+    .maybeSingle();
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if (!webhook?.active) {
+    error = "Webhook was disabled";
+  } else {
+    try {
+      const response = await send(webhook.url, webhook.secret, delivery);
+      responseStatus = response.status;
+      // Only the status matters; drain the body so the connection is released
+      await response.body?.cancel();
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (cause) {
+      error = cause instanceof Error ? cause.message : "Request failed";
+    }
+  }
+
+  const succeeded = error === null;
+  const givenUp = !succeeded && (attempts >= MAX_ATTEMPTS || !webhook?.active);
+  const { error: updateError } = await db
+    .from("webhook_deliveries")
+    .update({
+      status: succeeded ? "succeeded" : givenUp ? "failed" : "pending",
+      attempts,
+      response_status: responseStatus,
+      error,
+      delivered_at: succeeded ? new Date().toISOString() : null,
+      next_attempt_at: new Date(Date.now() + BASE_RETRY_SECONDS * 2 ** (attempts - 1) * 1000).toISOString(),
+    })
+    .eq("id", delivery.id);
+  if (updateError) {
+    console.error(`Failed to record webhook delivery ${delivery.id}:`, updateError);
+  }
+}
+
+/** Attempts the given deliveries, or every due one when no ids are passed */
+export async function deliverWebhooks(db: SupabaseClient, ids?: string[]): Promise<number> {
+  let query = db
+    .from("webhook_deliveries")
+    .select("id, webhook_id, event, payload, attempts, next_attempt_at")
+    .eq("status", "pending");
+  query = ids ? query.in("id", ids) : query.lte("next_attempt_at", new Date().toISOString()).limit(50);
+
+  const { data: deliveries, error } = await query;
+  if (error) throw error;
+
+  await Promise.all((deliveries as DeliveryRow[]).map((delivery) => attempt(db, delivery)));
+  return deliveries.length;
+}
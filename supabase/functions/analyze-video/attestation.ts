@@ -0,0 +1,90 @@
+import { signPayload, type ReportSignature } from "../_shared/signing.ts";
+import type { AnalysisMetadata, AnalysisResult } from "./types.ts";
+
+/**
+ * Signs what this function actually saw and decided. The file hash and the
+ * file's Content Credentials are the client's claims and never decide the
+ * verdict; the frame digests are SHA-256 hashes computed server-side
+ * from the submitted frames, so a report only verifies against a file that
+ * produces them.
+ */
+export async function signAnalysis(
+  analysisId: string,
+  result: AnalysisResult,
+  frameDigests: string[],
+  metadata: AnalysisMetadata = {}
+): Promise<ReportSignature | null> {
+  const attestation = {
+    version: 1,
+    issuer: "analyze-video",
+    signedAt: new Date().toISOString(),
+    analysisId,
+    file: {
+      name: metadata.fileName ?? null,
+      sha256: metadata.fileHash ?? null,
+      size: metadata.fileSize ?? null,
+      duration: metadata.duration ?? null,
+    },
+    frameDigests,
+    result: {
+      verdict: result.verdict,
+      confidence: result.confidence,
+      details: result.details,
+      temporal: result.temporal,
+      forensics: result.forensics
+        ? {
+            score: result.forensics.score,
+            elaInconsistency: result.forensics.elaInconsistency,
+            noiseInconsistency: result.forensics.noiseInconsistency,
+          }
+        : null,
+      compression: result.compression
+        ? { score: result.compression.score, explanation: result.compression.explanation }
+        : null,
+      fileMetadata: result.fileMetadata
+        ? { score: result.fileMetadata.score, findings: result.fileMetadata.findings }
+        : null,
+      provenance: result.provenance
+        ? {
+            status: result.provenance.status,
+            trusted: result.provenance.trusted,
+            aiGenerated: result.provenance.aiGenerated,
+            aiTool: result.provenance.aiTool,
+            claimGenerator: result.provenance.claimGenerator,
+          }
+        : null,
+      audio: result.audio
+        ? {
+            verdict: result.audio.verdict,
+            confidence: result.audio.confidence,
+            provider: result.audio.provider,
+            segments: result.audio.segments.map(({ start, end, isArtificial, confidence }) => ({
+              start,
+              end,
+              isArtificial,
+              confidence,
+            })),
+          }
+        : null,
+      framesAnalyzed: result.framesAnalyzed,
+      analyzedAt: result.analyzedAt,
+      ensemble: result.ensemble,
+      promptVersion: result.promptVersion,
+      frames: result.frameAnalyses.map(({ frameIndex, isArtificial, confidence, issues }) => ({
+        frameIndex,
+        timestamp: metadata.frames?.[frameIndex]?.timestamp ?? null,
+        isArtificial,
+        confidence,
+        issues,
+      })),
+    },
+  };
+
+  try {
+    return await signPayload(JSON.stringify(attestation));
+  } catch (error) {
+    // An unsigned result is still useful; the report just cannot be verified
+    console.error("Failed to sign analysis:", error);
+    return null;
+  }
+}
@@ -0,0 +1,181 @@
+import type { AudioReport, AudioSegmentAnalysis, AudioSegmentInput } from "./types.ts";
+
+/**
+ * A voice deepfake backend classifies one segment of the audio track. Audio
+ * is analyzed apart from the frames and gets its own verdict, since a real
+ * video can carry a cloned voice and the other way round.
+ */
+export interface AudioProvider {
+  name: string;
+  analyzeSegment: (segment: AudioSegmentInput) => Promise<AudioSegmentAnalysis>;
+}
+
+export type AudioProviderType = "classifier" | "mock";
+
+export const MAX_AUDIO_SEGMENTS = 12;
+// A 4 second 16 kHz WAV is about 170 KB as a data URL; leave room for longer segments or higher rates
+const MAX_SEGMENT_LENGTH = 1_000_000;
+// Segments classified in parallel
+const BATCH_SIZE = 4;
+
+const clamp01 = (value: unknown, fallback = 0.5) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+const toSegmentAnalysis = (segment: AudioSegmentInput, score: number, issues: unknown): AudioSegmentAnalysis => {
+  const isArtificial = score >= 0.5;
+  return {
+    index: segment.index,
+    start: segment.start,
+    end: segment.end,
+    isArtificial,
+    confidence: isArtificial ? score : 1 - score,
+    probability: score,
+    issues: Array.isArray(issues) ? issues.filter((i): i is string => typeof i === "string") : [],
+  };
+};
+
+/** Returns why the segments cannot be analyzed, or null when they can */
+export function findSegmentError(segments: unknown): string | null {
+  if (!Array.isArray(segments) || segments.length === 0) {
+    return "No audio segments provided";
+  }
+  if (segments.length > MAX_AUDIO_SEGMENTS) {
+    return `At most ${MAX_AUDIO_SEGMENTS} audio segments can be analyzed`;
+  }
+
+  const valid = (segments as AudioSegmentInput[]).every(
+    (segment) =>
+      typeof segment === "object" &&
+      segment !== null &&
+      Number.isInteger(segment.index) &&
+      typeof segment.start === "number" &&
+      typeof segment.end === "number" &&
+      segment.end > segment.start &&
+      typeof segment.audio === "string" &&
+      segment.audio.startsWith("data:audio/") &&
+      segment.audio.length <= MAX_SEGMENT_LENGTH
+  );
+  return valid ? null : "Audio segments must be audio data URLs with a start and end time";
+}
+
+/**
+ * A plain HTTP classifier that returns the probability of the voice being
+ * synthetic: `{ score, issues? }`. It receives the WAV data URL and the
+ * client's spectral features.
+ */
+export function createHttpAudioClassifierProvider(options: {
+  url: string;
+  apiKey?: string;
+  model?: string;
+}): AudioProvider {
+  const { url, apiKey, model } = options;
+
+  return {
+    name: `audio-classifier:${model ?? new URL(url).host}`,
+    analyzeSegment: async (segment) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          audio: segment.audio,
+          segmentIndex: segment.index,
+          start: segment.start,
+          end: segment.end,
+          features: segment.features,
+          model,
+        }),
+      });
+
+      if (!response.ok) {
+        console.error(`Audio classifier error for segment ${segment.index}:`, response.status, await response.text());
+        throw new Error(`Audio classifier error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (typeof data.score !== "number") {
+        console.error("Audio classifier response missing score:", data);
+        return toSegmentAnalysis(segment, 0.5, ["Unable to analyze segment"]);
+      }
+
+      return toSegmentAnalysis(segment, clamp01(data.score), data.issues);
+    },
+  };
+}
+
+// FNV-1a, used so the mock returns the same score for the same segment
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Deterministic offline backend, like the frame mock provider */
+export function createMockAudioProvider(): AudioProvider {
+  return {
+    name: "mock",
+    analyzeSegment: async (segment) => {
+      const score = (hashString(segment.audio) % 1000) / 1000;
+      return toSegmentAnalysis(segment, score, score >= 0.5 ? ["Mock provider flagged this segment"] : []);
+    },
+  };
+}
+
+/**
+ * Picks the backend from AUDIO_PROVIDER and the related env config. Returns
+ * null when none is configured; videos are then analyzed without their audio.
+ */
+export function resolveAudioProvider(): AudioProvider | null {
+  const type = Deno.env.get("AUDIO_PROVIDER") as AudioProviderType | undefined;
+
+  switch (type) {
+    case undefined:
+      return null;
+
+    case "mock":
+      return createMockAudioProvider();
+
+    case "classifier": {
+      const url = Deno.env.get("AUDIO_CLASSIFIER_URL");
+      if (!url) {
+        throw new Error("AUDIO_CLASSIFIER_URL is not configured");
+      }
+      return createHttpAudioClassifierProvider({
+        url,
+        apiKey: Deno.env.get("AUDIO_CLASSIFIER_API_KEY"),
+        model: Deno.env.get("AUDIO_CLASSIFIER_MODEL"),
+      });
+    }
+
+    default:
+      throw new Error(`Unknown audio provider: ${type}`);
+  }
+}
+
+/** Classifies every segment and combines them into a majority verdict, weighed like the frames */
+export async function analyzeAudio(provider: AudioProvider, segments: AudioSegmentInput[]): Promise<AudioReport> {
+  const analyses: AudioSegmentAnalysis[] = [];
+  for (let i = 0; i < segments.length; i += BATCH_SIZE) {
+    const batch = segments.slice(i, i + BATCH_SIZE);
+    analyses.push(...(await Promise.all(batch.map((segment) => provider.analyzeSegment(segment)))));
+  }
+  analyses.sort((a, b) => a.start - b.start);
+
+  const artificialShare = analyses.filter((a) => a.isArtificial).length / analyses.length;
+  const avgConfidence = analyses.reduce((sum, a) => sum + a.confidence, 0) / analyses.length;
+  const isAIGenerated = artificialShare > 0.5;
+  const confidence = (isAIGenerated ? artificialShare : 1 - artificialShare) * avgConfidence;
+
+  return {
+    verdict: isAIGenerated ? "ai-generated" : "real",
+    confidence: Math.min(0.99, Math.max(0.5, confidence)),
+    provider: provider.name,
+    segmentsAnalyzed: analyses.length,
+    segments: analyses,
+  };
+}
@@ -0,0 +1,93 @@
+import { getServiceClient } from "./db.ts";
+
+export interface AuthenticatedUser {
+  id: string;
+  /** Guests signed in with Supabase anonymous sign-in */
+  isAnonymous: boolean;
+}
+
+const DEFAULT_ANONYMOUS_LIMIT = 3;
+const DEFAULT_ANONYMOUS_WINDOW_MINUTES = 60;
+
+const readPositiveInt = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+
+const isIpAddress = (value: string) => {
+  if (IPV4.test(value)) return true;
+  if (!value.includes(":") || !/^[0-9a-f:.]+$/i.test(value)) return false;
+  try {
+    new URL(`http://[${value}]`);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The address the platform's proxy saw. Clients may send their own
+ * X-Forwarded-For, so only the last hop, the one the proxy appended, is
+ * trusted; anything that is not an IP address counts as unknown.
+ */
+export const getClientIp = (req: Request) => {
+  const hop = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return hop && isIpAddress(hop) ? hop : null;
+};
+
+/**
+ * Resolves the user behind the request's bearer token. The gateway already
+ * checked the JWT signature; this rejects tokens that are not a signed-in
+ * user, such as the bare publishable key.
+ */
+export async function authenticate(req: Request): Promise<AuthenticatedUser | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) {
+    return null;
+  }
+
+  const supabase = getServiceClient();
+  if (!supabase) {
+    throw new Error("Supabase credentials are not configured");
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    return null;
+  }
+
+  return { id: data.user.id, isAnonymous: data.user.is_anonymous === true };
+}
+
+/**
+ * Logs the request and, for guests, enforces ANONYMOUS_RATE_LIMIT analyses
+ * per ANONYMOUS_RATE_WINDOW_MINUTES. Guests are counted by user and by IP so
+ * signing in anonymously again does not reset the limit. The check and the
+ * insert run in one locked transaction so parallel requests cannot overshoot.
+ * Returns the seconds to wait when the limit is reached, otherwise null.
+ */
+export async function recordAnalysisRequest(
+  user: AuthenticatedUser,
+  clientIp: string | null
+): Promise<number | null> {
+  const supabase = getServiceClient();
+  if (!supabase) {
+    throw new Error("Supabase credentials are not configured");
+  }
+
+  const { data, error } = await supabase.rpc("record_analysis_request", {
+    p_user_id: user.id,
+    p_is_anonymous: user.isAnonymous,
+    p_client_ip: clientIp,
+    p_limit: readPositiveInt("ANONYMOUS_RATE_LIMIT", DEFAULT_ANONYMOUS_LIMIT),
+    p_window_minutes: readPositiveInt("ANONYMOUS_RATE_WINDOW_MINUTES", DEFAULT_ANONYMOUS_WINDOW_MINUTES),
+  });
+
+  if (error) {
+    throw new Error(`Failed to record request: ${error.message}`);
+  }
+
+  return typeof data === "number" ? data : null;
+}
@@ -0,0 +1,14 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Service-role client for writes that bypass RLS, or null when the function
+ * runs without Supabase credentials (e.g. local mock runs).
+ */
+export function getServiceClient(): SupabaseClient | null {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) {
+    return null;
+  }
+  return createClient(url, serviceKey, { auth: { persistSession: false } });
+}
@@ -0,0 +1,216 @@
+import { mockProviderAllowed, resolveProvider, type DetectionProvider, type ProviderRequest, type ProviderType } from "./providers.ts";
+import type { AnalysisContext, DetailedFrameAnalysis, ModelVerdict } from "./types.ts";
+
+export type AggregationStrategy = "majority" | "mean" | "weighted" | "max";
+
+export const AGGREGATION_STRATEGIES: AggregationStrategy[] = ["majority", "mean", "weighted", "max"];
+
+export interface EnsembleMemberRequest extends ProviderRequest {
+  /** Relative trust in this model, used by the "weighted" strategy. Defaults to 1. Server config only. */
+  reliability?: number;
+  /** Temperature applied to the model's probability in logit space. Defaults to 1 (uncalibrated). Server config only. */
+  temperature?: number;
+}
+
+export interface EnsembleRequest {
+  strategy?: AggregationStrategy;
+  members?: EnsembleMemberRequest[];
+}
+
+interface EnsembleMember {
+  provider: DetectionProvider;
+  reliability: number;
+  temperature: number;
+}
+
+export interface Ensemble {
+  strategy: AggregationStrategy;
+  members: EnsembleMember[];
+  analyzeFrame: (
+    frameBase64: string,
+    frameIndex: number,
+    context?: AnalysisContext
+  ) => Promise<DetailedFrameAnalysis>;
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * Probability that the frame is artificial, as reported by one model.
+ */
+const toProbability = (analysis: { isArtificial: boolean; confidence: number }) =>
+  analysis.isArtificial ? analysis.confidence : 1 - analysis.confidence;
+
+// Temperature scaling: T > 1 softens an over-confident model, T < 1 sharpens it
+const calibrate = (probability: number, temperature: number) => {
+  const p = Math.min(1 - EPSILON, Math.max(EPSILON, probability));
+  const logit = Math.log(p / (1 - p)) / temperature;
+  return 1 / (1 + Math.exp(-logit));
+};
+
+const weightedMean = (values: number[], weights: number[]) => {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight === 0) return values.reduce((sum, v) => sum + v, 0) / values.length;
+  return values.reduce((sum, v, i) => sum + v * weights[i], 0) / totalWeight;
+};
+
+/**
+ * Combines the per-model verdicts for one frame into a single verdict.
+ */
+export function aggregateVerdicts(
+  verdicts: ModelVerdict[],
+  reliabilities: number[],
+  strategy: AggregationStrategy
+): { isArtificial: boolean; confidence: number } {
+  const probabilities = verdicts.map((v) => v.probability);
+
+  switch (strategy) {
+    case "majority": {
+      const votes = verdicts.filter((v) => v.isArtificial).length;
+      const isArtificial = votes > verdicts.length / 2;
+      // Confidence is how sure the winning side was, on average
+      const winners = verdicts.filter((v) => v.isArtificial === isArtificial);
+      const confidence = winners.reduce((sum, v) => sum + v.confidence, 0) / winners.length;
+      return { isArtificial, confidence };
+    }
+    case "weighted":
+    case "mean":
+    case "max": {
+      const probability =
+        strategy === "max"
+          ? Math.max(...probabilities)
+          : weightedMean(
+              probabilities,
+              strategy === "weighted" ? reliabilities : probabilities.map(() => 1)
+            );
+      const isArtificial = probability > 0.5;
+      return { isArtificial, confidence: isArtificial ? probability : 1 - probability };
+    }
+  }
+}
+
+// ENSEMBLE_MEMBERS holds a JSON array of EnsembleMemberRequest
+function readEnvMembers(): EnsembleMemberRequest[] | null {
+  const raw = Deno.env.get("ENSEMBLE_MEMBERS");
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : null;
+  } catch {
+    console.error("ENSEMBLE_MEMBERS is not valid JSON, ignoring");
+    return null;
+  }
+}
+
+const PROVIDER_TYPES: ProviderType[] = ["openai", "classifier", "mock"];
+
+/** Validates a requested provider and ensemble; returns the message to reject the request with */
+export function findConfigError(provider?: ProviderRequest, request?: EnsembleRequest): string | null {
+  const requestedTypes = [provider, ...(request?.members ?? [])]
+    .map((member) => member?.type)
+    .filter((type): type is ProviderType => !!type);
+  const unknownType = requestedTypes.find((type) => !PROVIDER_TYPES.includes(type));
+  if (unknownType) {
+    return `Unknown provider: ${unknownType}`;
+  }
+  if (requestedTypes.includes("mock") && !mockProviderAllowed()) {
+    return "The mock provider is only available in development";
+  }
+
+  // Calibration decides how much each vote counts; a client could otherwise flatten every frame to a coin toss
+  if (request?.members?.some((member) => member?.reliability !== undefined || member?.temperature !== undefined)) {
+    return "reliability and temperature are configured on the server in ENSEMBLE_MEMBERS";
+  }
+
+  if (request?.strategy && !AGGREGATION_STRATEGIES.includes(request.strategy)) {
+    return `Unknown aggregation strategy: ${request.strategy}`;
+  }
+
+  return null;
+}
+
+/**
+ * Builds the set of models to query per frame. Without members in the request
+ * or ENSEMBLE_MEMBERS this is a single-model ensemble of the default provider.
+ * Requested members take their calibration from the ENSEMBLE_MEMBERS entry of
+ * the same type and model, and are uncalibrated otherwise.
+ */
+export function createEnsemble(
+  request: EnsembleRequest = {},
+  defaultProvider: ProviderRequest = {}
+): Ensemble {
+  const strategy = request.strategy ?? (Deno.env.get("ENSEMBLE_STRATEGY") as AggregationStrategy | undefined) ?? "majority";
+  const envMembers = readEnvMembers();
+  const memberRequests: EnsembleMemberRequest[] = request.members?.length
+    ? request.members.map(({ type, model }) => ({
+        type,
+        model,
+        ...envMembers?.find((member) => member.type === type && member.model === model),
+      }))
+    : envMembers ?? [defaultProvider];
+
+  const members: EnsembleMember[] = memberRequests.map((member) => ({
+    provider: resolveProvider(member),
+    reliability: Math.max(0, member.reliability ?? 1),
+    temperature: member.temperature && member.temperature > 0 ? member.temperature : 1,
+  }));
+
+  const analyzeFrame = async (
+    frameBase64: string,
+    frameIndex: number,
+    context?: AnalysisContext
+  ): Promise<DetailedFrameAnalysis> => {
+    const settled = await Promise.allSettled(
+      members.map((member) => member.provider.analyzeFrame(frameBase64, frameIndex, context))
+    );
+
+    const succeeded = settled
+      .map((outcome, i) => ({ outcome, member: members[i] }))
+      .filter(
+        (entry): entry is { outcome: PromiseFulfilledResult<DetailedFrameAnalysis>; member: EnsembleMember } =>
+          entry.outcome.status === "fulfilled"
+      );
+
+    // Only fail the frame when every model failed; surface the first error
+    if (succeeded.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    settled.forEach((outcome, i) => {
+      if (outcome.status === "rejected") {
+        console.warn(`${members[i].provider.name} failed on frame ${frameIndex}:`, outcome.reason);
+      }
+    });
+
+    const analyses = succeeded.map(({ outcome }) => outcome.value);
+    const reliabilities = succeeded.map(({ member }) => member.reliability);
+
+    const models: ModelVerdict[] = succeeded.map(({ outcome, member }) => {
+      const probability = calibrate(toProbability(outcome.value), member.temperature);
+      const isArtificial = probability > 0.5;
+      return {
+        provider: member.provider.name,
+        isArtificial,
+        confidence: isArtificial ? probability : 1 - probability,
+        probability,
+        issues: outcome.value.issues,
+      };
+    });
+
+    const { isArtificial, confidence } = aggregateVerdicts(models, reliabilities, strategy);
+
+    return {
+      frameIndex,
+      isArtificial,
+      confidence,
+      faceScore: weightedMean(analyses.map((a) => a.faceScore), reliabilities),
+      lightingScore: weightedMean(analyses.map((a) => a.lightingScore), reliabilities),
+      artifactScore: weightedMean(analyses.map((a) => a.artifactScore), reliabilities),
+      qualityScore: weightedMean(analyses.map((a) => a.qualityScore), reliabilities),
+      issues: [...new Set(analyses.flatMap((a) => a.issues))],
+      models,
+    };
+  };
+
+  return { strategy, members, analyzeFrame };
+}
@@ -0,0 +1,127 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AnalysisMetadata } from "./types.ts";
+
+/**
+ * Server-side frame extraction for videos uploaded to the `videos` bucket.
+ * Edge functions cannot decode video, so extraction is delegated to the
+ * service at FRAME_EXTRACTOR_URL (an ffmpeg worker, for example), which
+ * receives a short-lived signed URL of the original and answers with:
+ *
+ *   {
+ *     duration: number,
+ *     frames: { timestamp: number, dataUrl: string, shotIndex?: number, exact?: boolean }[],
+ *     container?: { ... }   // format, codecs, creation time, encoder tags, audio streams
+ *   }
+ */
+
+export const VIDEO_BUCKET = "videos";
+
+export type ServerSamplingStrategy = "uniform" | "adaptive";
+
+export interface SamplingPlan {
+  strategy: ServerSamplingStrategy;
+  maxFrames: number;
+  /** Optional section of the video to sample from, in seconds */
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface ExtractedFrames {
+  duration: number;
+  frames: { timestamp: number; dataUrl: string; shotIndex?: number; exact?: boolean }[];
+  container: Record<string, unknown> | null;
+}
+
+// Long enough for the extractor to fetch a 2 GiB original
+const SIGNED_URL_SECONDS = 15 * 60;
+const FRAME_WIDTH = 1280;
+const FRAME_QUALITY = 0.8;
+
+export const extractionConfigured = () => Boolean(Deno.env.get("FRAME_EXTRACTOR_URL"));
+
+/** Returns why a sampling plan is invalid, or null if it can be used */
+export function findSamplingError(plan: Partial<SamplingPlan> | undefined, maxFrames: number): string | null {
+  if (!plan || (plan.strategy !== "uniform" && plan.strategy !== "adaptive")) {
+    return 'sampling.strategy must be "uniform" or "adaptive"';
+  }
+  if (!Number.isInteger(plan.maxFrames) || plan.maxFrames < 1 || plan.maxFrames > maxFrames) {
+    return `sampling.maxFrames must be between 1 and ${maxFrames}`;
+  }
+  const { startTime, endTime } = plan;
+  if (
+    (startTime !== undefined && !(Number.isFinite(startTime) && startTime >= 0)) ||
+    (endTime !== undefined && !(Number.isFinite(endTime) && endTime > (startTime ?? 0)))
+  ) {
+    return "sampling.startTime and sampling.endTime must describe a section of the video";
+  }
+  return null;
+}
+
+export async function extractFrames(
+  db: SupabaseClient,
+  sourcePath: string,
+  plan: SamplingPlan
+): Promise<ExtractedFrames> {
+  const extractorUrl = Deno.env.get("FRAME_EXTRACTOR_URL");
+  if (!extractorUrl) {
+    throw new Error("Server-side extraction is not configured");
+  }
+
+  const { data: signed, error } = await db.storage.from(VIDEO_BUCKET).createSignedUrl(sourcePath, SIGNED_URL_SECONDS);
+  if (error || !signed) {
+    throw new Error(`Uploaded video not found: ${error?.message ?? sourcePath}`);
+  }
+
+  const token = Deno.env.get("FRAME_EXTRACTOR_TOKEN");
+  const response = await fetch(extractorUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify({
+      videoUrl: signed.signedUrl,
+      sampling: { ...plan, width: FRAME_WIDTH, quality: FRAME_QUALITY },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Frame extraction failed: ${response.status} ${await response.text()}`);
+  }
+
+  const extracted = (await response.json()) as Partial<ExtractedFrames>;
+  const frames = (extracted.frames ?? []).filter(
+    (frame) => typeof frame?.dataUrl === "string" && Number.isFinite(frame.timestamp)
+  );
+  if (frames.length === 0) {
+    throw new Error("Failed to extract frames from video");
+  }
+
+  return {
+    duration: Number(extracted.duration) || 0,
+    // The extractor may return a few more than asked for; the plan is the budget
+    frames: frames.slice(0, plan.maxFrames),
+    container: extracted.container ?? null,
+  };
+}
+
+/** Metadata stored with the job and the saved analysis, shaped like the client-extraction metadata */
+export const extractionMetadata = (
+  plan: SamplingPlan,
+  { duration, frames, container }: ExtractedFrames
+): AnalysisMetadata => ({
+  duration,
+  extraction: {
+    strategy: plan.strategy,
+    maxFrames: plan.maxFrames,
+    quality: FRAME_QUALITY,
+    burstSize: 0,
+    burstInterval: 0,
+    decoder: "server",
+  },
+  frames: frames.map(({ timestamp, shotIndex, exact }) => ({
+    timestamp,
+    sampling: { strategy: plan.strategy, shotIndex, exact: exact ?? true },
+  })),
+  container,
+});
@@ -0,0 +1,72 @@
+import type { Ensemble } from "./ensemble.ts";
+import type { DetailedFrameAnalysis, FaceAnalysis, FaceBox } from "./types.ts";
+
+/** Face crops for one frame, produced by client-side face detection */
+export interface FrameFacesInput {
+  boxes: FaceBox[];
+  crops: string[];
+}
+
+const MAX_FACES_PER_FRAME = 3;
+
+const toProbability = (analysis: { isArtificial: boolean; confidence: number }) =>
+  analysis.isArtificial ? analysis.confidence : 1 - analysis.confidence;
+
+/**
+ * Analyzes the full frame and each face crop, then combines them: the face
+ * score comes from the crops and the frame takes the most suspicious verdict,
+ * since a swapped face in an otherwise real scene is still a deepfake.
+ * Without face input the full-frame analysis is returned unchanged.
+ */
+export async function analyzeFrameWithFaces(
+  ensemble: Ensemble,
+  frame: string,
+  frameIndex: number,
+  faces?: FrameFacesInput | null
+): Promise<DetailedFrameAnalysis> {
+  if (!faces || !Array.isArray(faces.crops) || !Array.isArray(faces.boxes)) {
+    return ensemble.analyzeFrame(frame, frameIndex);
+  }
+
+  // A crop is only usable with the box it was cut from
+  const crops = faces.crops.slice(0, Math.min(faces.boxes.length, MAX_FACES_PER_FRAME));
+  const [frameAnalysis, ...faceAnalyses] = await Promise.all([
+    ensemble.analyzeFrame(frame, frameIndex),
+    ...crops.map((crop, faceIndex) => ensemble.analyzeFrame(crop, frameIndex, { faceIndex })),
+  ]);
+
+  if (faceAnalyses.length === 0) {
+    return { ...frameAnalysis, faces: [] };
+  }
+
+  const faceResults: FaceAnalysis[] = faceAnalyses.map((analysis, i) => ({
+    box: faces.boxes[i],
+    isArtificial: analysis.isArtificial,
+    confidence: analysis.confidence,
+    issues: analysis.issues,
+  }));
+
+  // Index of the face whose verdict is the most suspicious, -1 when the full frame's is
+  let decidingIndex = -1;
+  faceAnalyses.forEach((analysis, i) => {
+    const worst = decidingIndex === -1 ? frameAnalysis : faceAnalyses[decidingIndex];
+    if (toProbability(analysis) > toProbability(worst)) decidingIndex = i;
+  });
+  const mostSuspicious = decidingIndex === -1 ? frameAnalysis : faceAnalyses[decidingIndex];
+
+  return {
+    ...frameAnalysis,
+    isArtificial: mostSuspicious.isArtificial,
+    confidence: mostSuspicious.confidence,
+    // The votes behind the verdict, so a face-decided frame does not show the full frame's votes
+    models: decidingIndex === -1
+      ? frameAnalysis.models
+      : mostSuspicious.models?.map((model) => ({ ...model, faceIndex: decidingIndex })),
+    faceScore: faceAnalyses.reduce((sum, a) => sum + a.faceScore, 0) / faceAnalyses.length,
+    issues: [
+      ...frameAnalysis.issues,
+      ...faceAnalyses.flatMap((a, i) => a.issues.map((issue) => `Face ${i + 1}: ${issue}`)),
+    ],
+    faces: faceResults,
+  };
+}
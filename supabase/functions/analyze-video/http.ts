@@ -0,0 +1,32 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+};
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+  });
+
+export const guestLimitResponse = (retryAfter: number) =>
+  jsonResponse(
+    { error: `Guest limit reached. Create a free account or try again in ${Math.ceil(retryAfter / 60)} min.` },
+    429,
+    { "Retry-After": String(retryAfter) }
+  );
+
+/** Maps provider failures to the status and message shown to clients */
+export function describeError(error: unknown): { status: number; error: string } {
+  // Handle rate limits
+  if (error instanceof Error && error.message.includes("429")) {
+    return { status: 429, error: "Rate limit exceeded. Please try again in a moment." };
+  }
+
+  if (error instanceof Error && error.message.includes("402")) {
+    return { status: 402, error: "AI credits exhausted. Please add credits to continue." };
+  }
+
+  return { status: 500, error: error instanceof Error ? error.message : "Unknown error" };
+}
@@ -1,138 +1,184 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { sha256Hex } from "../_shared/signing.ts";
+import { analyzeAudio, findSegmentError, resolveAudioProvider } from "./audio.ts";
+import { authenticate, getClientIp, recordAnalysisRequest } from "./auth.ts";
+import { createEnsemble, findConfigError, type Ensemble, type EnsembleRequest } from "./ensemble.ts";
+import { analyzeFrameWithFaces, type FrameFacesInput } from "./faces.ts";
+import { extractionConfigured } from "./extract.ts";
+import { corsHeaders, describeError, guestLimitResponse, jsonResponse } from "./http.ts";
+import { handleJobRequest, matchJobRoute } from "./jobs.ts";
+import { PROMPT_VERSION } from "./prompt.ts";
+import type { ProviderRequest } from "./providers.ts";
+import {
+  issueAudioReceipt,
+  issueReceipts,
+  receiptsEnabled,
+  redeemAudioReceipt,
+  redeemReceipts,
+  type AudioReceipt,
+  type FrameReceipt,
+} from "./receipts.ts";
+import { RUN_FRAME_BUDGET, spendRun, startRun } from "./runs.ts";
+import { buildResult, finalizeResult, toFrameAnalysis } from "./result.ts";
+import { streamAnalysis } from "./stream.ts";
+import type { AnalysisMetadata, AudioSegmentInput, DetailedFrameAnalysis, TemporalMetrics } from "./types.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+type FrameListener = (analysis: DetailedFrameAnalysis, completed: number, total: number) => void;
 
-interface FrameAnalysis {
+interface FrameInput {
   frameIndex: number;
-  isArtificial: boolean;
-  confidence: number;
-  issues: string[];
+  frame: string;
+  faces?: FrameFacesInput | null;
 }
 
-interface AnalysisResult {
-  confidence: number;
-  verdict: "real" | "ai-generated";
-  details: {
-    faceConsistency: number;
-    temporalCoherence: number;
-    artifactScore: number;
-    compressionAnalysis: number;
-  };
-  framesAnalyzed: number;
-  processingTime: number;
-  frameAnalyses: FrameAnalysis[];
-}
+// Analyze frames in parallel (limit concurrency to avoid rate limits)
+const BATCH_SIZE = 3;
 
-const DEEPFAKE_DETECTION_PROMPT = `You are an expert AI forensics analyst specializing in detecting AI-generated and manipulated videos (deepfakes).
-
-Analyze this video frame for signs of AI generation or manipulation. Look for:
-
-1. **Face Artifacts**: Unnatural skin texture, blurring around face edges, asymmetric features, uncanny valley effects
-2. **Lighting Inconsistencies**: Shadows that don't match light sources, uneven illumination across the face
-3. **Temporal Artifacts**: Blending seams, warping around hair/ears/neck boundaries
-4. **Detail Anomalies**: Missing or duplicated details, unnatural eye reflections, teeth irregularities
-5. **Compression Artifacts**: Unusual patterns that suggest manipulation followed by re-encoding
-6. **Background Coherence**: Mismatched backgrounds, floating elements, perspective errors
-
-Respond with a JSON object (no markdown, just raw JSON):
-{
-  "isArtificial": boolean,
-  "confidence": number (0-1, how confident you are in your assessment),
-  "faceScore": number (0-1, face naturalness, 1 = natural),
-  "lightingScore": number (0-1, lighting consistency, 1 = consistent),
-  "artifactScore": number (0-1, absence of artifacts, 1 = no artifacts),
-  "qualityScore": number (0-1, overall quality/naturalness, 1 = high quality real),
-  "issues": string[] (list of specific issues found, empty if none)
-}`;
-
-async function analyzeFrame(
-  frameBase64: string,
-  frameIndex: number,
-  apiKey: string
-): Promise<FrameAnalysis & { faceScore: number; lightingScore: number; artifactScore: number; qualityScore: number }> {
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "google/gemini-2.5-flash",
-      messages: [
-        { role: "system", content: DEEPFAKE_DETECTION_PROMPT },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: `Analyze frame ${frameIndex + 1} for deepfake indicators:`,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: frameBase64,
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 500,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`AI gateway error for frame ${frameIndex}:`, response.status, errorText);
-    throw new Error(`AI gateway error: ${response.status}`);
-  }
+/**
+ * Runs the ensemble over `inputs` a batch at a time, reporting each frame as
+ * soon as it finishes. Returns null as soon as the client disconnects so a
+ * cancelled analysis stops spending model calls.
+ */
+async function analyzeFrames(
+  ensemble: Ensemble,
+  inputs: FrameInput[],
+  signal: AbortSignal,
+  onFrame?: FrameListener
+): Promise<DetailedFrameAnalysis[] | null> {
+  const analyses: DetailedFrameAnalysis[] = [];
+  let completed = 0;
 
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content || "";
-  
-  // Parse the JSON response
-  try {
-    // Remove any markdown code blocks if present
-    const jsonStr = content.replace(/```json\n?|\n?```/g, "").trim();
-    const analysis = JSON.parse(jsonStr);
-    
-    return {
-      frameIndex,
-      isArtificial: analysis.isArtificial || false,
-      confidence: analysis.confidence || 0.5,
-      faceScore: analysis.faceScore || 0.5,
-      lightingScore: analysis.lightingScore || 0.5,
-      artifactScore: analysis.artifactScore || 0.5,
-      qualityScore: analysis.qualityScore || 0.5,
-      issues: analysis.issues || [],
-    };
-  } catch (parseError) {
-    console.error("Failed to parse AI response:", content);
-    // Return neutral scores if parsing fails
-    return {
-      frameIndex,
-      isArtificial: false,
-      confidence: 0.5,
-      faceScore: 0.5,
-      lightingScore: 0.5,
-      artifactScore: 0.5,
-      qualityScore: 0.5,
-      issues: ["Unable to analyze frame"],
-    };
+  for (let i = 0; i < inputs.length; i += BATCH_SIZE) {
+    if (signal.aborted) {
+      console.log(`Client disconnected, skipping ${inputs.length - i} remaining frames`);
+      return null;
+    }
+
+    const batch = inputs.slice(i, i + BATCH_SIZE);
+    const batchResults = await Promise.all(
+      batch.map(({ frameIndex, frame, faces }) =>
+        analyzeFrameWithFaces(ensemble, frame, frameIndex, faces).then((analysis) => {
+          onFrame?.(analysis, ++completed, inputs.length);
+          return analysis;
+        })
+      )
+    );
+    analyses.push(...batchResults);
   }
+
+  return analyses;
 }
 
+// Nobody reads this response; it only ends the request (nginx's "client closed request")
+const cancelledResponse = () => new Response(null, { status: 499, headers: corsHeaders });
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { pathname } = new URL(req.url);
+
+  // Lets clients offer server-side extraction only where an extractor is set up
+  if (req.method === "GET" && /\/config\/?$/.test(pathname)) {
+    return jsonResponse({ serverExtraction: extractionConfigured() });
+  }
+
+  // Long videos go through the job API under /analyze-video/jobs
+  const jobRoute = matchJobRoute(pathname);
+  if (jobRoute) {
+    return handleJobRequest(req, jobRoute);
+  }
+
   const startTime = Date.now();
 
   try {
-    const { frames } = await req.json();
+    // Clients that accept NDJSON get each frame as it finishes instead of one response at the end
+    const wantsStream = req.headers.get("Accept")?.includes("application/x-ndjson") ?? false;
+
+    const user = await authenticate(req);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Sign in or continue as a guest to analyze videos" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const {
+      frames,
+      faces,
+      temporal,
+      metadata,
+      provider: providerRequest,
+      ensemble: ensembleRequest,
+      mode,
+      frameOffset,
+      receipts,
+      segments,
+      audio: audioReceipt,
+    } = (await req.json()) as {
+      /** In the final request, null stands for a frame covered by one of `receipts` */
+      frames?: (string | null)[];
+      faces?: (FrameFacesInput | null)[];
+      temporal?: TemporalMetrics | null;
+      metadata?: AnalysisMetadata;
+      provider?: ProviderRequest;
+      ensemble?: EnsembleRequest;
+      /**
+       * "frames" analyzes one chunk and returns receipts instead of a verdict;
+       * "audio" analyzes the audio `segments` and returns a signed audio report
+       */
+      mode?: "frames" | "audio";
+      /** Index of the chunk's first frame in the whole analysis */
+      frameOffset?: number;
+      /** Receipts from earlier chunks or an interrupted attempt */
+      receipts?: FrameReceipt[];
+      /** Segments of the audio track, for the "audio" mode */
+      segments?: AudioSegmentInput[];
+      /** Audio report from an earlier "audio" request of the same run, for the same file */
+      audio?: AudioReceipt | null;
+    };
+
+    if (mode === "audio") {
+      const segmentError = findSegmentError(segments);
+      if (segmentError) {
+        return new Response(
+          JSON.stringify({ error: segmentError }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // The receipt names the file so it cannot be attached to another video's frames
+      const fileHash = metadata?.fileHash;
+      if (typeof fileHash !== "string" || !/^[0-9a-f]{64}$/.test(fileHash)) {
+        return new Response(
+          JSON.stringify({ error: "metadata.fileHash must be the SHA-256 of the video" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // The report could not be handed back unsigned; the video is then analyzed without its audio
+      const audioProvider = resolveAudioProvider();
+      if (!audioProvider || !(await receiptsEnabled())) {
+        return new Response(JSON.stringify({ runId: null, audio: null }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const started = await startRun(user, getClientIp(req));
+      if ("retryAfter" in started) {
+        return guestLimitResponse(started.retryAfter);
+      }
+
+      const { runId } = started;
+      console.log(`Analyzing ${segments.length} audio segments of run ${runId} with ${audioProvider.name}...`);
+      const report = await analyzeAudio(audioProvider, segments);
+      console.log(`Audio analysis complete: ${report.verdict} (${(report.confidence * 100).toFixed(1)}% confidence)`);
+
+      return new Response(JSON.stringify({ runId, audio: await issueAudioReceipt(runId, user, fileHash, report) }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
     if (!frames || !Array.isArray(frames) || frames.length === 0) {
       return new Response(
@@ -141,89 +187,203 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    // Chunks carry every frame; only the final request may leave out receipted ones
+    if (frames.some((frame) => typeof frame !== "string" && (mode === "frames" || frame !== null))) {
+      return new Response(
+        JSON.stringify({ error: "frames must be data URLs, or null for receipted frames in the final request" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    console.log(`Analyzing ${frames.length} frames...`);
+    if (frames.length > RUN_FRAME_BUDGET) {
+      return new Response(
+        JSON.stringify({ error: `At most ${RUN_FRAME_BUDGET} frames can be analyzed at once; use the job API for more` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    // Analyze frames in parallel (limit concurrency to avoid rate limits)
-    const BATCH_SIZE = 3;
-    const allAnalyses: (FrameAnalysis & { faceScore: number; lightingScore: number; artifactScore: number; qualityScore: number })[] = [];
+    const configError = findConfigError(providerRequest, ensembleRequest);
+    if (configError) {
+      return new Response(
+        JSON.stringify({ error: configError }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    for (let i = 0; i < frames.length; i += BATCH_SIZE) {
-      const batch = frames.slice(i, i + BATCH_SIZE);
-      const batchPromises = batch.map((frame: string, idx: number) =>
-        analyzeFrame(frame, i + idx, LOVABLE_API_KEY)
+    if (mode === "frames" && !(Number.isInteger(frameOffset) && frameOffset >= 0)) {
+      return new Response(
+        JSON.stringify({ error: "frameOffset must be a non-negative integer" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const ensemble = createEnsemble(ensembleRequest, providerRequest);
+    const providerNames = ensemble.members.map((member) => member.provider.name);
+    const config = `${ensemble.strategy}:${providerNames.join("+")}:${PROMPT_VERSION}`;
+
+    if (mode === "frames" && !(await receiptsEnabled())) {
+      // Chunks could not be combined later; the client falls back to a single request
+      return new Response(JSON.stringify({ runId: null, receipts: null, frameAnalyses: [] }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const redeemed = await redeemReceipts(receipts, user, config);
+    let audio = await redeemAudioReceipt(audioReceipt, user, metadata?.fileHash);
+
+    // A frame left out is only known by its receipt; without a valid one the client has to send it
+    const receiptsRejected = () =>
+      new Response(
+        JSON.stringify({ error: "Some frame receipts are no longer valid; send those frames again" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
-      const batchResults = await Promise.all(batchPromises);
-      allAnalyses.push(...batchResults);
-    }
-
-    // Aggregate results
-    const artificialCount = allAnalyses.filter((a) => a.isArtificial).length;
-    const avgConfidence = allAnalyses.reduce((sum, a) => sum + a.confidence, 0) / allAnalyses.length;
-    const avgFaceScore = allAnalyses.reduce((sum, a) => sum + a.faceScore, 0) / allAnalyses.length;
-    const avgLightingScore = allAnalyses.reduce((sum, a) => sum + a.lightingScore, 0) / allAnalyses.length;
-    const avgArtifactScore = allAnalyses.reduce((sum, a) => sum + a.artifactScore, 0) / allAnalyses.length;
-    const avgQualityScore = allAnalyses.reduce((sum, a) => sum + a.qualityScore, 0) / allAnalyses.length;
-
-    // Determine verdict based on majority of frames
-    const isAIGenerated = artificialCount > frames.length / 2;
-    
-    // Calculate overall confidence
-    const overallConfidence = isAIGenerated
-      ? (artificialCount / frames.length) * avgConfidence
-      : ((frames.length - artificialCount) / frames.length) * avgConfidence;
-
-    const processingTime = (Date.now() - startTime) / 1000;
-
-    const result: AnalysisResult = {
-      confidence: Math.min(0.99, Math.max(0.5, overallConfidence)),
-      verdict: isAIGenerated ? "ai-generated" : "real",
-      details: {
-        faceConsistency: avgFaceScore,
-        temporalCoherence: avgLightingScore,
-        artifactScore: avgArtifactScore,
-        compressionAnalysis: avgQualityScore,
-      },
-      framesAnalyzed: frames.length,
-      processingTime,
-      frameAnalyses: allAnalyses.map(({ frameIndex, isArtificial, confidence, issues }) => ({
-        frameIndex,
-        isArtificial,
-        confidence,
-        issues,
-      })),
+    if (frames.some((frame, i) => frame === null && !redeemed.analyses.has(i))) {
+      return receiptsRejected();
+    }
+
+    const digests = mode === "frames"
+      ? []
+      : await Promise.all(
+          frames.map((frame, i) => (frame === null ? redeemed.analyses.get(i)!.frameSha256 : sha256Hex(frame)))
+        );
+
+    // Receipted frames are reused only when the submitted frame is the one that was analyzed
+    const resumed = new Map<number, DetailedFrameAnalysis>();
+    if (mode !== "frames") {
+      redeemed.analyses.forEach(({ frameSha256, analysis }, frameIndex) => {
+        if (digests[frameIndex] === frameSha256) {
+          resumed.set(frameIndex, analysis);
+        }
+      });
+    }
+    const freshFrames = mode === "frames"
+      ? frames.filter((_, i) => !redeemed.analyses.has(frameOffset + i)).length
+      : frames.length - resumed.size;
+
+    // A continuation was counted when its run started, possibly with the audio track. The
+    // final request closes the run, so its receipts cannot carry further analyses.
+    const finish = mode !== "frames";
+    let continuedRunId = redeemed.runId ?? audio?.runId ?? null;
+    if (continuedRunId !== null && !(await spendRun(continuedRunId, user, freshFrames, finish))) {
+      if (frames.includes(null)) {
+        return receiptsRejected();
+      }
+      console.warn(`Run ${continuedRunId} is closed, expired or out of frames; starting a new one`);
+      redeemed.analyses.clear();
+      resumed.clear();
+      audio = null;
+      continuedRunId = null;
+    }
+
+    const started = continuedRunId === null ? await startRun(user, getClientIp(req)) : { runId: continuedRunId };
+    if ("retryAfter" in started) {
+      return guestLimitResponse(started.retryAfter);
+    }
+    const { runId } = started;
+    if (continuedRunId === null) {
+      await spendRun(runId, user, frames.length, finish);
+    }
+    // The audio report belongs to the run its request started; frames receipted under another run leave it out
+    if (audio?.runId !== runId) {
+      audio = null;
+    }
+
+    const requester = `${user.isAnonymous ? "guest" : "user"} ${user.id}`;
+
+    // Everything after validation; resolves with the response body, or null once the client went away
+    const run = async (signal: AbortSignal, onFrame?: FrameListener): Promise<unknown | null> => {
+      if (mode === "frames") {
+        const inputs = frames.flatMap((frame, i) =>
+          frame === null || redeemed.analyses.has(frameOffset + i)
+            ? []
+            : [{ frameIndex: frameOffset + i, frame, faces: faces?.[i] }]
+        );
+        console.log(
+          `Analyzing frames ${frameOffset}-${frameOffset + frames.length - 1} of run ${runId} for ${requester} ` +
+            `with ${providerNames.join(", ")} (${ensemble.strategy})...`
+        );
+
+        const analyses = await analyzeFrames(ensemble, inputs, signal, onFrame);
+        if (!analyses) {
+          return null;
+        }
+
+        const issued = await issueReceipts(
+          runId,
+          user,
+          config,
+          // Chunks never leave frames out
+          analyses.map((analysis) => ({ frame: frames[analysis.frameIndex - frameOffset] as string, analysis }))
+        );
+        return { runId, receipts: issued, frameAnalyses: analyses.map(toFrameAnalysis) };
+      }
+
+      console.log(
+        `Analyzing ${frames.length - resumed.size} frames (${resumed.size} resumed) for ${requester} ` +
+          `with ${providerNames.join(", ")} (${ensemble.strategy})...`
+      );
+
+      const fresh = await analyzeFrames(
+        ensemble,
+        frames.flatMap((frame, i) =>
+          frame === null || resumed.has(i) ? [] : [{ frameIndex: i, frame, faces: faces?.[i] }]
+        ),
+        signal,
+        onFrame
+      );
+      if (!fresh) {
+        return null;
+      }
+
+      const allAnalyses = [...resumed.values(), ...fresh].sort((a, b) => a.frameIndex - b.frameIndex);
+
+      const result = buildResult(allAnalyses, {
+        temporal,
+        forensics: metadata?.forensics,
+        compression: metadata?.compression,
+        fileMetadata: metadata?.fileMetadata,
+        provenance: metadata?.provenance,
+        audio: audio?.report,
+        ensemble: { strategy: ensemble.strategy, providers: providerNames },
+        processingTime: (Date.now() - startTime) / 1000,
+      });
+
+      console.log(`Analysis complete: ${result.verdict} (${(result.confidence * 100).toFixed(1)}% confidence)`);
+
+      return finalizeResult(result, digests, user, metadata);
     };
 
-    console.log(`Analysis complete: ${result.verdict} (${(result.confidence * 100).toFixed(1)}% confidence)`);
+    if (wantsStream) {
+      return streamAnalysis(corsHeaders, req.signal, async (send, signal) => {
+        try {
+          const body = await run(signal, (analysis, completed, total) =>
+            send({ type: "frame", frame: toFrameAnalysis(analysis), completed, total })
+          );
+          if (body) {
+            send({ type: "result", result: body });
+          }
+        } catch (error) {
+          console.error("analyze-video error:", error);
+          send({ type: "error", ...describeError(error) });
+        }
+      });
+    }
+
+    const body = await run(req.signal);
+    if (!body) {
+      return cancelledResponse();
+    }
 
-    return new Response(JSON.stringify(result), {
+    return new Response(JSON.stringify(body), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
     console.error("analyze-video error:", error);
-    
-    // Handle rate limits
-    if (error instanceof Error && error.message.includes("429")) {
-      return new Response(
-        JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
-        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    if (error instanceof Error && error.message.includes("402")) {
-      return new Response(
-        JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
-        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
 
+    const { status, error: message } = describeError(error);
     return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify({ error: message }),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
@@ -0,0 +1,586 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { runInBackground } from "../_shared/background.ts";
+import { sha256Hex } from "../_shared/signing.ts";
+import { authenticate, getClientIp, recordAnalysisRequest, type AuthenticatedUser } from "./auth.ts";
+import { getServiceClient } from "./db.ts";
+import { createEnsemble, findConfigError, type EnsembleRequest } from "./ensemble.ts";
+import {
+  extractFrames,
+  extractionConfigured,
+  extractionMetadata,
+  findSamplingError,
+  type SamplingPlan,
+} from "./extract.ts";
+import { analyzeFrameWithFaces, type FrameFacesInput } from "./faces.ts";
+import { describeError, guestLimitResponse, jsonResponse } from "./http.ts";
+import type { ProviderRequest } from "./providers.ts";
+import { redeemAudioReceipt, type AudioReceipt } from "./receipts.ts";
+import { buildResult, finalizeResult } from "./result.ts";
+import { RUN_FRAME_BUDGET, spendRun } from "./runs.ts";
+import type { AnalysisMetadata, AnalysisResult, DetailedFrameAnalysis, TemporalMetrics } from "./types.ts";
+
+/**
+ * Job API for videos too long for one request:
+ *
+ *   POST   /analyze-video/jobs             create a job, returns its id; with a `source`
+ *                                          the frames are extracted server-side from an
+ *                                          uploaded video instead of being uploaded
+ *   POST   /analyze-video/jobs/:id/frames  upload a chunk of frames
+ *   POST   /analyze-video/jobs/:id/start   queue the job once every frame is uploaded
+ *   GET    /analyze-video/jobs/:id         status, progress and, when done, the result
+ *   DELETE /analyze-video/jobs/:id         cancel
+ *
+ * Frames and per-frame results live in analysis_job_frames, so a job keeps
+ * going after the browser closes. The worker runs in the background of the
+ * invocation that queued it and hands over to a fresh invocation before the
+ * runtime's wall-clock limit.
+ */
+
+export type JobStatus = "uploading" | "extracting" | "queued" | "processing" | "completed" | "failed" | "cancelled";
+
+export interface JobRoute {
+  jobId: string | null;
+  action: "frames" | "start" | "work" | null;
+}
+
+export interface JobRow {
+  id: string;
+  user_id: string;
+  is_anonymous: boolean;
+  status: JobStatus;
+  /** Null until an uploaded video's frames are extracted */
+  total_frames: number | null;
+  processed_frames: number;
+  temporal: TemporalMetrics | null;
+  metadata: AnalysisMetadata;
+  config: { provider?: ProviderRequest; ensemble?: EnsembleRequest; sampling?: SamplingPlan };
+  result: AnalysisResult | null;
+  error: string | null;
+  analysis_id: string | null;
+  /** Object in the videos bucket the frames are extracted from */
+  source_path: string | null;
+  worker_heartbeat_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_JOB_FRAMES = 600;
+const MAX_FRAMES_PER_UPLOAD = 20;
+const BATCH_SIZE = 3;
+// Hand over to a fresh invocation well before the edge runtime's wall-clock limit
+const WORK_BUDGET_MS = 100_000;
+// An extracting, queued or processing job nobody has touched for this long gets a new worker
+const STALE_WORKER_MS = 3 * 60_000;
+
+const ACTIVE_STATUSES: JobStatus[] = ["uploading", "extracting", "queued", "processing"];
+const WORKER_STATUSES: JobStatus[] = ["extracting", "queued", "processing"];
+
+export function matchJobRoute(pathname: string): JobRoute | null {
+  const match = pathname.match(/\/jobs(?:\/([0-9a-f-]{36})(?:\/(frames|start|work))?)?\/?$/i);
+  if (!match) {
+    return null;
+  }
+  return { jobId: match[1] ?? null, action: (match[2] as JobRoute["action"]) ?? null };
+}
+
+export const toJobResponse = (job: JobRow, extra: Record<string, unknown> = {}) => ({
+  id: job.id,
+  status: job.status,
+  totalFrames: job.total_frames,
+  processedFrames: job.processed_frames,
+  error: job.error,
+  analysisId: job.analysis_id,
+  // Frame timestamps let the client match server-extracted frames to its own copy of the video
+  metadata: job.metadata,
+  result: job.result,
+  createdAt: job.created_at,
+  updatedAt: job.updated_at,
+  ...extra,
+});
+
+async function countFrames(db: SupabaseClient, jobId: string, analyzedOnly = false): Promise<number> {
+  let query = db.from("analysis_job_frames").select("frame_index", { count: "exact", head: true }).eq("job_id", jobId);
+  if (analyzedOnly) {
+    query = query.not("analysis", "is", null);
+  }
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/** Starts a worker invocation for the job; a missed dispatch is recovered by the stale check in GET */
+export async function dispatchWorker(jobId: string) {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  try {
+    const response = await fetch(`${url}/functions/v1/analyze-video/jobs/${jobId}/work`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${serviceKey}` },
+    });
+    if (!response.ok) {
+      console.error(`Failed to dispatch worker for job ${jobId}: ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Failed to dispatch worker for job ${jobId}:`, error);
+  }
+}
+
+export async function handleJobRequest(req: Request, { jobId, action }: JobRoute): Promise<Response> {
+  try {
+    const db = getServiceClient();
+    if (!db) {
+      return jsonResponse({ error: "Analysis jobs are not configured on this deployment" }, 503);
+    }
+
+    if (action === "work") {
+      if (!jobId || req.headers.get("Authorization") !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+      runInBackground(processJob(db, jobId));
+      return jsonResponse({ accepted: true }, 202);
+    }
+
+    const user = await authenticate(req);
+    if (!user) {
+      return jsonResponse({ error: "Sign in or continue as a guest to analyze videos" }, 401);
+    }
+
+    if (!jobId) {
+      return req.method === "POST"
+        ? await createJob(req, db, user)
+        : jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const { data: job, error } = await db
+      .from("analysis_jobs")
+      .select("*")
+      .eq("id", jobId)
+      .eq("user_id", user.id)
+      .maybeSingle<JobRow>();
+    if (error) throw error;
+    if (!job) {
+      return jsonResponse({ error: "Job not found" }, 404);
+    }
+
+    if (action === "frames" && req.method === "POST") return await uploadFrames(req, db, job);
+    if (action === "start" && req.method === "POST") return await startJob(db, job);
+    if (!action && req.method === "GET") return await getJob(db, job);
+    if (!action && req.method === "DELETE") return await cancelJob(db, job);
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  } catch (error) {
+    console.error("analyze-video jobs error:", error);
+    const { status, error: message } = describeError(error);
+    return jsonResponse({ error: message }, status);
+  }
+}
+
+async function createJob(
+  req: Request,
+  db: SupabaseClient,
+  user: AuthenticatedUser
+): Promise<Response> {
+  const { totalFrames, temporal, metadata, provider, ensemble, source, sampling, audio } = (await req.json()) as {
+    totalFrames?: number;
+    temporal?: TemporalMetrics | null;
+    metadata?: AnalysisMetadata;
+    provider?: ProviderRequest;
+    ensemble?: EnsembleRequest;
+    /** An uploaded video to extract frames from, instead of uploading frames */
+    source?: { path?: string };
+    sampling?: SamplingPlan;
+    /** Audio report from an "audio" request for the same file; the job closes that run */
+    audio?: AudioReceipt | null;
+  };
+
+  // A guest job costs one request against the guest limit, so it gets no more frames than a run
+  const maxFrames = user.isAnonymous ? RUN_FRAME_BUDGET : MAX_JOB_FRAMES;
+
+  if (source) {
+    if (!extractionConfigured()) {
+      return jsonResponse({ error: "Server-side extraction is not configured on this deployment" }, 503);
+    }
+    // Users can only upload under their own folder; never extract someone else's video
+    if (typeof source.path !== "string" || !source.path.startsWith(`${user.id}/`) || source.path.includes("..")) {
+      return jsonResponse({ error: "source.path must be a video you uploaded" }, 400);
+    }
+    const samplingError = findSamplingError(sampling, maxFrames);
+    if (samplingError) {
+      return jsonResponse({ error: samplingError }, 400);
+    }
+  } else if (!Number.isInteger(totalFrames) || totalFrames < 1 || totalFrames > maxFrames) {
+    return jsonResponse({ error: `totalFrames must be between 1 and ${maxFrames}` }, 400);
+  }
+
+  const configError = findConfigError(provider, ensemble);
+  if (configError) {
+    return jsonResponse({ error: configError }, 400);
+  }
+
+  // The audio request counted the analysis when it started the run. A job takes the run over
+  // whole, so it is closed here; a closed or expired run is counted again.
+  const audioRun = await redeemAudioReceipt(audio, user, metadata?.fileHash);
+  const continuesRun = audioRun !== null && (await spendRun(audioRun.runId, user, 0, true));
+  if (!continuesRun) {
+    const retryAfter = await recordAnalysisRequest(user, getClientIp(req));
+    if (retryAfter !== null) {
+      return guestLimitResponse(retryAfter);
+    }
+  }
+
+  const job = await insertJob(db, user, {
+    totalFrames,
+    temporal,
+    metadata: { ...metadata, audio: continuesRun ? audio : null },
+    provider,
+    ensemble,
+    source,
+    sampling,
+  });
+
+  const requester = `${user.isAnonymous ? "guest" : "user"} ${user.id}`;
+  if (source) {
+    console.log(`Created analysis job ${job.id} from ${source.path} for ${requester}`);
+    await dispatchWorker(job.id);
+    return jsonResponse(toJobResponse(job), 201);
+  }
+
+  console.log(`Created analysis job ${job.id} (${totalFrames} frames) for ${requester}`);
+  return jsonResponse(toJobResponse(job, { uploadedFrames: 0 }), 201);
+}
+
+/** Creates a job that either waits for uploaded frames or, with a source, extracts them */
+export async function insertJob(
+  db: SupabaseClient,
+  user: AuthenticatedUser,
+  { totalFrames, temporal, metadata, provider, ensemble, source, sampling }: {
+    totalFrames?: number;
+    temporal?: TemporalMetrics | null;
+    metadata?: AnalysisMetadata;
+    provider?: ProviderRequest;
+    ensemble?: EnsembleRequest;
+    source?: { path?: string };
+    sampling?: SamplingPlan;
+  }
+): Promise<JobRow> {
+  const { data: job, error } = await db
+    .from("analysis_jobs")
+    .insert({
+      user_id: user.id,
+      is_anonymous: user.isAnonymous,
+      status: source ? "extracting" : "uploading",
+      total_frames: source ? null : totalFrames,
+      temporal: temporal ?? null,
+      metadata: metadata ?? {},
+      config: source ? { provider, ensemble, sampling } : { provider, ensemble },
+      source_path: source?.path ?? null,
+    })
+    .select("*")
+    .single<JobRow>();
+  if (error) throw error;
+  return job;
+}
+
+/**
+ * Stores frames starting at `frameOffset`, in upload-sized chunks to keep
+ * each request small. Upserts, so storing a chunk again simply replaces it.
+ */
+export async function storeFrames(
+  db: SupabaseClient,
+  jobId: string,
+  frameOffset: number,
+  frames: string[],
+  faces?: (FrameFacesInput | null)[] | null
+) {
+  for (let start = 0; start < frames.length; start += MAX_FRAMES_PER_UPLOAD) {
+    const rows = await Promise.all(
+      frames.slice(start, start + MAX_FRAMES_PER_UPLOAD).map(async (frame, i) => ({
+        job_id: jobId,
+        frame_index: frameOffset + start + i,
+        frame,
+        frame_sha256: await sha256Hex(frame),
+        faces: faces?.[start + i] ?? null,
+        analysis: null,
+      }))
+    );
+    const { error } = await db.from("analysis_job_frames").upsert(rows);
+    if (error) throw error;
+  }
+}
+
+/** Hands a fully uploaded job to a worker */
+export async function queueJob(db: SupabaseClient, job: JobRow): Promise<JobRow> {
+  const { data: queued, error } = await db
+    .from("analysis_jobs")
+    .update({ status: "queued" })
+    .eq("id", job.id)
+    .eq("status", "uploading")
+    .select("*")
+    .single<JobRow>();
+  if (error) throw error;
+
+  await dispatchWorker(job.id);
+  return queued;
+}
+
+/** Dispatches a new worker when an active job's worker has gone quiet */
+export async function ensureWorker(job: JobRow) {
+  if (WORKER_STATUSES.includes(job.status)) {
+    const lastSeen = Date.parse(job.worker_heartbeat_at ?? job.updated_at);
+    if (Date.now() - lastSeen > STALE_WORKER_MS) {
+      console.warn(`Job ${job.id} has no live worker, dispatching a new one`);
+      await dispatchWorker(job.id);
+    }
+  }
+}
+
+async function uploadFrames(req: Request, db: SupabaseClient, job: JobRow): Promise<Response> {
+  if (job.status !== "uploading") {
+    return jsonResponse({ error: "Frames can only be uploaded before the job starts" }, 409);
+  }
+
+  const { frameOffset, frames, faces } = (await req.json()) as {
+    frameOffset?: number;
+    frames?: string[];
+    faces?: (FrameFacesInput | null)[];
+  };
+
+  if (!Array.isArray(frames) || frames.length === 0 || frames.length > MAX_FRAMES_PER_UPLOAD) {
+    return jsonResponse({ error: `Upload between 1 and ${MAX_FRAMES_PER_UPLOAD} frames at a time` }, 400);
+  }
+  if (
+    !Number.isInteger(frameOffset) ||
+    frameOffset < 0 ||
+    frameOffset + frames.length > job.total_frames ||
+    frames.some((frame) => typeof frame !== "string")
+  ) {
+    return jsonResponse({ error: "Frames must fall within the job's totalFrames" }, 400);
+  }
+
+  // Re-uploading a chunk replaces it, so an interrupted upload can simply be retried
+  await storeFrames(db, job.id, frameOffset, frames, faces);
+
+  return jsonResponse({ uploadedFrames: await countFrames(db, job.id), totalFrames: job.total_frames });
+}
+
+async function startJob(db: SupabaseClient, job: JobRow): Promise<Response> {
+  if (job.status !== "uploading") {
+    return jsonResponse(toJobResponse(job));
+  }
+
+  const uploaded = await countFrames(db, job.id);
+  if (uploaded < job.total_frames) {
+    return jsonResponse({ error: `Only ${uploaded} of ${job.total_frames} frames have been uploaded` }, 409);
+  }
+
+  return jsonResponse(toJobResponse(await queueJob(db, job)), 202);
+}
+
+async function getJob(db: SupabaseClient, job: JobRow): Promise<Response> {
+  await ensureWorker(job);
+
+  const extra = job.status === "uploading" ? { uploadedFrames: await countFrames(db, job.id) } : {};
+  return jsonResponse(toJobResponse(job, extra));
+}
+
+async function cancelJob(db: SupabaseClient, job: JobRow): Promise<Response> {
+  if (!ACTIVE_STATUSES.includes(job.status)) {
+    return jsonResponse(toJobResponse(job));
+  }
+
+  const { data: cancelled, error } = await db
+    .from("analysis_jobs")
+    .update({ status: "cancelled", worker_heartbeat_at: null })
+    .eq("id", job.id)
+    .select("*")
+    .single<JobRow>();
+  if (error) throw error;
+
+  await db.from("analysis_job_frames").delete().eq("job_id", job.id);
+  return jsonResponse(toJobResponse(cancelled));
+}
+
+/**
+ * Analyzes the job's remaining frames a batch at a time. The heartbeat is a
+ * lease: a second worker for the same job exits unless the first one has
+ * gone quiet, and cancelling the job makes the worker stop at the next batch.
+ */
+async function processJob(db: SupabaseClient, jobId: string) {
+  const startedAt = Date.now();
+  const staleBefore = new Date(startedAt - STALE_WORKER_MS).toISOString();
+
+  const { data: claimed, error: claimError } = await db
+    .from("analysis_jobs")
+    .update({ worker_heartbeat_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .in("status", WORKER_STATUSES)
+    .or(`worker_heartbeat_at.is.null,worker_heartbeat_at.lt.${staleBefore}`)
+    .select("*")
+    .maybeSingle<JobRow>();
+  if (claimError) throw claimError;
+  if (!claimed) {
+    return;
+  }
+
+  try {
+    const job = claimed.status === "extracting" ? await extractJobFrames(db, claimed) : claimed;
+    if (!job) {
+      console.log(`Job ${jobId} was cancelled during extraction, stopping`);
+      return;
+    }
+    if (job.status === "queued") {
+      const { error: startError } = await db
+        .from("analysis_jobs")
+        .update({ status: "processing" })
+        .eq("id", jobId)
+        .eq("status", "queued");
+      if (startError) throw startError;
+    }
+
+    const ensemble = createEnsemble(job.config.ensemble, job.config.provider);
+
+    for (;;) {
+      const { data: pending, error } = await db
+        .from("analysis_job_frames")
+        .select("frame_index, frame, faces")
+        .eq("job_id", jobId)
+        .is("analysis", null)
+        .order("frame_index")
+        .limit(BATCH_SIZE);
+      if (error) throw error;
+      if (pending.length === 0) {
+        break;
+      }
+
+      const analyses = await Promise.all(
+        pending.map((row) => analyzeFrameWithFaces(ensemble, row.frame, row.frame_index, row.faces))
+      );
+      for (const analysis of analyses) {
+        const { error: saveError } = await db
+          .from("analysis_job_frames")
+          .update({ analysis })
+          .eq("job_id", jobId)
+          .eq("frame_index", analysis.frameIndex);
+        if (saveError) throw saveError;
+      }
+
+      // Renews the lease; no row back means the job was cancelled meanwhile
+      const { data: current, error: progressError } = await db
+        .from("analysis_jobs")
+        .update({ processed_frames: await countFrames(db, jobId, true), worker_heartbeat_at: new Date().toISOString() })
+        .eq("id", jobId)
+        .eq("status", "processing")
+        .select("id")
+        .maybeSingle();
+      if (progressError) throw progressError;
+      if (!current) {
+        console.log(`Job ${jobId} was cancelled, stopping`);
+        return;
+      }
+
+      if (Date.now() - startedAt > WORK_BUDGET_MS) {
+        await db.from("analysis_jobs").update({ worker_heartbeat_at: null }).eq("id", jobId);
+        await dispatchWorker(jobId);
+        return;
+      }
+    }
+
+    const { data: frames, error: framesError } = await db
+      .from("analysis_job_frames")
+      .select("frame_index, frame_sha256, analysis")
+      .eq("job_id", jobId)
+      .order("frame_index");
+    if (framesError) throw framesError;
+    // Cancelling deletes the frames; an empty set would otherwise become a NaN verdict
+    if (frames.length === 0) {
+      console.log(`Job ${jobId} was cancelled before it completed, stopping`);
+      return;
+    }
+
+    const owner: AuthenticatedUser = { id: job.user_id, isAnonymous: job.is_anonymous };
+    // Checked as of job creation, when the run was closed; the job may finish after the receipt expired
+    const audio = await redeemAudioReceipt(job.metadata.audio, owner, job.metadata.fileHash, new Date(job.created_at));
+
+    const result = buildResult(
+      frames.map((row) => row.analysis as DetailedFrameAnalysis),
+      {
+        temporal: job.temporal,
+        forensics: job.metadata.forensics,
+        compression: job.metadata.compression,
+        fileMetadata: job.metadata.fileMetadata,
+        provenance: job.metadata.provenance,
+        audio: audio?.report,
+        ensemble: {
+          strategy: ensemble.strategy,
+          providers: ensemble.members.map((member) => member.provider.name),
+        },
+        processingTime: (Date.now() - Date.parse(job.created_at)) / 1000,
+      }
+    );
+    await finalizeResult(
+      result,
+      frames.map((row) => row.frame_sha256),
+      owner,
+      job.metadata
+    );
+
+    const { data: completed, error: completeError } = await db
+      .from("analysis_jobs")
+      .update({
+        status: "completed",
+        result,
+        analysis_id: result.id ?? null,
+        processed_frames: frames.length,
+        worker_heartbeat_at: null,
+      })
+      .eq("id", jobId)
+      .eq("status", "processing")
+      .select("id")
+      .maybeSingle();
+    if (completeError) throw completeError;
+    if (!completed) {
+      console.log(`Job ${jobId} was cancelled while its result was saved, stopping`);
+      return;
+    }
+
+    await db.from("analysis_job_frames").delete().eq("job_id", jobId);
+    console.log(`Job ${jobId} complete: ${result.verdict} (${(result.confidence * 100).toFixed(1)}% confidence)`);
+  } catch (error) {
+    console.error(`Analysis job ${jobId} failed:`, error);
+    await db
+      .from("analysis_jobs")
+      .update({ status: "failed", error: describeError(error).error, worker_heartbeat_at: null })
+      .eq("id", jobId)
+      .in("status", WORKER_STATUSES);
+  }
+}
+
+/**
+ * Extracts an uploaded video's frames into analysis_job_frames and moves the
+ * job on to processing. Returns null if the job was cancelled meanwhile.
+ */
+async function extractJobFrames(db: SupabaseClient, job: JobRow): Promise<JobRow | null> {
+  const plan = job.config.sampling as SamplingPlan;
+  console.log(`Extracting up to ${plan.maxFrames} frames (${plan.strategy}) from ${job.source_path} for job ${job.id}`);
+
+  const extracted = await extractFrames(db, job.source_path as string, plan);
+
+  // Upserts make a retried extraction safe
+  await storeFrames(db, job.id, 0, extracted.frames.map((frame) => frame.dataUrl));
+
+  const { data: extractedJob, error } = await db
+    .from("analysis_jobs")
+    .update({
+      status: "processing",
+      total_frames: extracted.frames.length,
+      metadata: { ...job.metadata, ...extractionMetadata(plan, extracted) },
+      worker_heartbeat_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", "extracting")
+    .select("*")
+    .maybeSingle<JobRow>();
+  if (error) throw error;
+
+  return extractedJob;
+}
@@ -0,0 +1,68 @@
+import type { AuthenticatedUser } from "./auth.ts";
+import { getServiceClient } from "./db.ts";
+import type { AnalysisMetadata, AnalysisResult } from "./types.ts";
+
+/**
+ * Saves a finished analysis to the analyses table with the service role.
+ * Returns the new row id, or null when saving is not configured or fails,
+ * so a storage problem never costs the caller their result.
+ */
+export async function saveAnalysis(
+  result: AnalysisResult,
+  user: AuthenticatedUser,
+  metadata: AnalysisMetadata = {},
+  id?: string
+): Promise<string | null> {
+  const supabase = getServiceClient();
+  if (!supabase) {
+    console.warn("Supabase credentials are not configured, skipping save");
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("analyses")
+    .insert({
+      ...(id ? { id } : {}),
+      user_id: user.id,
+      is_anonymous: user.isAnonymous,
+      file_name: metadata.fileName || "Untitled video",
+      file_hash: metadata.fileHash ?? null,
+      file_size: metadata.fileSize ?? null,
+      duration: metadata.duration ?? null,
+      extraction: metadata.extraction ?? null,
+      verdict: result.verdict,
+      confidence: result.confidence,
+      details: result.details,
+      temporal: result.temporal,
+      forensics: result.forensics,
+      compression: result.compression,
+      file_metadata: result.fileMetadata,
+      provenance: result.provenance,
+      audio: result.audio,
+      // Thumbnails stay on the client; keep where each frame came from instead. Only
+      // those fields are taken from the client, so it cannot rewrite the verdicts.
+      frame_analyses: result.frameAnalyses.map((analysis) => {
+        const source = metadata.frames?.[analysis.frameIndex];
+        return {
+          ...analysis,
+          timestamp: typeof source?.timestamp === "number" ? source.timestamp : undefined,
+          sampling: source?.sampling,
+        };
+      }),
+      frames_analyzed: result.framesAnalyzed,
+      processing_time: result.processingTime,
+      model_version: `${result.ensemble.strategy}:${result.ensemble.providers.join("+")}`,
+      prompt_version: result.promptVersion,
+      signature: result.signature ?? null,
+      created_at: result.analyzedAt,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Failed to save analysis:", error);
+    return null;
+  }
+
+  return data.id;
+}
@@ -0,0 +1,256 @@
+import { DEEPFAKE_DETECTION_PROMPT, buildFramePrompt } from "./prompt.ts";
+import type { AnalysisContext, DetailedFrameAnalysis } from "./types.ts";
+
+/**
+ * A detection backend analyzes a single frame and normalizes its output
+ * into the shared DetailedFrameAnalysis shape.
+ */
+export interface DetectionProvider {
+  name: string;
+  analyzeFrame: (
+    frameBase64: string,
+    frameIndex: number,
+    context?: AnalysisContext
+  ) => Promise<DetailedFrameAnalysis>;
+}
+
+export type ProviderType = "openai" | "classifier" | "mock";
+
+export interface ProviderRequest {
+  type?: ProviderType;
+  model?: string;
+}
+
+const DEFAULT_CHAT_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const DEFAULT_CHAT_MODEL = "google/gemini-2.5-flash";
+
+const clamp01 = (value: unknown, fallback = 0.5) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+// Neutral scores used whenever a backend response cannot be interpreted
+const neutralAnalysis = (frameIndex: number, issue: string): DetailedFrameAnalysis => ({
+  frameIndex,
+  isArtificial: false,
+  confidence: 0.5,
+  faceScore: 0.5,
+  lightingScore: 0.5,
+  artifactScore: 0.5,
+  qualityScore: 0.5,
+  issues: [issue],
+});
+
+/**
+ * Fills in defaults for any field a backend left out or returned out of range.
+ */
+export function normalizeAnalysis(
+  raw: Record<string, unknown>,
+  frameIndex: number
+): DetailedFrameAnalysis {
+  return {
+    frameIndex,
+    isArtificial: raw.isArtificial === true,
+    confidence: clamp01(raw.confidence),
+    faceScore: clamp01(raw.faceScore),
+    lightingScore: clamp01(raw.lightingScore),
+    artifactScore: clamp01(raw.artifactScore),
+    qualityScore: clamp01(raw.qualityScore),
+    issues: Array.isArray(raw.issues) ? raw.issues.filter((i): i is string => typeof i === "string") : [],
+  };
+}
+
+/**
+ * Any chat-completions endpoint that accepts image_url content parts
+ * (OpenAI, the Lovable AI gateway, OpenRouter, vLLM, ...).
+ */
+export function createOpenAICompatibleProvider(options: {
+  url: string;
+  apiKey: string;
+  model: string;
+}): DetectionProvider {
+  const { url, apiKey, model } = options;
+
+  return {
+    name: `openai:${model}`,
+    analyzeFrame: async (frameBase64, frameIndex, context) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: "system", content: DEEPFAKE_DETECTION_PROMPT },
+            {
+              role: "user",
+              content: [
+                { type: "text", text: buildFramePrompt(frameIndex, context) },
+                { type: "image_url", image_url: { url: frameBase64 } },
+              ],
+            },
+          ],
+          max_tokens: 500,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`AI gateway error for frame ${frameIndex}:`, response.status, errorText);
+        throw new Error(`AI gateway error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content || "";
+
+      try {
+        // Remove any markdown code blocks if present
+        const jsonStr = content.replace(/```json\n?|\n?```/g, "").trim();
+        return normalizeAnalysis(JSON.parse(jsonStr), frameIndex);
+      } catch (parseError) {
+        console.error("Failed to parse AI response:", content);
+        return neutralAnalysis(frameIndex, "Unable to analyze frame");
+      }
+    },
+  };
+}
+
+/**
+ * A plain HTTP classifier that returns a probability of the frame being
+ * artificial: `{ score, scores?: { face, lighting, artifact, quality }, issues? }`.
+ */
+export function createHttpClassifierProvider(options: {
+  url: string;
+  apiKey?: string;
+  model?: string;
+}): DetectionProvider {
+  const { url, apiKey, model } = options;
+
+  return {
+    name: `classifier:${model ?? new URL(url).host}`,
+    analyzeFrame: async (frameBase64, frameIndex, context) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ image: frameBase64, frameIndex, faceIndex: context?.faceIndex, model }),
+      });
+
+      if (!response.ok) {
+        console.error(`Classifier error for frame ${frameIndex}:`, response.status, await response.text());
+        throw new Error(`Classifier error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (typeof data.score !== "number") {
+        console.error("Classifier response missing score:", data);
+        return neutralAnalysis(frameIndex, "Unable to analyze frame");
+      }
+
+      const score = clamp01(data.score);
+      const isArtificial = score >= 0.5;
+
+      return normalizeAnalysis(
+        {
+          isArtificial,
+          confidence: isArtificial ? score : 1 - score,
+          faceScore: data.scores?.face ?? 1 - score,
+          lightingScore: data.scores?.lighting ?? 1 - score,
+          artifactScore: data.scores?.artifact ?? 1 - score,
+          qualityScore: data.scores?.quality ?? 1 - score,
+          issues: data.issues,
+        },
+        frameIndex
+      );
+    },
+  };
+}
+
+// FNV-1a, used so the mock returns the same scores for the same frame
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic offline backend: scores are derived from a hash of the frame
+ * data so the full pipeline can run in tests without network access.
+ */
+export function createMockProvider(): DetectionProvider {
+  return {
+    name: "mock",
+    analyzeFrame: async (frameBase64, frameIndex) => {
+      const hash = hashString(frameBase64);
+      const score = (hash % 1000) / 1000;
+      const isArtificial = score >= 0.5;
+
+      return normalizeAnalysis(
+        {
+          isArtificial,
+          confidence: isArtificial ? score : 1 - score,
+          faceScore: 1 - score,
+          lightingScore: ((hash >>> 10) % 1000) / 1000,
+          artifactScore: 1 - score,
+          qualityScore: ((hash >>> 20) % 1000) / 1000,
+          issues: isArtificial ? ["Mock provider flagged this frame"] : [],
+        },
+        frameIndex
+      );
+    },
+  };
+}
+
+/**
+ * The mock's verdicts mean nothing, yet they would be signed like any other,
+ * so it only runs where ALLOW_MOCK_PROVIDER is set for development.
+ */
+export const mockProviderAllowed = () => Deno.env.get("ALLOW_MOCK_PROVIDER") === "true";
+
+/**
+ * Picks a backend from the request, falling back to DETECTION_PROVIDER and
+ * the related env config. Endpoints and keys only ever come from env.
+ */
+export function resolveProvider(request: ProviderRequest = {}): DetectionProvider {
+  const type = request.type ?? (Deno.env.get("DETECTION_PROVIDER") as ProviderType | undefined) ?? "openai";
+
+  switch (type) {
+    case "mock":
+      if (!mockProviderAllowed()) {
+        throw new Error("The mock provider is disabled; set ALLOW_MOCK_PROVIDER=true in development");
+      }
+      return createMockProvider();
+
+    case "classifier": {
+      const url = Deno.env.get("CLASSIFIER_URL");
+      if (!url) {
+        throw new Error("CLASSIFIER_URL is not configured");
+      }
+      return createHttpClassifierProvider({
+        url,
+        apiKey: Deno.env.get("CLASSIFIER_API_KEY"),
+        model: request.model ?? Deno.env.get("CLASSIFIER_MODEL"),
+      });
+    }
+
+    case "openai": {
+      const apiKey = Deno.env.get("DETECTION_API_KEY") ?? Deno.env.get("LOVABLE_API_KEY");
+      if (!apiKey) {
+        throw new Error("LOVABLE_API_KEY is not configured");
+      }
+      return createOpenAICompatibleProvider({
+        url: Deno.env.get("DETECTION_API_URL") ?? DEFAULT_CHAT_URL,
+        apiKey,
+        model: request.model ?? Deno.env.get("DETECTION_MODEL") ?? DEFAULT_CHAT_MODEL,
+      });
+    }
+
+    default:
+      throw new Error(`Unknown detection provider: ${type}`);
+  }
+}
@@ -0,0 +1,181 @@
+import { getPublicKeyInfo, sha256Hex, signPayload, verifyPayload, type ReportSignature } from "../_shared/signing.ts";
+import type { AuthenticatedUser } from "./auth.ts";
+import { RUN_TTL_HOURS } from "./runs.ts";
+import type { AudioReport, DetailedFrameAnalysis } from "./types.ts";
+
+/**
+ * A signed statement that this function analyzed one frame for one user.
+ * Clients store receipts as chunks finish and hand them back to resume an
+ * interrupted analysis, so frames are never sent to the models twice. Only
+ * receipts signed by this deployment's key are accepted, which keeps a
+ * client from supplying its own frame verdicts.
+ */
+export type FrameReceipt = ReportSignature;
+
+interface ReceiptPayload {
+  version: 1;
+  kind: "frame-receipt";
+  /** Groups the chunks of one analysis; continuations are checked against the run record in runs.ts */
+  runId: string;
+  userId: string;
+  /** Ensemble and prompt the frame was analyzed with; receipts from another config are ignored */
+  config: string;
+  frameIndex: number;
+  frameSha256: string;
+  analysis: DetailedFrameAnalysis;
+}
+
+export interface RedeemedReceipts {
+  /** Null when no receipt was valid, i.e. this request starts a new run */
+  runId: string | null;
+  analyses: Map<number, { frameSha256: string; analysis: DetailedFrameAnalysis }>;
+}
+
+/** Receipts need the report signing key; without it analyses cannot be resumed */
+export const receiptsEnabled = async () => (await getPublicKeyInfo()) !== null;
+
+export async function issueReceipts(
+  runId: string,
+  user: AuthenticatedUser,
+  config: string,
+  frames: { frame: string; analysis: DetailedFrameAnalysis }[]
+): Promise<FrameReceipt[]> {
+  const receipts = await Promise.all(
+    frames.map(async ({ frame, analysis }) => {
+      const payload: ReceiptPayload = {
+        version: 1,
+        kind: "frame-receipt",
+        runId,
+        userId: user.id,
+        config,
+        frameIndex: analysis.frameIndex,
+        frameSha256: await sha256Hex(frame),
+        analysis,
+      };
+      return signPayload(JSON.stringify(payload));
+    })
+  );
+  return receipts.filter((receipt): receipt is FrameReceipt => receipt !== null);
+}
+
+/**
+ * Keeps the receipts that were signed here for this user and config. All
+ * accepted receipts belong to the run of the last valid one: clients append
+ * receipts, so after a run expired and was replaced, the new run wins.
+ */
+export async function redeemReceipts(
+  receipts: unknown,
+  user: AuthenticatedUser,
+  config: string
+): Promise<RedeemedReceipts> {
+  const redeemed: RedeemedReceipts = { runId: null, analyses: new Map() };
+  if (!Array.isArray(receipts)) {
+    return redeemed;
+  }
+
+  let rejected = 0;
+  for (const receipt of [...receipts].reverse() as FrameReceipt[]) {
+    let payload: ReceiptPayload | null = null;
+    if (await verifyPayload(receipt)) {
+      try {
+        payload = JSON.parse(receipt.payload) as ReceiptPayload;
+      } catch {
+        payload = null;
+      }
+    }
+
+    if (
+      !payload ||
+      payload.kind !== "frame-receipt" ||
+      payload.userId !== user.id ||
+      payload.config !== config ||
+      (redeemed.runId !== null && payload.runId !== redeemed.runId)
+    ) {
+      rejected++;
+      continue;
+    }
+
+    redeemed.runId = payload.runId;
+    if (!redeemed.analyses.has(payload.frameIndex)) {
+      redeemed.analyses.set(payload.frameIndex, { frameSha256: payload.frameSha256, analysis: payload.analysis });
+    }
+  }
+
+  if (rejected > 0) {
+    console.warn(`Ignored ${rejected} frame receipts that were invalid or from another run`);
+  }
+  return redeemed;
+}
+
+/**
+ * The audio verdict, signed so it can ride along with the frames later. The
+ * audio track is analyzed first and starts the run; the frames continue that
+ * run while it is open. The receipt names the file it was analyzed for and
+ * expires with the run, so it cannot be attached to another video.
+ */
+export type AudioReceipt = ReportSignature;
+
+interface AudioReceiptPayload {
+  version: 1;
+  kind: "audio-report";
+  runId: string;
+  userId: string;
+  /** SHA-256 of the video the audio track was taken from */
+  fileHash: string;
+  expiresAt: string;
+  report: AudioReport;
+}
+
+export async function issueAudioReceipt(
+  runId: string,
+  user: AuthenticatedUser,
+  fileHash: string,
+  report: AudioReport
+): Promise<AudioReceipt | null> {
+  const payload: AudioReceiptPayload = {
+    version: 1,
+    kind: "audio-report",
+    runId,
+    userId: user.id,
+    fileHash,
+    expiresAt: new Date(Date.now() + RUN_TTL_HOURS * 3_600_000).toISOString(),
+    report,
+  };
+  return signPayload(JSON.stringify(payload));
+}
+
+/**
+ * The run and report of an audio receipt signed here for this user and file,
+ * unexpired at `at`; null for anything else.
+ */
+export async function redeemAudioReceipt(
+  receipt: unknown,
+  user: AuthenticatedUser,
+  fileHash: string | undefined,
+  at = new Date()
+): Promise<{ runId: string; report: AudioReport } | null> {
+  if (!receipt) {
+    return null;
+  }
+
+  let payload: AudioReceiptPayload | null = null;
+  if (await verifyPayload(receipt as AudioReceipt)) {
+    try {
+      payload = JSON.parse((receipt as AudioReceipt).payload) as AudioReceiptPayload;
+    } catch {
+      payload = null;
+    }
+  }
+
+  if (
+    !payload ||
+    payload.kind !== "audio-report" ||
+    payload.userId !== user.id ||
+    payload.fileHash !== fileHash ||
+    !(Date.parse(payload.expiresAt) > at.getTime())
+  ) {
+    console.warn("Ignored an audio receipt that was invalid, expired or issued for another user or file");
+    return null;
+  }
+  return { runId: payload.runId, report: payload.report };
+}
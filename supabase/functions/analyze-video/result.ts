@@ -0,0 +1,171 @@
+import { runInBackground } from "../_shared/background.ts";
+import { analysisLinks, deliverWebhooks, enqueueWebhookEvent } from "../_shared/webhooks.ts";
+import { signAnalysis } from "./attestation.ts";
+import type { AuthenticatedUser } from "./auth.ts";
+import { getServiceClient } from "./db.ts";
+import { saveAnalysis } from "./persistence.ts";
+import { PROMPT_VERSION } from "./prompt.ts";
+import type {
+  AnalysisMetadata,
+  AnalysisResult,
+  AudioReport,
+  CompressionReport,
+  DetailedFrameAnalysis,
+  FileMetadataReport,
+  ForensicsReport,
+  FrameAnalysis,
+  ProvenanceReport,
+  TemporalMetrics,
+} from "./types.ts";
+
+const isUnitScore = (value: unknown): value is number =>
+  typeof value === "number" && value >= 0 && value <= 1;
+
+const isProvenanceReport = (value: unknown): value is ProvenanceReport =>
+  typeof value === "object" && value !== null && typeof (value as ProvenanceReport).status === "string";
+
+export const toFrameAnalysis = ({
+  frameIndex,
+  isArtificial,
+  confidence,
+  issues,
+  models,
+  faces,
+}: DetailedFrameAnalysis): FrameAnalysis => ({
+  frameIndex,
+  isArtificial,
+  confidence,
+  issues,
+  models,
+  faces,
+});
+
+/** Combines per-frame analyses, ordered by frame index, into the verdict for the video */
+export function buildResult(
+  analyses: DetailedFrameAnalysis[],
+  options: {
+    temporal?: TemporalMetrics | null;
+    forensics?: ForensicsReport | null;
+    compression?: CompressionReport | null;
+    /** Reported as sent by the client; it never changes the verdict */
+    fileMetadata?: FileMetadataReport | null;
+    provenance?: ProvenanceReport | null;
+    /** Only from a redeemed audio receipt; it never changes the video verdict */
+    audio?: AudioReport | null;
+    ensemble: AnalysisResult["ensemble"];
+    processingTime: number;
+  }
+): AnalysisResult {
+  const { temporal, ensemble, processingTime } = options;
+  const forensics = isUnitScore(options.forensics?.score) ? options.forensics : null;
+  const compression = isUnitScore(options.compression?.score) && typeof options.compression.explanation === "string"
+    ? options.compression
+    : null;
+  const fileMetadata = isUnitScore(options.fileMetadata?.score) ? options.fileMetadata : null;
+  const frameCount = analyses.length;
+
+  // Aggregate results
+  const artificialCount = analyses.filter((a) => a.isArtificial).length;
+  const avgConfidence = analyses.reduce((sum, a) => sum + a.confidence, 0) / frameCount;
+  // Frames where face detection found nothing don't count towards face consistency
+  const faceFrames = analyses.filter((a) => !a.faces || a.faces.length > 0);
+  const avgFaceScore = faceFrames.length > 0
+    ? faceFrames.reduce((sum, a) => sum + a.faceScore, 0) / faceFrames.length
+    : null;
+  const avgLightingScore = analyses.reduce((sum, a) => sum + a.lightingScore, 0) / frameCount;
+  const avgArtifactScore = analyses.reduce((sum, a) => sum + a.artifactScore, 0) / frameCount;
+  const avgQualityScore = analyses.reduce((sum, a) => sum + a.qualityScore, 0) / frameCount;
+
+  // Determine verdict based on majority of ensemble frame verdicts
+  const isAIGenerated = artificialCount > frameCount / 2;
+
+  // Calculate overall confidence
+  const overallConfidence = isAIGenerated
+    ? (artificialCount / frameCount) * avgConfidence
+    : ((frameCount - artificialCount) / frameCount) * avgConfidence;
+
+  return {
+    confidence: Math.min(0.99, Math.max(0.5, overallConfidence)),
+    verdict: isAIGenerated ? "ai-generated" : "real",
+    details: {
+      faceConsistency: avgFaceScore,
+      // Measured client-side from frame bursts; older clients only get the lighting proxy
+      temporalCoherence: isUnitScore(temporal?.score) ? temporal.score : avgLightingScore,
+      // Measured from error levels and noise residuals when the client could; the models' estimate otherwise
+      artifactScore: forensics ? forensics.score : avgArtifactScore,
+      // Double-compression forensics when the client ran them; the models' image quality estimate otherwise
+      compressionAnalysis: compression ? compression.score : avgQualityScore,
+    },
+    temporal: isUnitScore(temporal?.score) ? temporal : null,
+    forensics,
+    compression,
+    fileMetadata,
+    provenance: isProvenanceReport(options.provenance) ? options.provenance : null,
+    audio: options.audio ?? null,
+    analyzedAt: new Date().toISOString(),
+    framesAnalyzed: frameCount,
+    processingTime,
+    ensemble,
+    promptVersion: PROMPT_VERSION,
+    frameAnalyses: analyses.map(toFrameAnalysis),
+  };
+}
+
+/** Queues an analysis.completed event for the user's webhooks and sends it in the background */
+async function notifyWebhooks(result: AnalysisResult, user: AuthenticatedUser, metadata: AnalysisMetadata) {
+  const db = getServiceClient();
+  if (!db || user.isAnonymous) {
+    return;
+  }
+
+  try {
+    const ids = await enqueueWebhookEvent(db, user.id, {
+      id: crypto.randomUUID(),
+      type: "analysis.completed",
+      createdAt: new Date().toISOString(),
+      data: {
+        analysisId: result.id ?? null,
+        verdict: result.verdict,
+        confidence: result.confidence,
+        framesAnalyzed: result.framesAnalyzed,
+        fileName: metadata.fileName ?? null,
+        fileHash: metadata.fileHash ?? null,
+        analyzedAt: result.analyzedAt,
+        ...analysisLinks(result.id),
+      },
+    });
+    if (ids.length > 0) {
+      runInBackground(deliverWebhooks(db, ids));
+    }
+  } catch (error) {
+    // Deliveries are best effort from here; the result itself is already saved
+    console.error("Failed to queue webhooks:", error);
+  }
+}
+
+/**
+ * Signs the result over the SHA-256 digests of the analyzed frames, saves it
+ * and notifies the user's webhooks; fills in `signature` and `id` where that
+ * worked.
+ */
+export async function finalizeResult(
+  result: AnalysisResult,
+  frameDigests: string[],
+  user: AuthenticatedUser,
+  metadata: AnalysisMetadata = {}
+): Promise<AnalysisResult> {
+  // Reserve the row id up front so the signed attestation can reference it
+  const analysisId = crypto.randomUUID();
+  const signature = await signAnalysis(analysisId, result, frameDigests, metadata);
+  if (signature) {
+    result.signature = signature;
+  }
+
+  const id = await saveAnalysis(result, user, metadata, analysisId);
+  if (id) {
+    result.id = id;
+  }
+
+  await notifyWebhooks(result, user, metadata);
+  return result;
+}
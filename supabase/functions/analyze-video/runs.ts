@@ -0,0 +1,71 @@
+import { recordAnalysisRequest, type AuthenticatedUser } from "./auth.ts";
+import { getServiceClient } from "./db.ts";
+
+/** Frames one synchronous run may send to the models, over all of its chunks */
+export const RUN_FRAME_BUDGET = 32;
+// Matches how long clients keep a checkpoint to resume from
+export const RUN_TTL_HOURS = 24;
+
+/**
+ * Counts a new analysis against the user's limit and opens its run record.
+ * Returns the run, or the seconds to wait when a guest reached the limit.
+ */
+export async function startRun(
+  user: AuthenticatedUser,
+  clientIp: string | null
+): Promise<{ runId: string } | { retryAfter: number }> {
+  const retryAfter = await recordAnalysisRequest(user, clientIp);
+  if (retryAfter !== null) {
+    return { retryAfter };
+  }
+
+  const supabase = getServiceClient();
+  if (!supabase) {
+    throw new Error("Supabase credentials are not configured");
+  }
+
+  const { data, error } = await supabase
+    .from("analysis_runs")
+    .insert({
+      user_id: user.id,
+      frame_budget: RUN_FRAME_BUDGET,
+      expires_at: new Date(Date.now() + RUN_TTL_HOURS * 3_600_000).toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to start run: ${error.message}`);
+  }
+  return { runId: data.id };
+}
+
+/**
+ * Spends `frames` of the run's budget; `finish` closes the run for good. A
+ * receipt only proves a frame was analyzed, so whether its run may go on is
+ * decided here. False when the run expired, finished, belongs to someone
+ * else or would exceed its budget.
+ */
+export async function spendRun(
+  runId: string,
+  user: AuthenticatedUser,
+  frames: number,
+  finish: boolean
+): Promise<boolean> {
+  const supabase = getServiceClient();
+  if (!supabase) {
+    throw new Error("Supabase credentials are not configured");
+  }
+
+  const { data, error } = await supabase.rpc("use_analysis_run", {
+    p_run_id: runId,
+    p_user_id: user.id,
+    p_frames: frames,
+    p_finish: finish,
+  });
+
+  if (error) {
+    throw new Error(`Failed to continue run: ${error.message}`);
+  }
+  return data === true;
+}
@@ -0,0 +1,44 @@
+import type { FrameAnalysis } from "./types.ts";
+
+/** One line of an NDJSON analyze-video response */
+export type AnalysisEvent =
+  | { type: "frame"; frame: FrameAnalysis; completed: number; total: number }
+  | { type: "result"; result: unknown }
+  | { type: "error"; status: number; error: string };
+
+/**
+ * Streams events as newline-delimited JSON while `produce` runs. The signal
+ * passed to `produce` aborts when the client disconnects or stops reading.
+ */
+export function streamAnalysis(
+  headers: Record<string, string>,
+  requestSignal: AbortSignal,
+  produce: (send: (event: AnalysisEvent) => void, signal: AbortSignal) => Promise<void>
+): Response {
+  const cancelled = new AbortController();
+  const signal = AbortSignal.any([requestSignal, cancelled.signal]);
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: AnalysisEvent) => {
+        if (!signal.aborted) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        }
+      };
+
+      produce(send, signal).finally(() => {
+        if (!signal.aborted) {
+          controller.close();
+        }
+      });
+    },
+    cancel() {
+      cancelled.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { ...headers, "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" },
+  });
+}
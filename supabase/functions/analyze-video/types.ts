@@ -0,0 +1,189 @@
+import type { ReportSignature } from "../_shared/signing.ts";
+
+export interface ModelVerdict {
+  provider: string;
+  isArtificial: boolean;
+  confidence: number;
+  /** Calibrated probability that the frame is artificial */
+  probability: number;
+  issues: string[];
+  /** Set when the vote is on a face crop rather than the full frame */
+  faceIndex?: number;
+}
+
+/** What the image passed to a provider is; absent faceIndex means the full frame */
+export interface AnalysisContext {
+  faceIndex?: number;
+}
+
+/** Bounding box normalized to the frame size (0-1) */
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+export interface FaceAnalysis {
+  box: FaceBox;
+  isArtificial: boolean;
+  confidence: number;
+  issues: string[];
+}
+
+export interface FrameAnalysis {
+  frameIndex: number;
+  isArtificial: boolean;
+  confidence: number;
+  issues: string[];
+  models?: ModelVerdict[];
+  /** Per-face results; an empty array means no face was found, absent means detection did not run */
+  faces?: FaceAnalysis[];
+}
+
+export interface DetailedFrameAnalysis extends FrameAnalysis {
+  faceScore: number;
+  lightingScore: number;
+  artifactScore: number;
+  qualityScore: number;
+}
+
+export interface TemporalMetrics {
+  score: number;
+  motionConsistency: number;
+  flickerStability: number;
+  identityStability: number;
+  burstsAnalyzed: number;
+}
+
+/** Container metadata findings from the client's MP4/MOV box parser; the shape past `score` is informational */
+export interface FileMetadataReport {
+  /** 1 = nothing unusual, lower the more the container points to a generator or re-encode */
+  score: number;
+  findings: { severity: "high" | "medium" | "low"; message: string }[];
+  [field: string]: unknown;
+}
+
+/** Error level and noise residual measurements from the client; the shape past `score` is informational */
+export interface ForensicsReport {
+  /** 1 = no region stands out in error level or noise */
+  score: number;
+  [field: string]: unknown;
+}
+
+/** Double-compression forensics from the client; the shape past these fields is informational */
+export interface CompressionReport {
+  /** 1 = consistent with a single encode */
+  score: number;
+  explanation: string;
+  [field: string]: unknown;
+}
+
+/** Content Credentials (C2PA) verified by the client; the shape past these fields is informational */
+export interface ProvenanceReport {
+  status: "valid" | "invalid" | "incomplete";
+  /** The signer chains to the client's trust list */
+  trusted: boolean;
+  /** A c2pa.created action declares a trained-model digital source type */
+  aiGenerated: boolean;
+  aiTool: string | null;
+  claimGenerator: string | null;
+  [field: string]: unknown;
+}
+
+/** One segment of the audio track, as cut by the client */
+export interface AudioSegmentInput {
+  index: number;
+  /** Seconds into the video */
+  start: number;
+  end: number;
+  /** WAV data URL */
+  audio: string;
+  /** Spectral features measured by the client; passed through to the classifier */
+  features?: Record<string, number>;
+}
+
+export interface AudioSegmentAnalysis {
+  index: number;
+  start: number;
+  end: number;
+  isArtificial: boolean;
+  confidence: number;
+  /** Calibrated probability that the voice is synthetic */
+  probability: number;
+  issues: string[];
+}
+
+/** Verdict on the audio track, kept apart from the video verdict */
+export interface AudioReport {
+  verdict: "real" | "ai-generated";
+  confidence: number;
+  provider: string;
+  segmentsAnalyzed: number;
+  segments: AudioSegmentAnalysis[];
+}
+
+export interface AnalysisResult {
+  confidence: number;
+  verdict: "real" | "ai-generated";
+  details: {
+    /** Null when face detection ran and found no faces in any frame */
+    faceConsistency: number | null;
+    temporalCoherence: number;
+    artifactScore: number;
+    compressionAnalysis: number;
+  };
+  temporal: TemporalMetrics | null;
+  /** Null when the frames were extracted server-side and for older clients */
+  forensics: ForensicsReport | null;
+  /** Null when neither the frames nor the container could be examined, and for older clients */
+  compression: CompressionReport | null;
+  /** Null for containers the client could not parse and for older clients */
+  fileMetadata: FileMetadataReport | null;
+  /** Null when the file carries no Content Credentials */
+  provenance: ProvenanceReport | null;
+  /** Null when the video has no audible audio track or no audio classifier is configured */
+  audio: AudioReport | null;
+  /** ISO timestamp of when the analysis finished */
+  analyzedAt: string;
+  framesAnalyzed: number;
+  processingTime: number;
+  ensemble: {
+    strategy: string;
+    providers: string[];
+  };
+  promptVersion: string;
+  frameAnalyses: FrameAnalysis[];
+  /** Row id in the analyses table; absent when the result could not be saved */
+  id?: string;
+  /** Absent when REPORT_SIGNING_KEY is not configured */
+  signature?: ReportSignature;
+}
+
+/** Describes the uploaded file; sent by the client so the result can be saved */
+export interface AnalysisMetadata {
+  fileName?: string;
+  fileHash?: string;
+  fileSize?: number;
+  duration?: number;
+  /** Frame sampling and decoding settings used by the client */
+  extraction?: Record<string, unknown>;
+  /** Where each analyzed frame was taken from, indexed like `frames` */
+  frames?: {
+    timestamp: number;
+    sampling?: { strategy: string; shotIndex?: number; exact: boolean };
+  }[];
+  /** Container and stream metadata reported by server-side extraction */
+  container?: Record<string, unknown> | null;
+  /** Pixel forensics run by the client on the extracted frames */
+  forensics?: ForensicsReport | null;
+  /** Quantization, keyframe and bitrate analysis run by the client on the original file */
+  compression?: CompressionReport | null;
+  /** Container metadata forensics run by the client on the original file */
+  fileMetadata?: FileMetadataReport | null;
+  /** Content Credentials found in the original file */
+  provenance?: ProvenanceReport | null;
+  /** Signed audio report a job was created with; ignored everywhere else */
+  audio?: ReportSignature | null;
+}
@@ -0,0 +1,319 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getClientIp, recordAnalysisRequest } from "../analyze-video/auth.ts";
+import { getServiceClient } from "../analyze-video/db.ts";
+import { findConfigError, type EnsembleRequest } from "../analyze-video/ensemble.ts";
+import { extractionConfigured, findSamplingError, VIDEO_BUCKET, type SamplingPlan } from "../analyze-video/extract.ts";
+import { describeError, guestLimitResponse } from "../analyze-video/http.ts";
+import {
+  dispatchWorker,
+  ensureWorker,
+  insertJob,
+  MAX_JOB_FRAMES,
+  queueJob,
+  storeFrames,
+  toJobResponse,
+  type JobRow,
+} from "../analyze-video/jobs.ts";
+import type { ProviderRequest } from "../analyze-video/providers.ts";
+import { authenticateApiKey, type ApiKeyAccess, type ApiScope } from "./keys.ts";
+
+/**
+ * Public REST API for programmatic analysis, authenticated with API keys
+ * instead of a Supabase session. See docs/api.md for the full reference.
+ *
+ *   POST /api/v1/analyses      submit frames (JSON) or a video (raw body)     scope: analyze
+ *   GET  /api/v1/jobs/:id      status of a submission, with the result        scope: analyze or read
+ *   GET  /api/v1/analyses      list saved analyses, newest first              scope: read
+ *   GET  /api/v1/analyses/:id  a saved analysis with its per-frame verdicts   scope: read
+ *
+ * Submissions run as analysis jobs, exactly like long videos in the app.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-api-key, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const VIDEO_TYPES: Record<string, string> = {
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/x-msvideo": "avi",
+  "video/webm": "webm",
+};
+// Larger videos exceed what an edge function can buffer
+const MAX_VIDEO_SIZE = 50 * 1024 * 1024;
+const DEFAULT_SAMPLING: SamplingPlan = { strategy: "adaptive", maxFrames: 24 };
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const SUMMARY_COLUMNS =
+  "id, file_name, file_hash, file_size, duration, verdict, confidence, frames_analyzed, processing_time, model_version, prompt_version, created_at";
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+  });
+
+const jobCreated = (job: JobRow) =>
+  json(toJobResponse(job), 202, { Location: `/functions/v1/api/v1/jobs/${job.id}` });
+
+const toApiAnalysis = (row: Record<string, unknown>) => ({
+  id: row.id,
+  fileName: row.file_name,
+  fileHash: row.file_hash,
+  fileSize: row.file_size,
+  duration: row.duration,
+  verdict: row.verdict,
+  confidence: row.confidence,
+  framesAnalyzed: row.frames_analyzed,
+  processingTime: row.processing_time,
+  modelVersion: row.model_version,
+  promptVersion: row.prompt_version,
+  createdAt: row.created_at,
+  // Only present on single-analysis responses
+  ...("details" in row && {
+    details: row.details,
+    temporal: row.temporal,
+    forensics: row.forensics,
+    compression: row.compression,
+    fileMetadata: row.file_metadata,
+    provenance: row.provenance,
+    audio: row.audio,
+    frameAnalyses: row.frame_analyses,
+    signature: row.signature,
+  }),
+});
+
+/** Reads the body into a Blob, or resolves null as soon as it exceeds `limit` bytes */
+async function readBody(req: Request, limit: number): Promise<Blob | null> {
+  const reader = req.body?.getReader();
+  if (!reader) return new Blob();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return new Blob(chunks);
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+/** Counts a validated submission against the caller's quota; a 429 response when it is used up */
+async function chargeQuota(req: Request, access: ApiKeyAccess): Promise<Response | null> {
+  const retryAfter = await recordAnalysisRequest(access.user, getClientIp(req));
+  return retryAfter === null ? null : guestLimitResponse(retryAfter);
+}
+
+async function submitFrames(req: Request, db: SupabaseClient, access: ApiKeyAccess): Promise<Response> {
+  const { frames, metadata, provider, ensemble } = (await req.json()) as {
+    frames?: string[];
+    metadata?: { fileName?: string; fileHash?: string; fileSize?: number; duration?: number };
+    provider?: ProviderRequest;
+    ensemble?: EnsembleRequest;
+  };
+
+  if (
+    !Array.isArray(frames) ||
+    frames.length === 0 ||
+    frames.length > MAX_JOB_FRAMES ||
+    frames.some((frame) => typeof frame !== "string")
+  ) {
+    return json({ error: `frames must be an array of 1 to ${MAX_JOB_FRAMES} image data URLs` }, 400);
+  }
+
+  const configError = findConfigError(provider, ensemble);
+  if (configError) {
+    return json({ error: configError }, 400);
+  }
+
+  const limited = await chargeQuota(req, access);
+  if (limited) return limited;
+
+  const job = await insertJob(db, access.user, {
+    totalFrames: frames.length,
+    metadata: {
+      fileName: metadata?.fileName,
+      fileHash: metadata?.fileHash,
+      fileSize: metadata?.fileSize,
+      duration: metadata?.duration,
+    },
+    provider,
+    ensemble,
+  });
+  await storeFrames(db, job.id, 0, frames);
+
+  console.log(`API key ${access.keyId} submitted ${frames.length} frames as job ${job.id}`);
+  return jobCreated(await queueJob(db, job));
+}
+
+async function submitVideo(req: Request, db: SupabaseClient, access: ApiKeyAccess): Promise<Response> {
+  const contentType = req.headers.get("Content-Type")?.split(";")[0].trim() ?? "";
+  const extension = VIDEO_TYPES[contentType];
+  if (!extension) {
+    return json({ error: "Send frames as application/json or an MP4, MOV, AVI or WebM video as the body" }, 415);
+  }
+  if (!extractionConfigured()) {
+    return json({ error: "Video submissions are not enabled on this deployment; submit frames instead" }, 503);
+  }
+  if (Number(req.headers.get("Content-Length")) > MAX_VIDEO_SIZE) {
+    return json({ error: "Video too large. Maximum size is 50MB." }, 413);
+  }
+
+  const params = new URL(req.url).searchParams;
+  const sampling: SamplingPlan = {
+    strategy: (params.get("strategy") as SamplingPlan["strategy"]) ?? DEFAULT_SAMPLING.strategy,
+    maxFrames: params.has("maxFrames") ? Number(params.get("maxFrames")) : DEFAULT_SAMPLING.maxFrames,
+  };
+  const samplingError = findSamplingError(sampling, MAX_JOB_FRAMES);
+  if (samplingError) {
+    return json({ error: samplingError.replace("sampling.", "") }, 400);
+  }
+
+  // Without a Content-Length the size is only known once read, so stop reading at the limit
+  const video = await readBody(req, MAX_VIDEO_SIZE);
+  if (!video || video.size === 0) {
+    return json({ error: "The body must be a video of at most 50MB" }, video ? 400 : 413);
+  }
+
+  const limited = await chargeQuota(req, access);
+  if (limited) return limited;
+
+  // Stored like the app's uploads, so the same retention policy removes it
+  const path = `${access.user.id}/api/${crypto.randomUUID()}.${extension}`;
+  const { error: uploadError } = await db.storage.from(VIDEO_BUCKET).upload(path, video, { contentType });
+  if (uploadError) throw uploadError;
+
+  const job = await insertJob(db, access.user, {
+    metadata: { fileName: params.get("fileName") ?? undefined, fileSize: video.size },
+    source: { path },
+    sampling,
+  });
+  await dispatchWorker(job.id);
+
+  console.log(`API key ${access.keyId} submitted a video as job ${job.id}`);
+  return jobCreated(job);
+}
+
+async function getJob(db: SupabaseClient, access: ApiKeyAccess, jobId: string): Promise<Response> {
+  const { data: job, error } = await db
+    .from("analysis_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .eq("user_id", access.user.id)
+    .maybeSingle<JobRow>();
+  if (error) throw error;
+  if (!job) {
+    return json({ error: "Job not found" }, 404);
+  }
+
+  await ensureWorker(job);
+  return json(toJobResponse(job));
+}
+
+async function listAnalyses(req: Request, db: SupabaseClient, access: ApiKeyAccess): Promise<Response> {
+  const params = new URL(req.url).searchParams;
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(params.get("limit")) || DEFAULT_PAGE_SIZE));
+  const before = params.get("before");
+
+  let query = db
+    .from("analyses")
+    .select(SUMMARY_COLUMNS)
+    .eq("user_id", access.user.id)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (before) {
+    if (Number.isNaN(Date.parse(before))) {
+      return json({ error: "before must be an ISO timestamp" }, 400);
+    }
+    query = query.lt("created_at", before);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const analyses = data.map(toApiAnalysis);
+  return json({
+    analyses,
+    // Pass as `before` to fetch the next page
+    nextCursor: analyses.length === limit ? analyses[analyses.length - 1].createdAt : null,
+  });
+}
+
+async function getAnalysis(db: SupabaseClient, access: ApiKeyAccess, analysisId: string): Promise<Response> {
+  const { data, error } = await db
+    .from("analyses")
+    .select(`${SUMMARY_COLUMNS}, details, temporal, forensics, compression, file_metadata, provenance, audio, frame_analyses, signature`)
+    .eq("id", analysisId)
+    .eq("user_id", access.user.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    return json({ error: "Analysis not found" }, 404);
+  }
+  return json(toApiAnalysis(data));
+}
+
+const requireScope = (access: ApiKeyAccess, ...scopes: ApiScope[]) =>
+  scopes.some((scope) => access.scopes.includes(scope))
+    ? null
+    : json({ error: `This API key needs the ${scopes.join(" or ")} scope` }, 403);
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const db = getServiceClient();
+    if (!db) {
+      return json({ error: "The API is not configured on this deployment" }, 503);
+    }
+
+    const access = await authenticateApiKey(req, db);
+    if (!access) {
+      return json({ error: "Missing or invalid API key" }, 401, { "WWW-Authenticate": "Bearer" });
+    }
+
+    const route = new URL(req.url).pathname.match(/\/v1\/(analyses|jobs)(?:\/([0-9a-f-]{36}))?\/?$/i);
+    if (!route) {
+      return json({ error: "Not found" }, 404);
+    }
+    const [, resource, id] = route;
+
+    if (resource === "analyses" && !id && req.method === "POST") {
+      const denied = requireScope(access, "analyze");
+      if (denied) return denied;
+
+      // Each submitter validates the request before it counts against the quota
+      return req.headers.get("Content-Type")?.includes("application/json")
+        ? await submitFrames(req, db, access)
+        : await submitVideo(req, db, access);
+    }
+
+    if (req.method !== "GET") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    if (resource === "jobs" && id) {
+      return requireScope(access, "analyze", "read") ?? (await getJob(db, access, id));
+    }
+    if (resource === "analyses") {
+      const denied = requireScope(access, "read");
+      if (denied) return denied;
+      return id ? await getAnalysis(db, access, id) : await listAnalyses(req, db, access);
+    }
+    return json({ error: "Not found" }, 404);
+  } catch (error) {
+    console.error("api error:", error);
+    const { status, error: message } = describeError(error);
+    return json({ error: message }, status);
+  }
+});
@@ -0,0 +1,39 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sha256Hex } from "../_shared/signing.ts";
+import type { AuthenticatedUser } from "../analyze-video/auth.ts";
+
+export type ApiScope = "analyze" | "read";
+
+export interface ApiKeyAccess {
+  keyId: string;
+  user: AuthenticatedUser;
+  scopes: ApiScope[];
+}
+
+/** Keys are sent as `Authorization: Bearer <key>` or in the `X-API-Key` header */
+const readKey = (req: Request) =>
+  req.headers.get("X-API-Key")?.trim() || req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "").trim() || null;
+
+/**
+ * Resolves the API key on the request and counts its use. Returns null for a
+ * missing, unknown or revoked key. Keys are only ever compared by hash.
+ */
+export async function authenticateApiKey(req: Request, db: SupabaseClient): Promise<ApiKeyAccess | null> {
+  const key = readKey(req);
+  if (!key) {
+    return null;
+  }
+
+  const { data, error } = await db.rpc("use_api_key", { p_key_hash: await sha256Hex(key) });
+  if (error) {
+    throw new Error(`Failed to check API key: ${error.message}`);
+  }
+
+  const match = (data as { id: string; user_id: string; scopes: ApiScope[] }[] | null)?.[0];
+  if (!match) {
+    return null;
+  }
+
+  // Keys can only be created by registered users
+  return { keyId: match.id, user: { id: match.user_id, isAnonymous: false }, scopes: match.scopes };
+}
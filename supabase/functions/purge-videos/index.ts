@@ -0,0 +1,52 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const DEFAULT_RETENTION_HOURS = 24;
+// Objects removed per Storage API call
+const PURGE_BATCH_SIZE = 100;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+// Called hourly by pg_cron; deletes uploaded originals older than VIDEO_RETENTION_HOURS
+// and fails analysis jobs whose upload stalled for as long, dropping their frames
+serve(async (req) => {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) {
+    return json({ error: "Supabase credentials are not configured" }, 503);
+  }
+  if (req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+    return json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const retentionHours = Number(Deno.env.get("VIDEO_RETENTION_HOURS")) || DEFAULT_RETENTION_HOURS;
+    const db = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+    let purged = 0;
+    for (;;) {
+      const { data: names, error } = await db.rpc("expired_videos", {
+        retention: `${retentionHours} hours`,
+        max_count: PURGE_BATCH_SIZE,
+      });
+      if (error) throw error;
+      if (!names || names.length === 0) break;
+
+      const { error: removeError } = await db.storage.from("videos").remove(names);
+      if (removeError) throw removeError;
+      purged += names.length;
+    }
+
+    const { data: expiredJobs, error: jobsError } = await db.rpc("expire_stale_jobs", {
+      retention: `${retentionHours} hours`,
+    });
+    if (jobsError) throw jobsError;
+
+    console.log(`Purged ${purged} videos and expired ${expiredJobs} jobs older than ${retentionHours}h`);
+    return json({ purged, expiredJobs, retentionHours });
+  } catch (error) {
+    console.error("purge-videos error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
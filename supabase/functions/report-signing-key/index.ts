@@ -0,0 +1,34 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getPublicKeyInfo } from "../_shared/signing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Public: anyone holding a report must be able to fetch the key to verify it
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const key = await getPublicKeyInfo();
+    if (!key) {
+      return new Response(
+        JSON.stringify({ error: "Report signing is not configured" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(JSON.stringify(key), {
+      headers: { ...corsHeaders, "Content-Type": "application/json", "Cache-Control": "public, max-age=3600" },
+    });
+  } catch (error) {
+    console.error("report-signing-key error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,92 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { deliverWebhooks, enqueueWebhookEvent } from "../_shared/webhooks.ts";
+import { authenticate } from "../analyze-video/auth.ts";
+import { getServiceClient } from "../analyze-video/db.ts";
+
+/**
+ *   POST /webhooks/deliver    retries due deliveries; called every minute by pg_cron with the service key
+ *   POST /webhooks/:id/test   sends a test event to one of the caller's endpoints and returns the delivery
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const db = getServiceClient();
+    if (!db) {
+      return json({ error: "Supabase credentials are not configured" }, 503);
+    }
+
+    const pathname = new URL(req.url).pathname;
+
+    if (/\/deliver\/?$/.test(pathname)) {
+      if (req.headers.get("Authorization") !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+        return json({ error: "Forbidden" }, 403);
+      }
+      const attempted = await deliverWebhooks(db);
+      if (attempted > 0) {
+        console.log(`Attempted ${attempted} webhook deliveries`);
+      }
+      return json({ attempted });
+    }
+
+    const testRoute = pathname.match(/\/([0-9a-f-]{36})\/test\/?$/i);
+    if (!testRoute) {
+      return json({ error: "Not found" }, 404);
+    }
+
+    const user = await authenticate(req);
+    if (!user) {
+      return json({ error: "Sign in to test webhooks" }, 401);
+    }
+
+    const now = new Date().toISOString();
+    const ids = await enqueueWebhookEvent(
+      db,
+      user.id,
+      {
+        id: crypto.randomUUID(),
+        type: "test",
+        createdAt: now,
+        data: {
+          analysisId: null,
+          verdict: "ai-generated",
+          confidence: 0.87,
+          framesAnalyzed: 12,
+          fileName: "test-event.mp4",
+          fileHash: null,
+          analyzedAt: now,
+          resultUrl: null,
+          apiUrl: null,
+        },
+      },
+      testRoute[1]
+    );
+    if (ids.length === 0) {
+      return json({ error: "Webhook not found or disabled" }, 404);
+    }
+
+    // Test events are attempted once, inline, so the settings page can show the outcome
+    await deliverWebhooks(db, ids);
+    const { data: delivery, error } = await db.from("webhook_deliveries").select("*").eq("id", ids[0]).single();
+    if (error) throw error;
+
+    return json(delivery);
+  } catch (error) {
+    console.error("webhooks error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,41 @@
+-- Saved results of the analyze-video function
+create table public.analyses (
+  id uuid primary key default gen_random_uuid(),
+  file_name text not null,
+  file_hash text,
+  file_size bigint,
+  duration double precision,
+  verdict text not null check (verdict in ('real', 'ai-generated')),
+  confidence double precision not null,
+  details jsonb not null,
+  temporal jsonb,
+  frame_analyses jsonb not null default '[]'::jsonb,
+  frames_analyzed integer not null,
+  processing_time double precision not null,
+  model_version text not null,
+  prompt_version text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index analyses_created_at_idx on public.analyses (created_at desc);
+create index analyses_file_hash_idx on public.analyses (file_hash);
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger analyses_set_updated_at
+before update on public.analyses
+for each row execute function public.set_updated_at();
+
+-- Rows are written by the edge function with the service role. There is no read
+-- policy: clients may only ever read their own analyses, and rows have no owner yet.
+alter table public.analyses enable row level security;
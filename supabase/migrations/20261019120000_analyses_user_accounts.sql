@@ -0,0 +1,29 @@
+-- Attribute every analysis to the user who ran it; guests are Supabase anonymous users
+alter table public.analyses
+  add column user_id uuid references auth.users (id) on delete cascade,
+  add column is_anonymous boolean not null default false;
+
+create index analyses_user_id_created_at_idx on public.analyses (user_id, created_at desc);
+
+-- Only databases created before analyses were private still have this policy
+drop policy if exists "Analyses are readable by everyone" on public.analyses;
+
+create policy "Users can read their own analyses"
+on public.analyses for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- One row per accepted analyze-video call, used to rate-limit guests
+create table public.analysis_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  is_anonymous boolean not null,
+  client_ip text,
+  created_at timestamptz not null default now()
+);
+
+create index analysis_requests_user_id_created_at_idx on public.analysis_requests (user_id, created_at desc);
+create index analysis_requests_client_ip_created_at_idx on public.analysis_requests (client_ip, created_at desc);
+
+-- Only the edge function (service role) reads or writes request logs
+alter table public.analysis_requests enable row level security;
@@ -0,0 +1,3 @@
+-- Frame sampling and decoding settings, kept for machine-readable exports
+alter table public.analyses
+  add column extraction jsonb;
@@ -0,0 +1,3 @@
+-- Ed25519 signature over the analysis attestation, so saved reports stay verifiable
+alter table public.analyses
+  add column signature jsonb;
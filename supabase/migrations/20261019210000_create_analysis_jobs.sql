@@ -0,0 +1,53 @@
+-- Long videos are analyzed as jobs: frames are uploaded in chunks and a
+-- background worker in analyze-video processes them
+create table public.analysis_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  is_anonymous boolean not null default false,
+  status text not null default 'uploading'
+    check (status in ('uploading', 'queued', 'processing', 'completed', 'failed', 'cancelled')),
+  total_frames integer not null check (total_frames > 0),
+  processed_frames integer not null default 0,
+  temporal jsonb,
+  metadata jsonb not null default '{}'::jsonb,
+  -- Provider and ensemble requested when the job was created
+  config jsonb not null default '{}'::jsonb,
+  result jsonb,
+  error text,
+  analysis_id uuid references public.analyses (id) on delete set null,
+  -- Lease of the worker currently processing the job; null when none holds it
+  worker_heartbeat_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index analysis_jobs_user_id_created_at_idx on public.analysis_jobs (user_id, created_at desc);
+
+create trigger analysis_jobs_set_updated_at
+before update on public.analysis_jobs
+for each row execute function public.set_updated_at();
+
+-- Written by the edge function; owners may read (and subscribe to) their jobs
+alter table public.analysis_jobs enable row level security;
+
+create policy "Users can read their own analysis jobs"
+on public.analysis_jobs for select
+to authenticated
+using (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.analysis_jobs;
+
+-- Uploaded frames and their per-frame results; removed once the job completes
+create table public.analysis_job_frames (
+  job_id uuid not null references public.analysis_jobs (id) on delete cascade,
+  frame_index integer not null check (frame_index >= 0),
+  frame text not null,
+  -- Computed on upload; the signed attestation covers these digests
+  frame_sha256 text not null,
+  faces jsonb,
+  analysis jsonb,
+  primary key (job_id, frame_index)
+);
+
+-- Only the edge function (service role) reads or writes job frames
+alter table public.analysis_job_frames enable row level security;
@@ -0,0 +1,76 @@
+-- Original videos uploaded for server-side frame extraction. Objects live
+-- under `<user id>/` in a private bucket and are purged after the retention
+-- window by the purge-videos function.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'videos',
+  'videos',
+  false,
+  2147483648, -- 2 GiB
+  array['video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/webm']
+)
+on conflict (id) do nothing;
+
+create policy "Users can upload videos to their own folder"
+on storage.objects for insert
+to authenticated
+with check (bucket_id = 'videos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Resumable uploads overwrite an object of the same name
+create policy "Users can update videos in their own folder"
+on storage.objects for update
+to authenticated
+using (bucket_id = 'videos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can read their own videos"
+on storage.objects for select
+to authenticated
+using (bucket_id = 'videos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own videos"
+on storage.objects for delete
+to authenticated
+using (bucket_id = 'videos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Jobs can now start from an uploaded video; the frame count is only known once it is extracted
+alter table public.analysis_jobs
+  add column source_path text,
+  alter column total_frames drop not null,
+  drop constraint analysis_jobs_status_check,
+  add constraint analysis_jobs_status_check
+    check (status in ('uploading', 'extracting', 'queued', 'processing', 'completed', 'failed', 'cancelled'));
+
+-- Storage objects may not be deleted with SQL; purge-videos removes what this lists through the Storage API
+create or replace function public.expired_videos(retention interval, max_count integer default 100)
+returns setof text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select name
+  from storage.objects
+  where bucket_id = 'videos' and created_at < now() - retention
+  order by created_at
+  limit max_count;
+$$;
+
+revoke execute on function public.expired_videos(interval, integer) from public, anon, authenticated;
+
+-- Hourly purge. Expects `project_url` and `service_role_key` secrets in Vault.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'purge-expired-videos',
+  '15 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/purge-videos',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    )
+  );
+  $$
+);
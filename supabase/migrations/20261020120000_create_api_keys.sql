@@ -0,0 +1,60 @@
+-- Per-user keys for the public REST API (the `api` edge function). Only a
+-- SHA-256 hash of each key is stored; the key itself is shown once.
+create table public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  -- First characters of the key, so users can tell keys apart
+  prefix text not null,
+  key_hash text not null unique,
+  scopes text[] not null check (scopes <@ array['analyze', 'read'] and cardinality(scopes) > 0),
+  usage_count bigint not null default 0,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index api_keys_user_id_idx on public.api_keys (user_id, created_at desc);
+
+alter table public.api_keys enable row level security;
+
+create policy "Users can read their own API keys"
+on public.api_keys for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- Guests cannot create keys; their data goes away with the anonymous session
+create policy "Registered users can create API keys"
+on public.api_keys for insert
+to authenticated
+with check (auth.uid() = user_id and coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false) = false);
+
+create policy "Users can revoke their own API keys"
+on public.api_keys for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+create policy "Users can delete their own API keys"
+on public.api_keys for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- Owners may rename or revoke a key, never change its hash, scopes or counters
+revoke update on public.api_keys from authenticated;
+grant update (name, revoked_at) on public.api_keys to authenticated;
+
+-- Resolves a key and counts the request in one statement; only the api function calls this
+create or replace function public.use_api_key(p_key_hash text)
+returns table (id uuid, user_id uuid, scopes text[])
+language sql
+security definer
+set search_path = ''
+as $$
+  update public.api_keys as k
+  set usage_count = k.usage_count + 1, last_used_at = now()
+  where k.key_hash = p_key_hash and k.revoked_at is null
+  returning k.id, k.user_id, k.scopes;
+$$;
+
+revoke execute on function public.use_api_key(text) from public, anon, authenticated;
@@ -0,0 +1,85 @@
+-- Endpoints notified when an analysis completes. Deliveries are signed with
+-- HMAC-SHA256 using the endpoint's secret, so the secret is stored as is.
+create table public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  url text not null check (url ~ '^https?://'),
+  description text,
+  secret text not null,
+  -- Empty means every verdict; otherwise only completions with one of these verdicts
+  verdicts text[] not null default '{}' check (verdicts <@ array['real', 'ai-generated']),
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index webhooks_user_id_idx on public.webhooks (user_id);
+
+create trigger webhooks_set_updated_at
+before update on public.webhooks
+for each row execute function public.set_updated_at();
+
+alter table public.webhooks enable row level security;
+
+create policy "Users can read their own webhooks"
+on public.webhooks for select
+to authenticated
+using (auth.uid() = user_id);
+
+create policy "Registered users can create webhooks"
+on public.webhooks for insert
+to authenticated
+with check (auth.uid() = user_id and coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false) = false);
+
+create policy "Users can update their own webhooks"
+on public.webhooks for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+create policy "Users can delete their own webhooks"
+on public.webhooks for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- One row per event and endpoint; retried with exponential backoff until it succeeds or gives up
+create table public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  response_status integer,
+  error text,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index webhook_deliveries_webhook_id_idx on public.webhook_deliveries (webhook_id, created_at desc);
+create index webhook_deliveries_pending_idx on public.webhook_deliveries (next_attempt_at) where status = 'pending';
+
+-- Written by edge functions only; owners can read the delivery log
+alter table public.webhook_deliveries enable row level security;
+
+create policy "Users can read their own webhook deliveries"
+on public.webhook_deliveries for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- Retries due deliveries every minute
+select cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/webhooks/deliver',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    )
+  );
+  $$
+);
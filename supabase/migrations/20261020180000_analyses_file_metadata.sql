@@ -0,0 +1,3 @@
+-- Container metadata forensics from the client's MP4/MOV parser; null for other containers
+alter table public.analyses
+  add column file_metadata jsonb;
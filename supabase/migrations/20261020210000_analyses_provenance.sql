@@ -0,0 +1,3 @@
+-- Content Credentials (C2PA) verified in the browser; null when the file carries none
+alter table public.analyses
+  add column provenance jsonb;
@@ -0,0 +1,3 @@
+-- Error level and noise residual measurements from the client; null when frames were extracted server-side
+alter table public.analyses
+  add column forensics jsonb;
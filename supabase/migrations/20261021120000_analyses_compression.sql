@@ -0,0 +1,3 @@
+-- Double-compression forensics from the client: DCT quantization, keyframe structure and bitrate
+alter table public.analyses
+  add column compression jsonb;
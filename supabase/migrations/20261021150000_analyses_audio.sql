@@ -0,0 +1,3 @@
+-- Separate verdict on the audio track with per-segment results from the voice classifier
+alter table public.analyses
+  add column audio jsonb;
@@ -0,0 +1,49 @@
+-- Checks the guest limit and logs the request in one transaction. Without the
+-- lock, parallel requests could all read the count before any of them inserted.
+create or replace function public.record_analysis_request(
+  p_user_id uuid,
+  p_is_anonymous boolean,
+  p_client_ip text,
+  p_limit integer,
+  p_window_minutes integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  user_key bigint := hashtextextended(p_user_id::text, 0);
+  ip_key bigint := hashtextextended(coalesce(p_client_ip, p_user_id::text), 0);
+  since timestamptz := now() - make_interval(mins => p_window_minutes);
+  oldest timestamptz;
+begin
+  if p_is_anonymous then
+    -- A guest is counted by user and by IP; lock both in a fixed order so two requests cannot deadlock
+    perform pg_advisory_xact_lock(least(user_key, ip_key));
+    if ip_key <> user_key then
+      perform pg_advisory_xact_lock(greatest(user_key, ip_key));
+    end if;
+
+    -- Once the request at this position leaves the window the guest is back under the limit
+    select r.created_at into oldest
+    from public.analysis_requests as r
+    where r.is_anonymous
+      and (r.user_id = p_user_id or (p_client_ip is not null and r.client_ip = p_client_ip))
+      and r.created_at >= since
+    order by r.created_at desc
+    offset p_limit - 1
+    limit 1;
+
+    if oldest is not null then
+      return greatest(1, ceil(extract(epoch from oldest + make_interval(mins => p_window_minutes) - now()))::integer);
+    end if;
+  end if;
+
+  insert into public.analysis_requests (user_id, is_anonymous, client_ip)
+  values (p_user_id, p_is_anonymous, p_client_ip);
+  return null;
+end;
+$$;
+
+revoke execute on function public.record_analysis_request(uuid, boolean, text, integer, integer) from public, anon, authenticated;
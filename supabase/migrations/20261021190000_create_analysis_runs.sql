@@ -0,0 +1,40 @@
+-- One row per synchronous analysis. Frame and audio receipts name their run,
+-- and a run is only continued while it is open and within its frame budget.
+create table public.analysis_runs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  frame_budget integer not null check (frame_budget > 0),
+  frames_used integer not null default 0,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  -- Set by the request that combined the run into a verdict; the run cannot be continued after that
+  finished_at timestamptz
+);
+
+create index analysis_runs_expires_at_idx on public.analysis_runs (expires_at);
+
+-- Only the edge function (service role) reads or writes runs
+alter table public.analysis_runs enable row level security;
+
+-- Counts frames against the run's budget in one statement; false when the run cannot take them
+create or replace function public.use_analysis_run(p_run_id uuid, p_user_id uuid, p_frames integer, p_finish boolean)
+returns boolean
+language sql
+security definer
+set search_path = ''
+as $$
+  with used as (
+    update public.analysis_runs as r
+    set frames_used = r.frames_used + p_frames,
+        finished_at = case when p_finish then now() end
+    where r.id = p_run_id
+      and r.user_id = p_user_id
+      and r.finished_at is null
+      and r.expires_at > now()
+      and r.frames_used + p_frames <= r.frame_budget
+    returning 1
+  )
+  select exists (select 1 from used);
+$$;
+
+revoke execute on function public.use_analysis_run(uuid, uuid, integer, boolean) from public, anon, authenticated;
@@ -0,0 +1,26 @@
+-- Jobs whose upload or extraction never finished would keep their frames in
+-- Postgres forever. purge-videos calls this hourly with the video retention.
+create or replace function public.expire_stale_jobs(retention interval)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  expired integer;
+begin
+  update public.analysis_jobs
+  set status = 'failed', error = 'The upload was not finished in time', worker_heartbeat_at = null
+  where status in ('uploading', 'extracting') and updated_at < now() - retention;
+  get diagnostics expired = row_count;
+
+  -- Frames are only needed while a worker may still analyze them; failed jobs kept theirs until now
+  delete from public.analysis_job_frames as f
+  using public.analysis_jobs as j
+  where j.id = f.job_id and j.status in ('completed', 'failed', 'cancelled');
+
+  return expired;
+end;
+$$;
+
+revoke execute on function public.expire_stale_jobs(interval) from public, anon, authenticated;
@@ -0,0 +1,5 @@
+-- Deliveries only go to https endpoints. Existing http endpoints stay listed
+-- but fail their deliveries until their owners change them.
+alter table public.webhooks
+  drop constraint webhooks_url_check,
+  add constraint webhooks_url_check check (url ~ '^https://') not valid;